@@ -11,6 +11,7 @@ jest.mock("../../services/jan-client", () => ({
   JANClient: jest.fn().mockImplementation(() => ({
     validateConnection: jest.fn().mockResolvedValue(true),
     validateModel: jest.fn().mockResolvedValue(true),
+    listModels: jest.fn().mockResolvedValue(["llama2", "mistral"]),
     getOptions: jest.fn().mockReturnValue({
       endpoint: "http://localhost:1337",
       model: "llama2",
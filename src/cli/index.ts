@@ -2,31 +2,103 @@
 
 import { Command } from "commander";
 import * as readline from "readline";
+import * as fs from "fs-extra";
 import {
   ConfigManager,
   AuthenticationService,
   SetupService,
+  GitHubClient,
   GitHubIssueScraper,
+  HttpCache,
+  AnalysisCache,
+  TrafficRecorder,
+  MockLLMServer,
+  MOCK_LLM_FAILURE_MODES,
+  type MockLLMFailureMode,
+  ReportGenerator,
+  REPORT_FORMATS,
+  JANClient,
+  PromptManager,
+  Taxonomy,
+  Evaluator,
+  formatEvalTable,
+  type EvalResult,
+  LLM_PROVIDERS,
+  PREFILTER_METHODS,
+  resolveLLMEndpoint,
+  type ScrapeRunOptions,
 } from "../services";
-import { Config } from "../models";
+import {
+  Config,
+  ItemKind,
+  IssueStateFilter,
+  GitHubApiMode,
+  LLMProviderName,
+  PrefilterMethod,
+} from "../models";
 import {
   ErrorHandler,
   ScraperError,
   ErrorContext,
 } from "../services/error-handler";
 
+// Local servers rarely have more parallel slots than this
+const MAX_LLM_CONCURRENCY = 32;
+
+// GitHub's secondary rate limits cap concurrent requests; stay well below
+const DEFAULT_GITHUB_CONCURRENCY = 4;
+const MAX_GITHUB_CONCURRENCY = 10;
+
+interface MockLLMOptions {
+  port: string;
+  models: string;
+  failure: string;
+  failureCount?: string;
+}
+
+interface EvalOptions {
+  models?: string;
+  output?: string;
+}
+
 interface CLIOptions {
   repository?: string;
   productArea?: string;
   maxIssues?: number;
   minRelevanceScore?: number;
   outputPath?: string;
+  format?: string;
+  template?: string;
+  promptDir?: string;
+  taxonomy?: string;
+  kind?: string;
+  state?: string;
+  githubApiUrl?: string;
+  githubWebUrl?: string;
+  githubApiMode?: string;
+  githubConcurrency?: string;
+  httpCache?: boolean; // false with --no-http-cache
+  analysisCache?: boolean; // false with --no-analysis-cache
+  condenseThreads?: boolean; // false with --no-condense-threads
+  record?: string; // Fixture directory to record traffic to
+  replay?: string; // Fixture directory to replay traffic from
+  llmProvider?: string;
   janEndpoint?: string;
   janModel?: string;
+  contextWindow?: string; // Tokens, saved for the selected model
+  llmConcurrency?: string;
+  embeddingModel?: string;
+  clusterThreshold?: string;
+  clusterDuplicates?: boolean; // false with --no-cluster-duplicates
+  prefilter?: string; // bm25, embedding or off
+  prefilterTop?: string;
+  prefilterMinScore?: string;
   verbose?: boolean;
   interactive?: boolean;
   setup?: boolean;
   testJan?: boolean;
+  resume?: string;
+  incremental?: boolean;
 }
 
 class GitHubIssueScraperCLI {
@@ -74,21 +146,186 @@ class GitHubIssueScraperCLI {
         "Output directory for reports",
         "./reports"
       )
+      .option(
+        "-f, --format <formats>",
+        "Report formats: markdown, json, csv, html, both or all (comma-separated)"
+      )
+      .option(
+        "-k, --kind <kind>",
+        "What to scrape: issues, prs or both (pull requests are analyzed as candidate fixes)"
+      )
+      .option(
+        "--state <state>",
+        "Issue state to scrape: open, closed or all (closed issues are analyzed for their resolution)"
+      )
+      .option(
+        "--template <path>",
+        "Handlebars template to use for the Markdown report"
+      )
+      .option(
+        "--prompt-dir <dir>",
+        "Directory of analysis prompt templates overriding the built-in ones"
+      )
+      .option(
+        "--taxonomy <path>",
+        "JSON file listing the allowed issue categories and tags"
+      )
+      .option(
+        "--github-api-url <url>",
+        "GitHub API base URL, e.g. https://github.example.com/api/v3 for GitHub Enterprise Server"
+      )
+      .option(
+        "--github-web-url <url>",
+        "GitHub web base URL used for links (derived from the API URL if omitted)"
+      )
+      .option(
+        "--github-api-mode <mode>",
+        "GitHub API used to fetch issues: rest or graphql (issues and comments in one request per page)"
+      )
+      .option(
+        "--github-concurrency <n>",
+        `Most GitHub API requests sent at once while fetching comments (default: ${DEFAULT_GITHUB_CONCURRENCY})`
+      )
+      .option(
+        "--llm-provider <provider>",
+        `LLM server type: ${LLM_PROVIDERS.join(", ")} (default: jan)`
+      )
       .option(
         "--jan-endpoint <url>",
-        "JAN server endpoint URL",
+        "LLM server endpoint URL (defaults to the provider's default port)",
         "http://localhost:1337"
       )
       .option("--jan-model <model>", "JAN model to use for analysis", "llama2")
+      .option(
+        "--context-window <tokens>",
+        "Context window of the model in tokens (discovered from the server if omitted)"
+      )
+      .option(
+        "--llm-concurrency <n>",
+        "Most LLM batches analyzed at once, for servers with several slots (default: 1)"
+      )
+      .option(
+        "--embedding-model <model>",
+        "Embedding model on the LLM server used to find duplicate issues (bundled vectorizer if omitted)"
+      )
+      .option(
+        "--cluster-threshold <0-1>",
+        "Similarity at which issues count as duplicates (default: 0.85 with an embedding model, 0.5 without)"
+      )
+      .option(
+        "--prefilter <method>",
+        `Rank issues against the product area before the LLM analysis: ${PREFILTER_METHODS.join(
+          ", "
+        )} or off (default: off)`
+      )
+      .option(
+        "--prefilter-top <n>",
+        "Most issues the pre-filter sends to the LLM analysis"
+      )
+      .option(
+        "--prefilter-min-score <0-1>",
+        "Lowest pre-filter score sent to the LLM analysis (default: 0.1 for bm25, 0.4 for embedding without --prefilter-top)"
+      )
+      .option(
+        "--no-cluster-duplicates",
+        "List near-duplicate issues separately instead of grouping them into clusters"
+      )
       .option("-v, --verbose", "Enable verbose logging")
       .option("-i, --interactive", "Run in interactive mode with prompts")
       .option("--setup", "Run initial setup to configure GitHub token")
       .option("--test-jan", "Test JAN connectivity and available models")
+      .option(
+        "--resume <run-id>",
+        "Resume an interrupted run, skipping already completed work"
+      )
+      .option(
+        "--incremental",
+        "Only fetch issues updated since the last run and re-analyze changed issues"
+      )
+      .option(
+        "--no-http-cache",
+        "Always make full GitHub API requests instead of conditional requests against the response cache"
+      )
+      .option(
+        "--no-analysis-cache",
+        "Re-analyze all issues with the LLM instead of reusing cached analyses of unchanged issues"
+      )
+      .option(
+        "--no-condense-threads",
+        "Send long comment threads to the LLM verbatim instead of summarizing them first"
+      )
+      .option(
+        "--record <dir>",
+        "Record all GitHub API responses and LLM completions to fixture files in <dir>"
+      )
+      .option(
+        "--replay <dir>",
+        "Replay a run recorded with --record from <dir>, without GitHub or JAN"
+      )
       .action(async (options: CLIOptions) => {
         this.verbose = options.verbose || false;
         await this.run(options);
       });
 
+    const cacheCommand = this.program
+      .command("cache")
+      .description(
+        "Manage the on-disk GitHub API response and LLM analysis caches"
+      );
+    cacheCommand
+      .command("stats")
+      .description("Show the number and size of cached entries")
+      .action(async () => {
+        await this.runCacheCommand("stats");
+      });
+    cacheCommand
+      .command("clear")
+      .description("Remove all cached responses and analyses")
+      .action(async () => {
+        await this.runCacheCommand("clear");
+      });
+
+    this.program
+      .command("mock-llm")
+      .description(
+        "Start a mock OpenAI-compatible LLM server for testing without JAN"
+      )
+      .option("--port <port>", "Port to listen on", "1337")
+      .option(
+        "--models <names>",
+        "Comma-separated model names to report as loaded",
+        "llama2"
+      )
+      .option(
+        "--failure <mode>",
+        `Failure mode: ${MOCK_LLM_FAILURE_MODES.join(", ")}`,
+        "none"
+      )
+      .option(
+        "--failure-count <n>",
+        "Fail only the first n completions, then answer normally"
+      )
+      .action(async (options: MockLLMOptions) => {
+        await this.runMockLLM(options);
+      });
+
+    this.program
+      .command("eval <golden-set>")
+      .description(
+        "Measure how well LLM models analyze a golden-labeled set of issues"
+      )
+      .option(
+        "--models <names>",
+        "Comma-separated models to evaluate (default: the configured model)"
+      )
+      .option(
+        "--output <file>",
+        "Write the results with per-issue details to a JSON file"
+      )
+      .action(async (goldenSet: string, options: EvalOptions) => {
+        await this.runEval(goldenSet, options);
+      });
+
     // Add help examples
     this.program.addHelpText(
       "after",
@@ -101,6 +338,31 @@ Examples:
   $ github-issue-scraper -r owner/repo -p "api bugs" --verbose
   $ github-issue-scraper --test-jan
   $ github-issue-scraper -r owner/repo -p "api" --jan-endpoint http://localhost:1337 --jan-model mistral
+  $ github-issue-scraper -r owner/repo -p "api" --llm-provider ollama --jan-model llama3
+  $ github-issue-scraper -r owner/repo -p "api" --jan-model mistral --context-window 8192
+  $ github-issue-scraper -r owner/repo -p "api" --no-condense-threads
+  $ github-issue-scraper -r owner/repo -p "api" --llm-provider openai --llm-concurrency 4
+  $ github-issue-scraper -r owner/repo -p "api" --github-concurrency 8
+  $ github-issue-scraper eval docs/eval/sample-golden-set.json --models llama2,mistral
+  $ github-issue-scraper -r owner/repo -p "api" --resume 20240125-101500-a1b2c3
+  $ github-issue-scraper -r microsoft/vscode -p "editor performance" --incremental
+  $ github-issue-scraper -r owner/repo -p "api" --format both
+  $ github-issue-scraper -r owner/repo -p "api" --format markdown,csv
+  $ github-issue-scraper -r owner/repo -p "api" --format html
+  $ github-issue-scraper -r owner/repo -p "api" --template ./weekly-digest.hbs
+  $ github-issue-scraper -r owner/repo -p "api" --prompt-dir ./prompts/api
+  $ github-issue-scraper -r owner/repo -p "api" --taxonomy ./taxonomy.json
+  $ github-issue-scraper -r owner/repo -p "api" --llm-provider ollama --embedding-model nomic-embed-text
+  $ github-issue-scraper -r microsoft/vscode -p "terminal" --max-issues 500 --prefilter bm25 --prefilter-top 100
+  $ github-issue-scraper -r owner/repo -p "api" --kind both
+  $ github-issue-scraper -r owner/repo -p "api" --state closed
+  $ github-issue-scraper -r team/service -p "api" --github-api-url https://github.example.com/api/v3
+  $ github-issue-scraper -r microsoft/vscode -p "terminal" --max-issues 500 --github-api-mode graphql
+  $ github-issue-scraper -r owner/repo -p "api" --record ./fixtures/api-bug
+  $ github-issue-scraper -r owner/repo -p "api" --replay ./fixtures/api-bug
+  $ github-issue-scraper mock-llm --port 1338 --failure malformed --failure-count 2
+  $ github-issue-scraper cache stats
+  $ github-issue-scraper cache clear
 
 JAN Integration:
   This tool uses JAN's local LLM for intelligent issue analysis. JAN provides:
@@ -118,6 +380,15 @@ JAN Setup:
   4. Run 'github-issue-scraper --test-jan' to verify connectivity
   5. Configure JAN options with '--jan-endpoint' and '--jan-model'
 
+Other LLM Servers:
+  JAN is the default. '--llm-provider' selects another local server, each
+  with its own health check and model discovery:
+  - ollama: Ollama's native API (default endpoint http://localhost:11434)
+  - llamacpp: llama.cpp server, serving its loaded model (http://localhost:8080)
+  - openai: any OpenAI-compatible endpoint such as vLLM, LM Studio or LocalAI
+    (http://localhost:8000; set '--jan-endpoint' for other ports)
+  '--jan-endpoint' and '--jan-model' apply to whichever server is selected.
+
 JAN Model Selection Guide:
   - llama2: Good balance of performance and resource usage (default)
   - mistral: Excellent analysis capabilities, better workaround extraction
@@ -147,15 +418,158 @@ Environment Variables:
   MAX_ISSUES            Default maximum issues to process
   MIN_RELEVANCE_SCORE   Default minimum relevance score
   OUTPUT_PATH           Default output directory
+  OUTPUT_FORMAT         Default report formats (e.g. markdown,json)
+  GITHUB_API_URL        GitHub API base URL (default: https://api.github.com)
+  GITHUB_WEB_URL        GitHub web base URL (default: derived from GITHUB_API_URL)
+  GITHUB_API_MODE       GitHub API used to fetch issues: rest or graphql (default: rest)
+  GITHUB_CONCURRENCY    Most GitHub API requests sent at once (default: 4)
+  LLM_PROVIDER          LLM server type: jan, ollama, llamacpp or openai (default: jan)
   JAN_ENDPOINT          JAN server endpoint URL (default: http://localhost:1337)
   JAN_MODEL             JAN model to use for analysis (default: llama2)
   JAN_API_KEY           JAN API key (if required)
   JAN_MAX_RETRIES       Maximum number of retries for JAN requests
   JAN_TIMEOUT           Timeout in milliseconds for JAN requests
+  LLM_CONCURRENCY       Most LLM batches analyzed at once (default: 1)
+  EMBEDDING_MODEL       Embedding model used to find duplicate issues
 
 Configuration:
   Configuration is stored in ~/.github-issue-scraper/config.json
   GitHub token should be set via environment variable or --setup command
+
+Resuming Runs:
+  Every run prints a run ID and checkpoints its progress to
+  ~/.github-issue-scraper/runs/<run-id>.json. If a run is interrupted
+  (JAN crash, Ctrl-C, laptop sleep), rerun with '--resume <run-id>' to skip
+  issues, comments and batches that were already processed.
+
+Incremental Runs:
+  With '--incremental', fetched and analyzed issues are kept in
+  ~/.github-issue-scraper/store/ per repository and product area. Later runs
+  only fetch issues updated since the previous run and only re-analyze issues
+  whose title, description, labels or comments changed.
+
+Pull Requests:
+  '--kind prs' or '--kind both' also scrapes pull requests, including their
+  review comments and the issues they close ("Fixes #123"). The LLM analyzes
+  pull requests as candidate fixes, and issues with an open pull request are
+  marked "Fix in flight" in the report.
+
+Closed Issues:
+  '--state closed' or '--state all' also scrapes closed issues. The LLM extracts
+  how each closed issue was resolved (fixed in a release, duplicate, won't fix,
+  ...), and the report shows the resolution next to the workarounds.
+
+GitHub Enterprise Server:
+  Point the scraper at a GitHub Enterprise Server instance with
+  '--github-api-url https://github.example.com/api/v3' (or GITHUB_API_URL).
+  The web URL used for report links is derived from it; set '--github-web-url'
+  only if your instance serves the web UI from a different host.
+
+GraphQL Fetching:
+  By default comments are fetched with one REST request per issue. With
+  '--github-api-mode graphql', issues, labels, comments, reactions and author
+  associations are fetched together, one GraphQL request per 50 issues.
+
+HTTP Cache:
+  GitHub API responses are cached in ~/.github-issue-scraper/http-cache/ with
+  their ETag. Repeat requests are conditional, and GitHub doesn't count
+  unchanged (304) responses against the rate limit. Use '--no-http-cache' to
+  bypass it, 'cache stats' to inspect it and 'cache clear' to empty it.
+
+Analysis Cache:
+  LLM analyses are cached per issue in ~/.github-issue-scraper/analysis-cache/,
+  keyed by the issue content, comments, product area, model and prompt
+  version. Rerunning with unchanged inputs (e.g. for another report format)
+  skips the LLM. Use '--no-analysis-cache' to re-analyze every issue;
+  'cache stats' and 'cache clear' cover this cache too.
+
+Record and Replay:
+  '--record <dir>' saves every GitHub API response and LLM completion of a run
+  to fixture files in <dir>. '--replay <dir>' serves them back with no network,
+  no GitHub token and no JAN server, so a failing run can be reproduced and
+  shared. Replay with the same options as the recording; the analysis cache is
+  not used in either mode.
+
+Mock LLM Server:
+  'mock-llm' starts a local OpenAI-compatible server (/health, /v1/models,
+  /v1/chat/completions) that returns schema-valid analyses of the issues in
+  each prompt. Run the scraper against it with '--jan-endpoint'. '--failure'
+  makes completions fail with malformed JSON, a timeout, HTTP 429 or a context
+  length error; '--failure-count <n>' fails only the first n completions.
+
+Evaluating Models:
+  'eval <golden-set>' analyzes a hand-labeled set of issues (JSON, see
+  docs/eval/sample-golden-set.json) with each model in '--models' and reports
+  precision and recall at the minimum relevance score, the correlation of
+  relevance scores, category and priority accuracy and workaround recall, per
+  model and prompt version. '--output <file>' saves the results as JSON.
+  '--llm-provider', '--jan-endpoint' and '--min-relevance-score' apply.
+
+Context Window:
+  Issues are packed into LLM batches by estimated tokens so that each prompt,
+  including the system prompt, schema and room for the response, fits the
+  model's context window. The window is read from the server (Ollama's num_ctx,
+  llama.cpp's -c, vLLM's max_model_len, JAN's ctx_len), else taken from a table
+  of common models, else assumed to be 4096 tokens. '--context-window <tokens>'
+  overrides it and is saved per model in the configuration.
+
+Concurrent Requests:
+  Comments are fetched for several issues at once, with up to
+  '--github-concurrency <n>' GitHub API requests in flight (default: 4, at most
+  10). Requests share the rate limit reported by GitHub and wait for its reset
+  before running out. Secondary rate limits and Retry-After headers pause all
+  requests for the time GitHub asks. The value is saved in the configuration.
+
+Concurrent Batches:
+  '--llm-concurrency <n>' sends up to n batches to the LLM server at once, for
+  servers that serve several requests in parallel (vLLM, llama-server -np).
+  When the server answers with HTTP 429 or times out, fewer batches are sent
+  at once, growing back as requests succeed. Results are merged in issue
+  order either way. The value is saved in the configuration.
+
+Long Threads:
+  Comment threads that would take more than half of a batch are condensed
+  before the analysis: maintainer comments and comments with workarounds or
+  code stay verbatim, the rest is summarized by the LLM in chunks. Reports
+  always contain every comment. Use '--no-condense-threads' to send threads
+  verbatim.
+
+Custom Templates:
+  '--template <path>' renders the Markdown report with a Handlebars template
+  instead of the built-in layout. See docs/templates/weekly-digest.hbs and the
+  README for the available data and helpers.
+
+Prompt Templates:
+  The analysis prompts are Handlebars templates in the prompts/ directory.
+  '--prompt-dir <dir>' overrides any of them with the files of the same name
+  in <dir>, which needs a manifest.json declaring the prompts' version. The
+  version is recorded in reports and eval results; use it with 'eval' to
+  compare prompt versions.
+
+Categories and Tags:
+  '--taxonomy <path>' restricts issue categories, and optionally tags, to the
+  ones listed in a JSON file (see docs/taxonomy/sample-taxonomy.json). The LLM
+  is shown the list, and values outside it are mapped to the closest category
+  or tag; categories that match nothing become the fallback category ("other"
+  unless the file names one) and unmatched tags are dropped.
+
+Duplicate Clusters:
+  After the analysis, issues describing the same problem are grouped into
+  clusters, listed in the report with their oldest issue as the canonical one
+  and the workarounds of all their issues merged. Issues are compared with the
+  embeddings of '--embedding-model <model>' (e.g. nomic-embed-text), or with a
+  bundled word-based vectorizer without one or if the model fails.
+  '--cluster-threshold <0-1>' sets how similar issues must be; both values are
+  saved in the configuration. Use '--no-cluster-duplicates' to turn it off.
+
+Pre-filter:
+  '--prefilter bm25' or '--prefilter embedding' ranks the fetched issues
+  against the product area before the LLM analysis, by BM25 over their title,
+  labels and description or by the similarity of their '--embedding-model'
+  embeddings, and only analyzes the '--prefilter-top <n>' best issues or those
+  scoring at least '--prefilter-min-score <0-1>'. Scores and the cut-off are
+  recorded in the report metadata. The settings are saved in the
+  configuration; use '--prefilter off' to turn it off again.
     `
     );
   }
@@ -215,8 +629,17 @@ Configuration:
       // Validate and merge options with config
       const config = await this.validateAndMergeConfig(options);
 
+      // Replayed runs reproduce a recording without GitHub access
+      const trafficRecorder = options.replay
+        ? new TrafficRecorder(options.replay, "replay")
+        : options.record
+        ? new TrafficRecorder(options.record, "record")
+        : undefined;
+
       // Validate GitHub token and repository access
-      await this.validateAuthentication(config);
+      if (trafficRecorder?.mode !== "replay") {
+        await this.validateAuthentication(config);
+      }
 
       this.log(`Configuration validated successfully`, "debug");
       this.log(`Repository: ${config.repository}`);
@@ -224,11 +647,71 @@ Configuration:
       this.log(`Max Issues: ${config.maxIssues}`);
       this.log(`Min Relevance Score: ${config.minRelevanceScore}`);
       this.log(`Output Path: ${config.outputPath}`);
+      this.log(`Report Formats: ${config.outputFormats?.join(", ")}`);
+      this.log(`Kind: ${config.itemKind}`);
+      this.log(`State: ${config.issueState}`);
+      this.log(`GitHub API: ${config.githubApiUrl} (${config.githubApiMode})`);
+      this.log(
+        `GitHub Concurrency: ${
+          config.githubConcurrency || DEFAULT_GITHUB_CONCURRENCY
+        }`
+      );
+      this.log(`LLM Provider: ${config.llmProvider}`);
       this.log(`JAN Endpoint: ${config.janEndpoint}`);
       this.log(`JAN Model: ${config.janModel}`);
+      this.log(
+        `Context Window: ${
+          config.contextWindows?.[config.janModel] || "reported by the server"
+        }`
+      );
+      this.log(`LLM Concurrency: ${config.llmConcurrency || 1}`);
+      if (options.promptDir) {
+        this.log(`Prompt Templates: ${options.promptDir}`);
+      }
+      if (options.taxonomy) {
+        this.log(`Taxonomy: ${options.taxonomy}`);
+      }
+      if (config.prefilter) {
+        this.log(
+          `Pre-filter: ${config.prefilter}${
+            config.prefilterTopN ? `, top ${config.prefilterTopN}` : ""
+          }${
+            config.prefilterMinScore !== undefined
+              ? `, min score ${config.prefilterMinScore}`
+              : ""
+          }`
+        );
+      }
+      this.log(
+        `Duplicate Clusters: ${
+          options.clusterDuplicates === false
+            ? "off"
+            : config.embeddingModel || "bundled vectorizer"
+        }`
+      );
+      if (options.replay) {
+        this.log(`Replaying recorded traffic from ${options.replay}`);
+      } else if (options.record) {
+        this.log(`Recording traffic to ${options.record}`);
+      }
 
       // Execute the scraping process
-      await this.executeScraping(config);
+      await this.executeScraping(
+        config,
+        {
+          resumeRunId: options.resume,
+          incremental: options.incremental,
+          templatePath: options.template,
+          promptDir: options.promptDir,
+          taxonomyPath: options.taxonomy,
+          // Cache hits would leave LLM traffic out of recordings
+          analysisCache: options.analysisCache !== false && !trafficRecorder,
+          condenseThreads: options.condenseThreads !== false,
+          clusterDuplicates: options.clusterDuplicates !== false,
+        },
+        options.httpCache !== false,
+        trafficRecorder
+      );
     } catch (error) {
       this.handleError(error);
       process.exit(1);
@@ -246,18 +729,24 @@ Configuration:
       await this.configManager.loadConfig();
       this.configManager.setDefaults();
 
-      // Get JAN endpoint from options or config
-      const janEndpoint =
-        options.janEndpoint || this.configManager.getJANEndpoint();
+      // Get LLM provider and endpoint from options or config
+      const llmProvider = (options.llmProvider ||
+        this.configManager.getConfig().llmProvider ||
+        "jan") as LLMProviderName;
+      const janEndpoint = resolveLLMEndpoint(
+        llmProvider,
+        options.janEndpoint || this.configManager.getJANEndpoint()
+      );
       const janApiKey = this.configManager.getJANAPIKey();
 
-      this.log(`Using JAN endpoint: ${janEndpoint}`);
+      this.log(`Using ${llmProvider} endpoint: ${janEndpoint}`);
 
       // Import JANClient dynamically to avoid circular dependencies
       const { JANClient } = await import("../services/jan-client");
 
       // Create JAN client
       const janClient = new JANClient({
+        provider: llmProvider,
         endpoint: janEndpoint,
         apiKey: janApiKey,
       });
@@ -273,14 +762,7 @@ Configuration:
         try {
           this.log("📋 Retrieving available models...");
 
-          const response = await fetch(`${janEndpoint}/v1/models`);
-
-          if (!response.ok) {
-            throw new Error(`Failed to list models: ${response.status}`);
-          }
-
-          const data = (await response.json()) as { data?: any[] };
-          const models = data.data || [];
+          const models = await janClient.listModels();
 
           if (models.length === 0) {
             this.log(
@@ -290,8 +772,8 @@ Configuration:
           }
 
           this.log(`\n📋 Available models in JAN (${models.length}):`);
-          models.forEach((model: any, index: number) => {
-            this.log(`${index + 1}. ${model.id}`);
+          models.forEach((model, index) => {
+            this.log(`${index + 1}. ${model}`);
           });
 
           // Test selected model
@@ -308,6 +790,7 @@ Configuration:
 
             // Save configuration if successful
             await this.configManager.saveConfig({
+              llmProvider,
               janEndpoint,
               janModel: modelToTest,
             });
@@ -334,6 +817,251 @@ Configuration:
     }
   }
 
+  /**
+   * Show statistics of or clear the GitHub API response and analysis caches
+   */
+  private async runCacheCommand(action: "stats" | "clear"): Promise<void> {
+    const caches = [
+      { name: "HTTP cache", entryName: "responses", cache: new HttpCache() },
+      {
+        name: "Analysis cache",
+        entryName: "analyses",
+        cache: new AnalysisCache(),
+      },
+    ];
+
+    try {
+      for (const { name, entryName, cache } of caches) {
+        if (action === "clear") {
+          const removed = await cache.clear();
+          this.log(`✅ Removed ${removed} cached ${entryName}`);
+          continue;
+        }
+
+        const stats = await cache.stats();
+        this.log(`${name}: ${stats.cacheDir}`);
+        this.log(`  Cached ${entryName}: ${stats.entries}`);
+        this.log(`  Size: ${(stats.totalBytes / (1024 * 1024)).toFixed(1)} MB`);
+        if (stats.oldestEntry && stats.newestEntry) {
+          this.log(`  Oldest entry: ${stats.oldestEntry}`);
+          this.log(`  Newest entry: ${stats.newestEntry}`);
+        }
+      }
+    } catch (error) {
+      this.handleError(error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Run the mock LLM server until interrupted
+   */
+  private async runMockLLM(options: MockLLMOptions): Promise<void> {
+    const port = parseInt(options.port, 10);
+    const failureCount =
+      options.failureCount !== undefined
+        ? parseInt(options.failureCount, 10)
+        : undefined;
+
+    try {
+      if (isNaN(port) || port < 0 || port > 65535) {
+        throw ErrorHandler.handleValidationError(
+          `Invalid port: ${options.port}`,
+          { operation: "starting mock LLM server" },
+          [
+            {
+              action: "Use a valid port",
+              description: "Use --port with a number between 0 and 65535",
+              priority: "high",
+            },
+          ]
+        );
+      }
+
+      if (
+        !MOCK_LLM_FAILURE_MODES.includes(options.failure as MockLLMFailureMode)
+      ) {
+        throw ErrorHandler.handleValidationError(
+          `Unknown failure mode: ${options.failure}`,
+          { operation: "starting mock LLM server" },
+          [
+            {
+              action: "Use a supported failure mode",
+              description: `Supported modes: ${MOCK_LLM_FAILURE_MODES.join(
+                ", "
+              )}`,
+              priority: "high",
+            },
+          ]
+        );
+      }
+
+      if (
+        failureCount !== undefined &&
+        (isNaN(failureCount) || failureCount < 0)
+      ) {
+        throw ErrorHandler.handleValidationError(
+          `Invalid failure count: ${options.failureCount}`,
+          { operation: "starting mock LLM server" },
+          [
+            {
+              action: "Use a non-negative number",
+              description:
+                "Use --failure-count 2 to fail the first two completions",
+              priority: "high",
+            },
+          ]
+        );
+      }
+
+      const server = new MockLLMServer({
+        port,
+        models: options.models
+          .split(",")
+          .map((model) => model.trim())
+          .filter(Boolean),
+        failureMode: options.failure as MockLLMFailureMode,
+        failureCount,
+      });
+      const url = await server.start();
+
+      this.log(`🤖 Mock LLM server listening on ${url}`);
+      this.log(`Failure mode: ${options.failure}`);
+      this.log(
+        `Run the scraper with '--jan-endpoint ${url}'. Press Ctrl-C to stop.`
+      );
+
+      process.once("SIGINT", async () => {
+        const stats = server.getStats();
+        await server.stop();
+        this.log(
+          `Served ${stats.completions} completions (${stats.failures} failed)`
+        );
+        process.exit(0);
+      });
+    } catch (error) {
+      this.handleError(error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Evaluate models against a golden set, reporting metrics per model and
+   * prompt version
+   */
+  private async runEval(
+    goldenSetPath: string,
+    options: EvalOptions
+  ): Promise<void> {
+    // --llm-provider, --jan-endpoint, --min-relevance-score, --prompt-dir and
+    // --taxonomy are parsed by the main command
+    const globalOptions = this.program.opts<CLIOptions>();
+
+    try {
+      await this.configManager.loadConfig();
+      this.configManager.setDefaults();
+      const config = this.configManager.getConfig();
+      const goldenSet = await Evaluator.loadGoldenSet(goldenSetPath);
+
+      const llmProvider = (globalOptions.llmProvider ||
+        config.llmProvider ||
+        "jan") as LLMProviderName;
+      const endpoint = resolveLLMEndpoint(
+        llmProvider,
+        globalOptions.janEndpoint || config.janEndpoint
+      );
+      const models = (options.models || config.janModel || "llama2")
+        .split(",")
+        .map((model) => model.trim())
+        .filter(Boolean);
+      // An explicit --min-relevance-score wins over the golden set's threshold
+      const minRelevanceScore =
+        this.program.getOptionValueSource("minRelevanceScore") === "cli"
+          ? Number(globalOptions.minRelevanceScore)
+          : goldenSet.minRelevanceScore ?? config.minRelevanceScore ?? 30;
+
+      if (
+        isNaN(minRelevanceScore) ||
+        minRelevanceScore < 0 ||
+        minRelevanceScore > 100
+      ) {
+        throw ErrorHandler.handleValidationError(
+          `Invalid minimum relevance score: ${minRelevanceScore}`,
+          { operation: "evaluating models" },
+          [
+            {
+              action: "Use a score from 0 to 100",
+              description: "Use --min-relevance-score 30 for the default",
+              priority: "high",
+            },
+          ]
+        );
+      }
+
+      this.log(
+        `Golden set: ${goldenSet.name} (${goldenSet.issues.length} issues)`
+      );
+      this.log(`Using ${llmProvider} endpoint: ${endpoint}`);
+      this.log(`Min Relevance Score: ${minRelevanceScore}`);
+
+      const promptManager = new PromptManager();
+      if (globalOptions.promptDir) {
+        await promptManager.loadTemplates(globalOptions.promptDir);
+      }
+      if (globalOptions.taxonomy) {
+        promptManager.setTaxonomy(await Taxonomy.load(globalOptions.taxonomy));
+      }
+      this.log(`Prompt Version: ${promptManager.getPromptVersionLabel()}`);
+
+      const results: EvalResult[] = [];
+      for (const model of models) {
+        this.log(`🧪 Evaluating ${model}...`);
+        const janClient = new JANClient({
+          provider: llmProvider,
+          endpoint,
+          model,
+          apiKey: this.configManager.getJANAPIKey(),
+          maxRetries: config.janMaxRetries,
+          timeout: config.janTimeout,
+          contextWindow: config.contextWindows?.[model],
+          concurrency: config.llmConcurrency,
+        });
+
+        // One model failing, e.g. because it isn't loaded, doesn't stop
+        // the comparison
+        try {
+          const result = await new Evaluator(janClient, promptManager).evaluate(
+            goldenSet,
+            minRelevanceScore
+          );
+          if (result.failedBatches > 0) {
+            this.log(
+              `${result.failedBatches} batch(es) failed for ${model}; their issues count as not relevant`,
+              "warn"
+            );
+          }
+          results.push(result);
+        } catch (error: any) {
+          this.log(`Evaluation of ${model} failed: ${error.message}`, "error");
+        }
+      }
+
+      if (results.length === 0) {
+        throw new Error("No model could be evaluated");
+      }
+
+      this.log(`Results for ${goldenSet.name}:\n${formatEvalTable(results)}`);
+
+      if (options.output) {
+        await fs.outputJson(options.output, results, { spaces: 2 });
+        this.log(`Results written to ${options.output}`);
+      }
+    } catch (error) {
+      this.handleError(error);
+      process.exit(1);
+    }
+  }
+
   private async runSetup(): Promise<void> {
     this.log("Running initial setup...");
 
@@ -543,6 +1271,51 @@ Configuration:
 
     try {
       const currentConfig = this.configManager.getConfig();
+      const parsedFormats =
+        "format" in options && options.format
+          ? ReportGenerator.parseFormats(options.format)
+          : undefined;
+
+      // Either URL is enough for GitHub Enterprise Server, the other is derived
+      const githubUrls = GitHubClient.resolveUrls(
+        options.githubApiUrl || options.githubWebUrl ? options : currentConfig
+      );
+
+      const llmProvider = (("llmProvider" in options && options.llmProvider) ||
+        currentConfig.llmProvider ||
+        "jan") as LLMProviderName;
+      const janModel = options.janModel || currentConfig.janModel || "llama2";
+      const contextWindow =
+        "contextWindow" in options && options.contextWindow
+          ? Number(options.contextWindow)
+          : undefined;
+      const llmConcurrency =
+        "llmConcurrency" in options && options.llmConcurrency
+          ? Number(options.llmConcurrency)
+          : currentConfig.llmConcurrency;
+      const clusterThreshold =
+        "clusterThreshold" in options && options.clusterThreshold
+          ? Number(options.clusterThreshold)
+          : currentConfig.clusterThreshold;
+      // "off" clears a pre-filter saved in the configuration
+      const prefilter =
+        "prefilter" in options && options.prefilter
+          ? options.prefilter === "off"
+            ? undefined
+            : (options.prefilter as PrefilterMethod)
+          : currentConfig.prefilter;
+      const prefilterTopN =
+        "prefilterTop" in options && options.prefilterTop
+          ? Number(options.prefilterTop)
+          : currentConfig.prefilterTopN;
+      const prefilterMinScore =
+        "prefilterMinScore" in options && options.prefilterMinScore
+          ? Number(options.prefilterMinScore)
+          : currentConfig.prefilterMinScore;
+      const githubConcurrency =
+        "githubConcurrency" in options && options.githubConcurrency
+          ? Number(options.githubConcurrency)
+          : currentConfig.githubConcurrency;
 
       // Merge options with current config
       const mergedConfig: Partial<Config> = {
@@ -554,12 +1327,45 @@ Configuration:
           options.minRelevanceScore || currentConfig.minRelevanceScore || 30,
         outputPath:
           options.outputPath || currentConfig.outputPath || "./reports",
+        itemKind:
+          ("kind" in options && (options.kind as ItemKind)) ||
+          currentConfig.itemKind ||
+          "issues",
+        issueState:
+          ("state" in options && (options.state as IssueStateFilter)) ||
+          currentConfig.issueState ||
+          "open",
+        githubApiUrl: githubUrls.apiUrl,
+        githubWebUrl: githubUrls.webUrl,
+        githubApiMode:
+          (options.githubApiMode as GitHubApiMode) ||
+          currentConfig.githubApiMode ||
+          "rest",
+        githubConcurrency,
+        outputFormats: parsedFormats?.formats.length
+          ? parsedFormats.formats
+          : currentConfig.outputFormats || ["markdown"],
         githubToken: this.configManager.getGitHubToken(),
-        janEndpoint:
-          options.janEndpoint ||
-          currentConfig.janEndpoint ||
-          "http://localhost:1337",
-        janModel: options.janModel || currentConfig.janModel || "llama2",
+        llmProvider,
+        // Another provider's default endpoint is swapped for this provider's
+        janEndpoint: resolveLLMEndpoint(
+          llmProvider,
+          options.janEndpoint || currentConfig.janEndpoint
+        ),
+        janModel,
+        // Context windows are configured per model
+        contextWindows:
+          contextWindow !== undefined
+            ? { ...currentConfig.contextWindows, [janModel]: contextWindow }
+            : currentConfig.contextWindows,
+        llmConcurrency,
+        embeddingModel:
+          ("embeddingModel" in options && options.embeddingModel) ||
+          currentConfig.embeddingModel,
+        clusterThreshold,
+        prefilter,
+        prefilterTopN,
+        prefilterMinScore,
       };
 
       // Validate required fields with specific error handling
@@ -608,7 +1414,7 @@ Configuration:
             },
             {
               action: "Verify repository exists",
-              description: `Visit https://github.com/${mergedConfig.repository} to confirm it exists`,
+              description: `Visit ${githubUrls.webUrl}/${mergedConfig.repository} to confirm it exists`,
               priority: "medium",
             },
           ],
@@ -657,7 +1463,9 @@ Configuration:
         });
       }
 
-      if (!mergedConfig.githubToken) {
+      // Replayed runs don't talk to GitHub
+      const replaying = "replay" in options && !!options.replay;
+      if (!mergedConfig.githubToken && !replaying) {
         validationErrors.push({
           field: "githubToken",
           message: "GitHub token is required",
@@ -674,8 +1482,7 @@ Configuration:
             },
             {
               action: "Create personal access token",
-              description:
-                "Visit https://github.com/settings/tokens to create a token",
+              description: `Visit ${githubUrls.webUrl}/settings/tokens to create a token`,
               priority: "medium",
             },
           ],
@@ -728,6 +1535,284 @@ Configuration:
         });
       }
 
+      if (
+        mergedConfig.itemKind &&
+        !["issues", "prs", "both"].includes(mergedConfig.itemKind)
+      ) {
+        validationErrors.push({
+          field: "itemKind",
+          message: `Unknown kind: ${mergedConfig.itemKind}`,
+          suggestions: [
+            {
+              action: "Use a supported kind",
+              description:
+                "Use --kind issues, --kind prs or --kind both (issues and pull requests)",
+              priority: "high",
+            },
+          ],
+        });
+      }
+
+      if (
+        mergedConfig.issueState &&
+        !["open", "closed", "all"].includes(mergedConfig.issueState)
+      ) {
+        validationErrors.push({
+          field: "issueState",
+          message: `Unknown issue state: ${mergedConfig.issueState}`,
+          suggestions: [
+            {
+              action: "Use a supported state",
+              description:
+                "Use --state open, --state closed or --state all (open and closed issues)",
+              priority: "high",
+            },
+          ],
+        });
+      }
+
+      if (
+        mergedConfig.githubApiMode &&
+        !["rest", "graphql"].includes(mergedConfig.githubApiMode)
+      ) {
+        validationErrors.push({
+          field: "githubApiMode",
+          message: `Unknown GitHub API mode: ${mergedConfig.githubApiMode}`,
+          suggestions: [
+            {
+              action: "Use a supported API mode",
+              description:
+                "Use --github-api-mode rest or --github-api-mode graphql",
+              priority: "high",
+            },
+          ],
+        });
+      }
+
+      if (!LLM_PROVIDERS.includes(llmProvider)) {
+        validationErrors.push({
+          field: "llmProvider",
+          message: `Unknown LLM provider: ${llmProvider}`,
+          suggestions: [
+            {
+              action: "Use a supported LLM provider",
+              description: `Use --llm-provider with one of: ${LLM_PROVIDERS.join(
+                ", "
+              )}`,
+              priority: "high",
+            },
+          ],
+        });
+      }
+
+      if (
+        contextWindow !== undefined &&
+        (!Number.isInteger(contextWindow) || contextWindow < 1024)
+      ) {
+        validationErrors.push({
+          field: "contextWindow",
+          message:
+            "Context window must be a whole number of at least 1024 tokens",
+          suggestions: [
+            {
+              action: "Use the model's context size",
+              description:
+                "Use --context-window with the context size the server runs the model with, e.g. 8192",
+              priority: "high",
+            },
+            {
+              action: "Let the server report it",
+              description:
+                "Omit the option to use the context window reported by the LLM server",
+              priority: "medium",
+            },
+          ],
+        });
+      }
+
+      if (
+        llmConcurrency !== undefined &&
+        (!Number.isInteger(llmConcurrency) ||
+          llmConcurrency < 1 ||
+          llmConcurrency > MAX_LLM_CONCURRENCY)
+      ) {
+        validationErrors.push({
+          field: "llmConcurrency",
+          message: `LLM concurrency must be a whole number from 1 to ${MAX_LLM_CONCURRENCY}`,
+          suggestions: [
+            {
+              action: "Match the server's parallel slots",
+              description:
+                "Use --llm-concurrency with the number of requests the server handles at once, e.g. 4 for 'llama-server -np 4'",
+              priority: "high",
+            },
+          ],
+        });
+      }
+
+      if (
+        clusterThreshold !== undefined &&
+        (isNaN(clusterThreshold) ||
+          clusterThreshold < 0 ||
+          clusterThreshold > 1)
+      ) {
+        validationErrors.push({
+          field: "clusterThreshold",
+          message: "Cluster threshold must be a number from 0 to 1",
+          suggestions: [
+            {
+              action: "Use a similarity between 0 and 1",
+              description:
+                "Raise --cluster-threshold if unrelated issues are grouped, lower it if duplicates are missed",
+              priority: "high",
+            },
+          ],
+        });
+      }
+
+      if (prefilter !== undefined && !PREFILTER_METHODS.includes(prefilter)) {
+        validationErrors.push({
+          field: "prefilter",
+          message: `Unknown pre-filter: ${prefilter}`,
+          suggestions: [
+            {
+              action: "Use a supported pre-filter",
+              description: `Use --prefilter with one of: ${PREFILTER_METHODS.join(
+                ", "
+              )}, or off`,
+              priority: "high",
+            },
+          ],
+        });
+      }
+
+      if (prefilter === "embedding" && !mergedConfig.embeddingModel) {
+        validationErrors.push({
+          field: "prefilter",
+          message: "The embedding pre-filter needs an embedding model",
+          suggestions: [
+            {
+              action: "Set an embedding model",
+              description:
+                "Add --embedding-model with a model of the LLM server, e.g. nomic-embed-text",
+              priority: "high",
+            },
+            {
+              action: "Use BM25",
+              description:
+                "Use --prefilter bm25, which needs no server support",
+              priority: "medium",
+            },
+          ],
+        });
+      }
+
+      if (
+        prefilterTopN !== undefined &&
+        (!Number.isInteger(prefilterTopN) || prefilterTopN < 1)
+      ) {
+        validationErrors.push({
+          field: "prefilterTopN",
+          message: "Pre-filter top must be a whole number of at least 1",
+          suggestions: [
+            {
+              action: "Use a positive number",
+              description:
+                "Use --prefilter-top with the number of issues to analyze, e.g. 100",
+              priority: "high",
+            },
+          ],
+        });
+      }
+
+      if (
+        prefilterMinScore !== undefined &&
+        (isNaN(prefilterMinScore) ||
+          prefilterMinScore < 0 ||
+          prefilterMinScore > 1)
+      ) {
+        validationErrors.push({
+          field: "prefilterMinScore",
+          message: "Pre-filter minimum score must be a number from 0 to 1",
+          suggestions: [
+            {
+              action: "Use a score between 0 and 1",
+              description:
+                "Lower --prefilter-min-score if relevant issues are dropped",
+              priority: "high",
+            },
+          ],
+        });
+      }
+
+      if (
+        githubConcurrency !== undefined &&
+        (!Number.isInteger(githubConcurrency) ||
+          githubConcurrency < 1 ||
+          githubConcurrency > MAX_GITHUB_CONCURRENCY)
+      ) {
+        validationErrors.push({
+          field: "githubConcurrency",
+          message: `GitHub concurrency must be a whole number from 1 to ${MAX_GITHUB_CONCURRENCY}`,
+          suggestions: [
+            {
+              action: "Lower the number of requests",
+              description:
+                "GitHub's secondary rate limits reject many concurrent requests; the default of 4 is safe for most tokens",
+              priority: "high",
+            },
+          ],
+        });
+      }
+
+      for (const field of ["githubApiUrl", "githubWebUrl"] as const) {
+        if (!this.isValidHttpUrl(mergedConfig[field] || "")) {
+          validationErrors.push({
+            field,
+            message: `Invalid GitHub URL: ${mergedConfig[field]}`,
+            suggestions: [
+              {
+                action: "Use a full http(s) URL",
+                description:
+                  "Use --github-api-url https://github.example.com/api/v3 for GitHub Enterprise Server",
+                priority: "high",
+              },
+            ],
+          });
+        }
+      }
+
+      if (replaying && "record" in options && options.record) {
+        validationErrors.push({
+          field: "record",
+          message: "--record and --replay can't be used together",
+          suggestions: [
+            {
+              action: "Choose one mode",
+              description:
+                "Use --record <dir> to capture a run, then --replay <dir> to reproduce it",
+              priority: "high",
+            },
+          ],
+        });
+      }
+
+      if (parsedFormats && parsedFormats.invalid.length > 0) {
+        validationErrors.push({
+          field: "outputFormats",
+          message: `Unknown report format: ${parsedFormats.invalid.join(", ")}`,
+          suggestions: [
+            {
+              action: "Use a supported format",
+              description: `Supported formats: ${REPORT_FORMATS.join(
+                ", "
+              )}, both, all`,
+              priority: "high",
+            },
+          ],
+        });
+      }
+
       if (validationErrors.length > 0) {
         // Create a comprehensive validation error
         const allSuggestions = validationErrors.flatMap((e) => e.suggestions);
@@ -763,6 +1848,14 @@ Configuration:
     );
   }
 
+  private isValidHttpUrl(url: string): boolean {
+    try {
+      return ["http:", "https:"].includes(new URL(url).protocol);
+    } catch (error) {
+      return false;
+    }
+  }
+
   private isValidProductArea(productArea: string): boolean {
     // Validate product area has meaningful content
     const trimmed = productArea.trim();
@@ -776,6 +1869,11 @@ Configuration:
   private async validateAuthentication(config: Config): Promise<void> {
     this.log("Validating GitHub authentication...", "debug");
 
+    // Validate against the configured GitHub instance
+    if (config.githubApiUrl) {
+      this.authService = new AuthenticationService(config.githubApiUrl);
+    }
+
     const authResult = await this.authService.validateToken(config.githubToken);
 
     if (!authResult.isValid) {
@@ -811,35 +1909,59 @@ Configuration:
   /**
    * Execute the main scraping process
    */
-  private async executeScraping(config: Config): Promise<void> {
+  private async executeScraping(
+    config: Config,
+    runOptions: ScrapeRunOptions = {},
+    httpCache: boolean = true,
+    trafficRecorder?: TrafficRecorder
+  ): Promise<void> {
     this.log("🚀 Starting GitHub issue scraping process...");
 
-    const scraper = new GitHubIssueScraper(config.githubToken);
+    const scraper = new GitHubIssueScraper(
+      config.githubToken,
+      undefined,
+      {
+        apiUrl: config.githubApiUrl,
+        httpCache,
+        concurrency: config.githubConcurrency || DEFAULT_GITHUB_CONCURRENCY,
+      },
+      trafficRecorder
+    );
 
     try {
-      const result = await scraper.scrapeRepository(config, (progress) => {
-        // Show progress updates
-        const percentage = Math.round(
-          (progress.current / progress.total) * 100
-        );
+      const result = await scraper.scrapeRepository(
+        config,
+        (progress) => {
+          // Show progress updates
+          const percentage = Math.round(
+            (progress.current / progress.total) * 100
+          );
 
-        switch (progress.phase) {
-          case "fetching":
-            this.log(`📥 ${progress.message} (${percentage}%)`);
-            break;
-          case "analyzing":
-            this.log(
-              `🔍 ${progress.message} (${progress.current}/${progress.total})`
-            );
-            break;
-          case "generating":
-            this.log(`📝 ${progress.message}`);
-            break;
-          case "complete":
-            this.log(`✅ ${progress.message}`);
-            break;
-        }
-      });
+          switch (progress.phase) {
+            case "fetching":
+              this.log(`📥 ${progress.message} (${percentage}%)`);
+              break;
+            case "analyzing":
+              this.log(
+                `🔍 ${progress.message} (${progress.current}/${progress.total})`
+              );
+              break;
+            case "prefiltering":
+              this.log(`🔎 ${progress.message}`);
+              break;
+            case "clustering":
+              this.log(`🧩 ${progress.message}`);
+              break;
+            case "generating":
+              this.log(`📝 ${progress.message}`);
+              break;
+            case "complete":
+              this.log(`✅ ${progress.message}`);
+              break;
+          }
+        },
+        runOptions
+      );
 
       // Display results summary
       this.log("\n📊 Scraping Results:");
@@ -853,7 +1975,10 @@ Configuration:
         `   Average Relevance Score: ${result.metadata.averageRelevanceScore}%`
       );
       this.log(`   Workarounds Found: ${result.metadata.workaroundsFound}`);
-      this.log(`   Report Saved: ${result.reportPath}`);
+      result.reportPaths.forEach((reportPath) =>
+        this.log(`   Report Saved: ${reportPath}`)
+      );
+      this.log(`   Run ID: ${result.runId}`, "debug");
 
       // Show top issues if verbose
       if (this.verbose && result.issues.length > 0) {
@@ -924,7 +2049,11 @@ Configuration:
         console.log("\n🔧 Repository Help:");
         console.log("   Format: owner/repository-name");
         console.log("   Example: microsoft/vscode");
-        console.log("   Check: https://github.com/owner/repository-name");
+        console.log(
+          `   Check: ${
+            GitHubClient.resolveUrls(error.context).webUrl
+          }/owner/repository-name`
+        );
         break;
 
       case "EMPTY_RESULTS":
@@ -12,6 +12,11 @@ export interface RawGitHubIssue {
   html_url: string;
   comments_url: string;
   comments: number;
+  closed_at?: string | null;
+  state_reason?: IssueStateReason | null;
+  // Only set for pull requests; linked_issues is parsed from the PR body
+  pull_request?: { merged_at?: string | null; linked_issues?: number[] };
+  reactions?: RawReactions;
 }
 
 export interface RawComment {
@@ -20,6 +25,15 @@ export interface RawComment {
   body: string;
   created_at: string;
   author_association: string;
+  path?: string; // File path for pull request review comments
+  reactions?: RawReactions;
+  summaryOf?: number; // Number of comments an LLM summary of a condensed thread stands in for
+}
+
+// Reaction rollup as returned by the REST API
+export interface RawReactions {
+  total_count: number;
+  "+1": number;
 }
 
 // LLM Analysis Response Models
@@ -33,9 +47,18 @@ export interface LLMAnalysisResponse {
     processingError?: boolean;
     processingErrors?: number;
     totalBatches?: number;
+    totalTokensUsed?: number;
+    repairs?: ResponseRepair[]; // Fields repaired to match the response schema
   };
 }
 
+// A field of an LLM response repaired to match the response schema
+export interface ResponseRepair {
+  path: string; // e.g. relevantIssues[2].priority
+  issueId?: number;
+  action: string; // e.g. mapped "critical" to "high"
+}
+
 export interface AnalyzedIssue {
   id: number;
   title: string;
@@ -46,8 +69,27 @@ export interface AnalyzedIssue {
   workarounds: LLMWorkaround[];
   tags: string[];
   sentiment: "positive" | "neutral" | "negative";
+  resolution?: IssueResolution; // Only for closed issues
 }
 
+// How a closed issue was resolved, as extracted by the LLM
+export interface IssueResolution {
+  type:
+    | "fixed"
+    | "duplicate"
+    | "wont_fix"
+    | "not_reproducible"
+    | "by_design"
+    | "stale"
+    | "other";
+  description: string;
+  version?: string; // Release that contains the fix
+  duplicateOf?: number; // Issue number this one duplicates
+}
+
+// GitHub's reason for the current state of an issue
+export type IssueStateReason = "completed" | "not_planned" | "reopened";
+
 export interface LLMWorkaround {
   description: string;
   author: string;
@@ -77,6 +119,29 @@ export interface GitHubIssue {
   workarounds: LLMWorkaround[];
   tags: string[];
   sentiment: "positive" | "neutral" | "negative";
+  // Closed issue fields
+  closedAt?: Date;
+  stateReason?: IssueStateReason;
+  resolution?: IssueResolution;
+  // Pull request fields
+  pullRequest?: {
+    mergedAt?: Date;
+    linkedIssues: number[]; // Issues the PR closes ("fixes #123")
+  };
+  linkedPullRequests?: LinkedPullRequest[]; // Pull requests that fix this issue
+  reactions?: Reactions;
+}
+
+// Reactions hint at how many users hit an issue or confirmed a workaround
+export interface Reactions {
+  totalCount: number;
+  thumbsUp: number;
+}
+
+export interface LinkedPullRequest {
+  number: number;
+  url: string;
+  state: "open" | "merged" | "closed";
 }
 
 export interface Comment {
@@ -85,15 +150,23 @@ export interface Comment {
   body: string;
   createdAt: Date;
   authorType: "maintainer" | "contributor" | "user";
+  path?: string; // File path for pull request review comments
+  reactions?: Reactions;
 }
 
 // JAN Client Models
+// Local LLM servers the analysis can run against
+export type LLMProviderName = "jan" | "ollama" | "llamacpp" | "openai";
+
 export interface JANClientOptions {
+  provider?: LLMProviderName; // Default: jan
   endpoint: string;
   model: string;
   apiKey?: string;
   maxRetries?: number;
   timeout?: number;
+  contextWindow?: number; // Tokens; discovered from the server if unset
+  concurrency?: number; // Most batches analyzed at once (default: 1)
 }
 
 export interface JANPromptOptions {
@@ -107,6 +180,14 @@ export interface JANPromptOptions {
   };
 }
 
+export interface AnalyzeIssuesOptions {
+  // Called after each batch is analyzed successfully, e.g. to checkpoint progress
+  onBatchComplete?: (
+    issues: RawGitHubIssue[],
+    result: LLMAnalysisResponse
+  ) => void | Promise<void>;
+}
+
 export interface JANMessage {
   role: "system" | "user" | "assistant";
   content: string;
@@ -145,6 +226,71 @@ export interface JANCompletionResponse {
   };
 }
 
+// Which kinds of items to scrape
+export type ItemKind = "issues" | "prs" | "both";
+
+// Which GitHub API fetches issues: REST (one request per issue for comments)
+// or GraphQL (issues with their comments in one request per page)
+export type GitHubApiMode = "rest" | "graphql";
+
+// Which issue states to scrape
+export type IssueStateFilter = "open" | "closed" | "all";
+
+// Report output formats
+export type ReportFormat = "markdown" | "json" | "csv" | "html";
+
+// An issue of a duplicate cluster
+export interface ClusterMember {
+  id: number;
+  number: number;
+  title: string;
+  url: string;
+  relevanceScore: number;
+  similarity: number; // Cosine similarity to the canonical issue (1 for itself)
+}
+
+// A workaround of a duplicate cluster, merged across its issues
+export interface ClusterWorkaround extends LLMWorkaround {
+  issueNumbers: number[]; // Issues the workaround was found in
+}
+
+// Issues describing the same problem, grouped after analysis
+export interface IssueCluster {
+  canonical: ClusterMember; // Oldest issue of the cluster
+  members: ClusterMember[]; // Other issues, most similar first
+  workarounds: ClusterWorkaround[];
+}
+
+// How issues are ranked against the product area before the LLM analysis
+export type PrefilterMethod = "bm25" | "embedding";
+
+// Score of an issue against the product area
+export interface PrefilterScore {
+  number: number;
+  title: string;
+  score: number;
+  kept: boolean; // Sent to the LLM analysis
+}
+
+// Pre-filter cut-off and scores recorded in report metadata
+export interface PrefilterStats {
+  method: PrefilterMethod; // Method used, "bm25" if embedding failed
+  topN?: number;
+  minScore?: number;
+  candidates: number; // Issues fetched and ranked
+  kept: number; // Issues sent to the LLM analysis
+  cutoffScore: number | null; // Lowest score kept, null if none were
+  scores: PrefilterScore[]; // Highest score first
+}
+
+// LLM processing statistics recorded in report metadata
+export interface ProcessingStats {
+  batchCount?: number;
+  totalTokensUsed?: number;
+  analysisTime?: number; // Milliseconds spent in LLM analysis
+  responseRepairs?: ResponseRepair[]; // Diagnostics of repaired LLM responses
+}
+
 // Configuration Model with JAN integration
 export interface Config {
   githubToken: string;
@@ -153,9 +299,24 @@ export interface Config {
   maxIssues: number;
   minRelevanceScore: number;
   outputPath: string;
+  llmProvider?: LLMProviderName; // Server type at janEndpoint (default: jan)
   janEndpoint: string;
   janModel: string;
   janApiKey?: string;
   janMaxRetries?: number;
   janTimeout?: number;
+  contextWindows?: Record<string, number>; // Context window in tokens per model
+  llmConcurrency?: number; // Most LLM requests in flight at once (default: 1)
+  embeddingModel?: string; // Model for duplicate clustering; bundled vectorizer if unset
+  clusterThreshold?: number; // Similarity (0-1) at which issues are duplicates
+  prefilter?: PrefilterMethod; // Rank issues before the LLM analysis; off if unset
+  prefilterTopN?: number; // Most issues kept by the pre-filter
+  prefilterMinScore?: number; // Lowest pre-filter score (0-1) kept
+  outputFormats?: ReportFormat[];
+  itemKind?: ItemKind;
+  issueState?: IssueStateFilter;
+  githubApiMode?: GitHubApiMode;
+  githubConcurrency?: number; // Most GitHub API requests in flight at once (default: 4)
+  githubApiUrl?: string; // e.g. https://github.example.com/api/v3 for GitHub Enterprise Server
+  githubWebUrl?: string;
 }
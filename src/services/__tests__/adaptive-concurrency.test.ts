@@ -0,0 +1,82 @@
+import { AdaptiveConcurrency, isOverloadError } from "../adaptive-concurrency";
+import { ScraperError, ErrorType } from "../error-handler";
+
+describe("AdaptiveConcurrency", () => {
+  test("should start at the maximum", () => {
+    expect(new AdaptiveConcurrency(4).limit).toBe(4);
+    expect(new AdaptiveConcurrency(0).limit).toBe(1);
+  });
+
+  test("should halve the limit on overload", () => {
+    const concurrency = new AdaptiveConcurrency(8);
+
+    expect(concurrency.recordOverload(concurrency.epoch)).toBe(true);
+    expect(concurrency.limit).toBe(4);
+    expect(concurrency.recordOverload(concurrency.epoch)).toBe(true);
+    expect(concurrency.limit).toBe(2);
+  });
+
+  test("should decrease once for requests sent at the same limit", () => {
+    const concurrency = new AdaptiveConcurrency(8);
+    const epoch = concurrency.epoch;
+
+    concurrency.recordOverload(epoch);
+    expect(concurrency.recordOverload(epoch)).toBe(false);
+    expect(concurrency.limit).toBe(4);
+  });
+
+  test("should never go below one", () => {
+    const concurrency = new AdaptiveConcurrency(1);
+
+    expect(concurrency.recordOverload(concurrency.epoch)).toBe(false);
+    expect(concurrency.limit).toBe(1);
+  });
+
+  test("should grow by one after a run of successes, up to the maximum", () => {
+    const concurrency = new AdaptiveConcurrency(4);
+    concurrency.recordOverload(concurrency.epoch);
+    concurrency.recordOverload(concurrency.epoch);
+    expect(concurrency.limit).toBe(1);
+
+    concurrency.recordSuccess();
+    expect(concurrency.limit).toBe(2);
+    concurrency.recordSuccess();
+    expect(concurrency.limit).toBe(2);
+    concurrency.recordSuccess();
+    expect(concurrency.limit).toBe(3);
+
+    for (let i = 0; i < 10; i++) {
+      concurrency.recordSuccess();
+    }
+    expect(concurrency.limit).toBe(4);
+  });
+
+  describe("isOverloadError", () => {
+    test("should detect rate limits and timeouts", () => {
+      expect(isOverloadError({ status: 429 })).toBe(true);
+      expect(isOverloadError({ code: "ECONNABORTED" })).toBe(true);
+      expect(isOverloadError(new Error("Request timed out."))).toBe(true);
+    });
+
+    test("should look at the error a ScraperError wraps", () => {
+      const error = new ScraperError(
+        ErrorType.LLM_SERVICE,
+        "JAN rate limit exceeded or insufficient resources",
+        { operation: "creating JAN completion" },
+        [],
+        true,
+        Object.assign(new Error("Too Many Requests"), { status: 429 })
+      );
+
+      expect(isOverloadError(error)).toBe(true);
+    });
+
+    test("should ignore other errors", () => {
+      expect(isOverloadError(new Error("Network error"))).toBe(false);
+      expect(isOverloadError({ status: 400, message: "bad request" })).toBe(
+        false
+      );
+      expect(isOverloadError(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import { AnalysisCache, AnalysisCacheEntry } from "../analysis-cache";
+import { RawGitHubIssue, RawComment } from "../../models";
+
+describe("AnalysisCache", () => {
+  let cacheDir: string;
+  let cache: AnalysisCache;
+
+  const mockIssue: RawGitHubIssue = {
+    id: 12345,
+    number: 42,
+    title: "Editor freezes on large files",
+    body: "Opening a 50MB file freezes the editor.",
+    labels: [{ name: "bug" }, { name: "performance" }],
+    state: "open",
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-02T00:00:00Z",
+    user: { login: "testuser" },
+    html_url: "https://github.com/test/repo/issues/42",
+    comments_url: "https://api.github.com/repos/test/repo/issues/42/comments",
+    comments: 1,
+  };
+
+  const mockComments: RawComment[] = [
+    {
+      id: 1001,
+      user: { login: "maintainer" },
+      body: "Disable word wrap as a workaround.",
+      created_at: "2024-01-01T12:00:00Z",
+      author_association: "MEMBER",
+    },
+  ];
+
+  const entry: AnalysisCacheEntry = {
+    issueId: 12345,
+    productArea: "performance",
+    model: "llama2",
+    promptVersion: "abc123def456",
+    analysis: {
+      id: 12345,
+      title: "Editor freezes on large files",
+      relevanceScore: 90,
+      category: "Performance",
+      priority: "high",
+      summary: "Large files freeze the editor.",
+      workarounds: [],
+      tags: ["freeze"],
+      sentiment: "negative",
+    },
+    storedAt: "2024-01-03T00:00:00Z",
+  };
+
+  const computeKey = (overrides: {
+    issue?: RawGitHubIssue;
+    comments?: RawComment[];
+    productArea?: string;
+    model?: string;
+    promptVersion?: string;
+  }) =>
+    AnalysisCache.computeKey(
+      overrides.issue || mockIssue,
+      overrides.comments || mockComments,
+      overrides.productArea || "performance",
+      overrides.model || "llama2",
+      overrides.promptVersion || "abc123def456"
+    );
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "analysis-cache-test-"));
+    cache = new AnalysisCache(cacheDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(cacheDir);
+  });
+
+  it("should change the key when any analysis input changes", () => {
+    const key = computeKey({});
+
+    expect(computeKey({})).toBe(key);
+    expect(
+      computeKey({ issue: { ...mockIssue, body: "Edited description" } })
+    ).not.toBe(key);
+    expect(
+      computeKey({ comments: [{ ...mockComments[0], body: "Edited" }] })
+    ).not.toBe(key);
+    expect(computeKey({ productArea: "terminal" })).not.toBe(key);
+    expect(computeKey({ model: "mistral" })).not.toBe(key);
+    expect(computeKey({ promptVersion: "0123456789ab" })).not.toBe(key);
+  });
+
+  it("should ignore fields that don't affect the analysis", () => {
+    expect(
+      computeKey({
+        issue: { ...mockIssue, updated_at: "2024-02-01T00:00:00Z" },
+      })
+    ).toBe(computeKey({}));
+  });
+
+  it("should store and read back analyses, including not relevant issues", async () => {
+    const notRelevant: AnalysisCacheEntry = { ...entry, analysis: undefined };
+
+    await cache.set("relevant", entry);
+    await cache.set("not-relevant", notRelevant);
+
+    expect(await cache.get("relevant")).toEqual(entry);
+    expect(await cache.get("not-relevant")).toEqual(notRelevant);
+    expect(await cache.get("missing")).toBeUndefined();
+  });
+
+  it("should report statistics and clear all entries", async () => {
+    await cache.set("first", entry);
+    await cache.set("second", entry);
+
+    expect((await cache.stats()).entries).toBe(2);
+    expect(await cache.clear()).toBe(2);
+    expect((await cache.stats()).entries).toBe(0);
+  });
+});
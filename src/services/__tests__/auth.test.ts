@@ -211,5 +211,19 @@ describe("AuthenticationService", () => {
         timeout: 30000,
       });
     });
+
+    it("should use the configured GitHub Enterprise Server API URL", () => {
+      const enterpriseService = new AuthenticationService(
+        "https://github.example.com/api/v3"
+      );
+
+      enterpriseService.getAuthenticatedClient("test-token");
+
+      expect(mockAxios.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          baseURL: "https://github.example.com/api/v3",
+        })
+      );
+    });
   });
 });
@@ -3,6 +3,8 @@ import { PromptManager } from "../prompt-manager";
 import axios from "axios";
 import { OpenAI } from "openai";
 import { LLMAnalysisResponse, RawGitHubIssue, RawComment } from "../../models";
+import { ErrorHandler } from "../error-handler";
+import { estimateMessageTokens } from "../token-budget";
 
 // Mock axios and OpenAI
 jest.mock("axios");
@@ -512,11 +514,14 @@ describe("Batch Processing and Context Management", () => {
         usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
       });
 
-    // Mock response parsing
+    // Mock response parsing, with an issue of the third batch relevant
     jest
       .spyOn(promptManager, "parseStructuredResponse")
       .mockReturnValueOnce(successResponse)
-      .mockReturnValueOnce(successResponse);
+      .mockReturnValueOnce({
+        ...successResponse,
+        relevantIssues: [{ ...successResponse.relevantIssues[0], id: 12355 }],
+      });
 
     // Execute analysis
     const result = await janClient.analyzeIssues(
@@ -535,4 +540,219 @@ describe("Batch Processing and Context Management", () => {
     expect(result.summary.processingErrors).toBe(1); // 1 failed batch
     expect(result.summary.totalBatches).toBe(3); // 3 total batches
   });
+
+  test("should repack batches for the context window stated in a context length error", async () => {
+    // Mock sleep to avoid actual delays in tests
+    jest.spyOn(ErrorHandler as any, "sleep").mockResolvedValue(undefined);
+
+    janClient.updateOptions({ contextWindow: 32768 });
+    const issues = mockIssues.slice(0, 8);
+    const emptyAnalysis = {
+      id: "test-id",
+      object: "chat.completion",
+      created: Date.now(),
+      model: "llama2",
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: JSON.stringify({
+              relevantIssues: [],
+              summary: {
+                totalAnalyzed: 0,
+                relevantFound: 0,
+                topCategories: [],
+                analysisModel: "llama2",
+              },
+            }),
+          },
+          finish_reason: "stop",
+        },
+      ],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    };
+
+    // The server actually runs the model with a 2048-token context
+    mockedOpenAI.chat.completions.create.mockImplementation((request: any) =>
+      estimateMessageTokens(request.messages) + request.max_tokens > 2048
+        ? Promise.reject({
+            message:
+              "This model's maximum context length is 2048 tokens. However, you requested more tokens.",
+            status: 400,
+          })
+        : Promise.resolve(emptyAnalysis)
+    );
+
+    const completedBatches: number[] = [];
+    await janClient.analyzeIssues(
+      issues,
+      mockComments,
+      "test area",
+      promptManager,
+      8,
+      {
+        onBatchComplete: (batchIssues) => {
+          completedBatches.push(batchIssues.length);
+        },
+      }
+    );
+
+    // All issues fit one batch in the configured window, but not in 2048 tokens
+    expect(completedBatches.length).toBeGreaterThan(1);
+    expect(completedBatches.reduce((total, size) => total + size, 0)).toBe(8);
+  });
+
+  describe("concurrent batches", () => {
+    // Answers with every issue in the prompt as relevant
+    const analysisOf = (request: any) => {
+      const ids = Array.from(
+        (request.messages[1].content as string).matchAll(/\(ID: (\d+)\)/g),
+        (match) => Number(match[1])
+      );
+      return {
+        id: "test-id",
+        object: "chat.completion",
+        created: Date.now(),
+        model: "llama2",
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: JSON.stringify({
+                relevantIssues: ids.map((id) => ({
+                  id,
+                  title: `Issue ${id}`,
+                  relevanceScore: 80,
+                  category: "Bug",
+                  priority: "medium",
+                  summary: "Summary",
+                  workarounds: [],
+                  tags: [],
+                  sentiment: "neutral",
+                })),
+                summary: {
+                  totalAnalyzed: ids.length,
+                  relevantFound: ids.length,
+                  topCategories: ["Bug"],
+                  analysisModel: "llama2",
+                },
+              }),
+            },
+            finish_reason: "stop",
+          },
+        ],
+        usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+      };
+    };
+
+    test("should run up to the configured number of batches at once and merge in issue order", async () => {
+      janClient.updateOptions({ concurrency: 3, contextWindow: 32768 });
+      const issues = mockIssues.slice(0, 12);
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      let call = 0;
+      mockedOpenAI.chat.completions.create.mockImplementation(
+        async (request: any) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          // Earlier batches take longer, so they finish last
+          const delay = 30 - 5 * call++;
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          inFlight--;
+          return analysisOf(request);
+        }
+      );
+
+      const result = await janClient.analyzeIssues(
+        issues,
+        mockComments,
+        "test area",
+        promptManager,
+        2
+      );
+
+      expect(mockedOpenAI.chat.completions.create).toHaveBeenCalledTimes(6);
+      expect(maxInFlight).toBe(3);
+      expect(result.relevantIssues.map((issue) => issue.id)).toEqual(
+        issues.map((issue) => issue.id)
+      );
+    });
+
+    test("should run batches at once with the concurrency given to the constructor", async () => {
+      const client = new JANClient({
+        endpoint: "http://localhost:1337",
+        model: "llama2",
+        concurrency: 2,
+        contextWindow: 32768,
+      });
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockedOpenAI.chat.completions.create.mockImplementation(
+        async (request: any) => {
+          inFlight++;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          inFlight--;
+          return analysisOf(request);
+        }
+      );
+
+      await client.analyzeIssues(
+        mockIssues.slice(0, 8),
+        mockComments,
+        "test area",
+        promptManager,
+        2
+      );
+
+      expect(maxInFlight).toBe(2);
+    });
+
+    test("should send fewer batches at once when the server is overloaded", async () => {
+      jest.spyOn(ErrorHandler as any, "sleep").mockResolvedValue(undefined);
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      janClient.updateOptions({ concurrency: 4, contextWindow: 32768 });
+      const issues = mockIssues.slice(0, 8);
+
+      // The first request of the first four is rejected as overloaded
+      let inFlight = 0;
+      let requests = 0;
+      let finished = 0;
+      let maxInFlightLater = 0;
+      mockedOpenAI.chat.completions.create.mockImplementation(
+        async (request: any) => {
+          const requestNumber = ++requests;
+          inFlight++;
+          if (finished >= 4) {
+            maxInFlightLater = Math.max(maxInFlightLater, inFlight);
+          }
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          inFlight--;
+          finished++;
+          if (requestNumber === 1) {
+            throw { status: 429, message: "Too Many Requests" };
+          }
+          return analysisOf(request);
+        }
+      );
+
+      const result = await janClient.analyzeIssues(
+        issues,
+        mockComments,
+        "test area",
+        promptManager,
+        2
+      );
+
+      expect(warn).toHaveBeenCalledWith(
+        "LLM server overloaded, sending up to 2 batches at once"
+      );
+      expect(maxInFlightLater).toBeLessThan(4);
+      expect(result.relevantIssues).toHaveLength(8);
+    });
+  });
 });
@@ -180,6 +180,23 @@ describe("ErrorHandler", () => {
       expect(result.suggestions[0].action).toBe("Check repository name");
     });
 
+    it("should point to the configured GitHub instance", () => {
+      const result = ErrorHandler.handleRepositoryError(
+        { response: { status: 404, data: { message: "Not Found" } } },
+        {
+          ...mockContext,
+          githubApiUrl: "https://github.example.com/api/v3",
+          githubWebUrl: "https://github.example.com",
+        }
+      );
+
+      expect(result.suggestions).toContainEqual(
+        expect.objectContaining({
+          description: `Visit https://github.example.com/${mockContext.repository} to confirm the repository exists`,
+        })
+      );
+    });
+
     it("should handle 403 access denied", () => {
       const mockError = {
         response: {
@@ -0,0 +1,293 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import {
+  Evaluator,
+  GoldenSet,
+  computeMetrics,
+  formatEvalTable,
+  matchesWorkaround,
+  scoreIssues,
+} from "../evaluator";
+import { JANClient } from "../jan-client";
+import { PromptManager } from "../prompt-manager";
+import { ScraperError } from "../error-handler";
+import { AnalyzedIssue, LLMAnalysisResponse } from "../../models";
+
+describe("Evaluator", () => {
+  const goldenSet: GoldenSet = {
+    name: "terminal",
+    productArea: "terminal",
+    issues: [
+      {
+        issue: { id: 1, number: 101 } as any,
+        expected: {
+          relevant: true,
+          relevanceScore: 90,
+          category: "performance",
+          priority: "high",
+          workarounds: [
+            "Turn off terminal GPU acceleration",
+            "Run the task in an external console window",
+          ],
+        },
+      },
+      {
+        issue: { id: 2, number: 102 } as any,
+        expected: {
+          relevant: true,
+          relevanceScore: 60,
+          category: "bug",
+          priority: "low",
+        },
+      },
+      {
+        issue: { id: 3, number: 103 } as any,
+        expected: { relevant: false, relevanceScore: 10 },
+      },
+      {
+        issue: { id: 4, number: 104 } as any,
+        expected: { relevant: false, relevanceScore: 0 },
+      },
+    ],
+  };
+
+  const analyzed = (
+    id: number,
+    relevanceScore: number,
+    overrides: Partial<AnalyzedIssue> = {}
+  ): AnalyzedIssue => ({
+    id,
+    title: `Issue ${id}`,
+    relevanceScore,
+    category: "bug",
+    priority: "medium",
+    summary: "",
+    workarounds: [],
+    tags: [],
+    sentiment: "neutral",
+    ...overrides,
+  });
+
+  const analysis: LLMAnalysisResponse = {
+    relevantIssues: [
+      analyzed(1, 85, {
+        category: "Performance",
+        priority: "high",
+        workarounds: [
+          {
+            description: "Turn GPU acceleration off in the terminal settings",
+            author: "maintainer1",
+            authorType: "maintainer",
+            effectiveness: "confirmed",
+            confidence: 90,
+          },
+        ],
+      }),
+      analyzed(3, 40),
+    ],
+    summary: {
+      totalAnalyzed: 4,
+      relevantFound: 2,
+      topCategories: [],
+      analysisModel: "llama2",
+    },
+  };
+
+  describe("scoreIssues", () => {
+    test("should compare each issue with its label", () => {
+      const results = scoreIssues(goldenSet, analysis);
+
+      expect(results[0]).toEqual({
+        id: 1,
+        number: 101,
+        expectedRelevant: true,
+        predictedScore: 85,
+        expectedScore: 90,
+        categoryMatch: true,
+        priorityMatch: true,
+        workaroundsExpected: 2,
+        workaroundsFound: 1,
+      });
+      // Not reported by the model
+      expect(results[1]).toMatchObject({
+        predictedScore: 0,
+        categoryMatch: undefined,
+        priorityMatch: undefined,
+      });
+    });
+  });
+
+  describe("computeMetrics", () => {
+    test("should compute precision and recall at the threshold", () => {
+      const results = scoreIssues(goldenSet, analysis);
+
+      const metrics = computeMetrics(results, 30);
+      expect(metrics.precision).toBe(0.5); // Issue 3 is a false positive
+      expect(metrics.recall).toBe(0.5); // Issue 2 was missed
+      expect(metrics.f1).toBe(0.5);
+
+      const strict = computeMetrics(results, 50);
+      expect(strict.precision).toBe(1);
+      expect(strict.recall).toBe(0.5);
+    });
+
+    test("should compute score correlation, enum accuracy and workaround recall", () => {
+      const metrics = computeMetrics(scoreIssues(goldenSet, analysis), 30);
+
+      expect(metrics.scoreCorrelation).toBeCloseTo(0.59, 2);
+      expect(metrics.categoryAccuracy).toBe(1);
+      expect(metrics.priorityAccuracy).toBe(1);
+      expect(metrics.workaroundRecall).toBe(0.5);
+    });
+
+    test("should leave metrics without data at null", () => {
+      const metrics = computeMetrics(
+        [
+          {
+            id: 1,
+            number: 1,
+            expectedRelevant: false,
+            predictedScore: 0,
+            workaroundsExpected: 0,
+            workaroundsFound: 0,
+          },
+        ],
+        30
+      );
+
+      expect(metrics).toEqual({
+        precision: null,
+        recall: null,
+        f1: null,
+        scoreCorrelation: null,
+        categoryAccuracy: null,
+        priorityAccuracy: null,
+        workaroundRecall: null,
+      });
+    });
+  });
+
+  describe("matchesWorkaround", () => {
+    test("should match descriptions sharing most keywords", () => {
+      expect(
+        matchesWorkaround(
+          "Turn off terminal GPU acceleration",
+          "Disable GPU acceleration for the terminal"
+        )
+      ).toBe(true);
+      expect(
+        matchesWorkaround(
+          "Turn off terminal GPU acceleration",
+          "Reinstall the extension"
+        )
+      ).toBe(false);
+      expect(matchesWorkaround("", "Anything")).toBe(false);
+    });
+
+    test("should match plurals to their singular", () => {
+      expect(
+        matchesWorkaround("Reload the extensions", "Uninstall the extension")
+      ).toBe(true);
+    });
+  });
+
+  describe("evaluate", () => {
+    test("should analyze the golden set and record model and prompt version", async () => {
+      const janClient = new JANClient({
+        endpoint: "http://localhost:1337",
+        model: "mistral",
+      });
+      const analyzeSpy = jest
+        .spyOn(janClient, "analyzeIssues")
+        .mockResolvedValue(analysis);
+      const promptManager = new PromptManager();
+
+      const result = await new Evaluator(janClient, promptManager).evaluate(
+        goldenSet,
+        30
+      );
+
+      expect(analyzeSpy).toHaveBeenCalledWith(
+        goldenSet.issues.map((labeled) => labeled.issue),
+        expect.any(Map),
+        "terminal",
+        promptManager,
+        expect.any(Number)
+      );
+      expect(result).toMatchObject({
+        goldenSet: "terminal",
+        model: "mistral",
+        promptVersion: promptManager.getPromptVersionLabel(),
+        minRelevanceScore: 30,
+        issueCount: 4,
+        failedBatches: 0,
+      });
+      expect(result.metrics.precision).toBe(0.5);
+    });
+  });
+
+  describe("loadGoldenSet", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "golden-set-"));
+    });
+
+    afterEach(async () => {
+      await fs.remove(tempDir);
+    });
+
+    test("should load the sample golden set", async () => {
+      const sample = await Evaluator.loadGoldenSet(
+        path.join(__dirname, "../../../docs/eval/sample-golden-set.json")
+      );
+
+      expect(sample.productArea).toBe("terminal");
+      expect(sample.issues.length).toBeGreaterThan(0);
+    });
+
+    test("should reject issues without labels", async () => {
+      const filePath = path.join(tempDir, "set.json");
+      await fs.writeJson(filePath, {
+        productArea: "terminal",
+        issues: [{ issue: { id: 1, number: 101 }, expected: {} }],
+      });
+
+      await expect(Evaluator.loadGoldenSet(filePath)).rejects.toThrow(
+        "Issue #101 of the golden set has no expected.relevant label"
+      );
+    });
+
+    test("should reject missing files", async () => {
+      await expect(
+        Evaluator.loadGoldenSet(path.join(tempDir, "missing.json"))
+      ).rejects.toBeInstanceOf(ScraperError);
+    });
+  });
+
+  describe("formatEvalTable", () => {
+    test("should render one row per model", () => {
+      const metrics = computeMetrics(scoreIssues(goldenSet, analysis), 30);
+      const table = formatEvalTable([
+        {
+          goldenSet: "terminal",
+          model: "llama2",
+          promptVersion: "abc123",
+          minRelevanceScore: 30,
+          issueCount: 4,
+          failedBatches: 0,
+          metrics,
+          issues: [],
+          durationMs: 1000,
+          evaluatedAt: "2024-03-10T00:00:00.000Z",
+        },
+      ]).split("\n");
+
+      expect(table[0]).toMatch(/^Model\s+Prompt\s+Precision\s+Recall/);
+      expect(table[1]).toMatch(
+        /^llama2\s+abc123\s+50%\s+50%\s+50%\s+0.59\s+100%\s+100%\s+50%$/
+      );
+    });
+  });
+});
@@ -1,7 +1,12 @@
 import axios from "axios";
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
 import { GitHubClient, GitHubApiError } from "../github-client";
 import { GitHubIssue, Comment } from "../../models";
 import { ScraperError, ErrorType } from "../error-handler";
+import { HttpCache } from "../http-cache";
+import { TrafficRecorder } from "../traffic-recorder";
 
 // Mock axios
 jest.mock("axios");
@@ -47,6 +52,45 @@ describe("GitHubClient", () => {
     it("should set up response interceptor for rate limiting", () => {
       expect(mockAxiosInstance.interceptors.response.use).toHaveBeenCalled();
     });
+
+    it("should use a custom API URL for GitHub Enterprise Server", () => {
+      new GitHubClient("test-token", "https://github.example.com/api/v3");
+
+      expect(mockedAxios.create).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          baseURL: "https://github.example.com/api/v3",
+        })
+      );
+    });
+  });
+
+  describe("resolveUrls", () => {
+    it("should default to github.com", () => {
+      expect(GitHubClient.resolveUrls({})).toEqual({
+        apiUrl: "https://api.github.com",
+        webUrl: "https://github.com",
+      });
+    });
+
+    it("should derive the web URL from a GitHub Enterprise Server API URL", () => {
+      expect(
+        GitHubClient.resolveUrls({
+          githubApiUrl: "https://github.example.com/api/v3/",
+        })
+      ).toEqual({
+        apiUrl: "https://github.example.com/api/v3",
+        webUrl: "https://github.example.com",
+      });
+    });
+
+    it("should derive the API URL from a GitHub Enterprise Server web URL", () => {
+      expect(
+        GitHubClient.resolveUrls({ githubWebUrl: "https://github.example.com" })
+      ).toEqual({
+        apiUrl: "https://github.example.com/api/v3",
+        webUrl: "https://github.example.com",
+      });
+    });
   });
 
   describe("getRepositoryIssues", () => {
@@ -278,6 +322,213 @@ describe("GitHubClient", () => {
     });
   });
 
+  describe("pull requests", () => {
+    const mockItems = [
+      {
+        id: 10,
+        number: 10,
+        title: "Editor freezes",
+        body: "Typing freezes the editor",
+        labels: [],
+        state: "open" as const,
+        created_at: "2023-01-01T00:00:00Z",
+        updated_at: "2023-01-02T00:00:00Z",
+        user: { login: "reporter" },
+        html_url: "https://github.com/owner/repo/issues/10",
+        comments: 0,
+      },
+      {
+        id: 11,
+        number: 11,
+        title: "Debounce rendering",
+        body: "Fixes #10 and closes other/repo#3.\nAlso resolves owner/repo#7",
+        labels: [],
+        state: "closed" as const,
+        created_at: "2023-01-03T00:00:00Z",
+        updated_at: "2023-01-04T00:00:00Z",
+        user: { login: "contributor" },
+        html_url: "https://github.com/owner/repo/pull/11",
+        comments: 0,
+        pull_request: {
+          url: "https://api.github.com/repos/owner/repo/pulls/11",
+          html_url: "https://github.com/owner/repo/pull/11",
+          merged_at: "2023-01-04T00:00:00Z",
+        },
+      },
+    ];
+
+    it("should skip pull requests when fetching issues", async () => {
+      mockAxiosInstance.request.mockResolvedValue({ data: mockItems });
+
+      const issues = await client.getRepositoryIssues("owner/repo");
+
+      expect(issues.map((issue) => issue.number)).toEqual([10]);
+    });
+
+    it("should fetch pull requests from the pulls endpoint with their linked issues", async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        data: [
+          {
+            id: 11,
+            number: 11,
+            title: "Debounce rendering",
+            body: mockItems[1].body,
+            labels: [],
+            state: "closed",
+            created_at: "2023-01-03T00:00:00Z",
+            updated_at: "2023-01-04T00:00:00Z",
+            user: { login: "contributor" },
+            url: "https://api.github.com/repos/owner/repo/pulls/11",
+            html_url: "https://github.com/owner/repo/pull/11",
+            merged_at: "2023-01-04T00:00:00Z",
+          },
+        ],
+      });
+
+      const pulls = await client.getRepositoryIssues("owner/repo", {
+        kind: "prs",
+      });
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith(
+        expect.objectContaining({ url: "/repos/owner/repo/pulls" })
+      );
+      expect(pulls).toHaveLength(1);
+      expect(pulls[0].pullRequest).toEqual({
+        mergedAt: new Date("2023-01-04T00:00:00Z"),
+        linkedIssues: [10, 7],
+      });
+    });
+
+    it("should keep paging until enough items of the requested kind are fetched", async () => {
+      const page = (first: number, issues: number) =>
+        Array.from({ length: 100 }, (_, index) => ({
+          ...mockItems[index < issues ? 0 : 1],
+          id: first + index,
+          number: first + index,
+        }));
+      mockAxiosInstance.request
+        .mockResolvedValueOnce({ data: page(1, 95) })
+        .mockResolvedValueOnce({ data: page(101, 95) })
+        .mockResolvedValueOnce({ data: page(201, 95) });
+
+      const pulls = await client.getRepositoryIssues(
+        "owner/repo",
+        { kind: "prs", since: "2023-01-01T00:00:00Z" },
+        { maxItems: 12 }
+      );
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(3);
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith(
+        expect.objectContaining({ url: "/repos/owner/repo/issues" })
+      );
+      expect(pulls).toHaveLength(12);
+      expect(pulls.every((pull) => pull.pullRequest)).toBe(true);
+    });
+
+    it("should return issues and pull requests in both mode", async () => {
+      mockAxiosInstance.request.mockResolvedValue({ data: mockItems });
+
+      const items = await client.getRepositoryIssues("owner/repo", {
+        kind: "both",
+      });
+
+      expect(items).toHaveLength(2);
+      expect(items[0].pullRequest).toBeUndefined();
+    });
+
+    it("should keep the close date and reason of closed issues", async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        data: [
+          {
+            ...mockItems[0],
+            state: "closed",
+            closed_at: "2023-01-05T00:00:00Z",
+            state_reason: "not_planned",
+          },
+        ],
+      });
+
+      const issues = await client.getRepositoryIssues("owner/repo", {
+        state: "closed",
+      });
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: expect.objectContaining({ state: "closed" }),
+        })
+      );
+      expect(issues[0]).toMatchObject({
+        state: "closed",
+        closedAt: new Date("2023-01-05T00:00:00Z"),
+        stateReason: "not_planned",
+      });
+    });
+
+    it("should fetch review comments with their file paths", async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        data: [
+          {
+            id: 5,
+            user: { login: "reviewer", type: "User" },
+            body: "This also fixes the freeze on paste",
+            created_at: "2023-01-03T12:00:00Z",
+            author_association: "MEMBER",
+            path: "src/editor/render.ts",
+          },
+        ],
+      });
+
+      const comments = await client.getPullRequestReviewComments(
+        "owner/repo",
+        11
+      );
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith(
+        expect.objectContaining({ url: "/repos/owner/repo/pulls/11/comments" })
+      );
+      expect(comments[0]).toMatchObject({
+        author: "reviewer",
+        authorType: "maintainer",
+        path: "src/editor/render.ts",
+      });
+    });
+
+    it("should parse closing keywords for linked issues", () => {
+      expect(
+        GitHubClient.parseLinkedIssues(
+          "Fixed #1, closes: #2, Resolves #2, refs #3, fixes owner/repo#4",
+          "owner/repo"
+        )
+      ).toEqual([1, 2, 4]);
+      expect(GitHubClient.parseLinkedIssues("prefix#5 fixes#6")).toEqual([]);
+    });
+
+    it("should search for the requested kind", async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        data: { total_count: 0, incomplete_results: false, items: [] },
+      });
+
+      await client.searchIssues({
+        query: "freeze",
+        repository: "owner/repo",
+        kind: "prs",
+      });
+      await client.searchIssues({
+        query: "freeze",
+        repository: "owner/repo",
+        kind: "both",
+      });
+
+      const queries = mockAxiosInstance.request.mock.calls.map(
+        (call: any[]) => call[0].params.q
+      );
+      expect(queries).toEqual([
+        "freeze repo:owner/repo type:pr state:open",
+        "freeze repo:owner/repo state:open",
+      ]);
+    });
+  });
+
   describe("getRateLimitInfo", () => {
     it("should fetch rate limit information successfully", async () => {
       mockAxiosInstance.request.mockResolvedValue({
@@ -461,4 +712,332 @@ describe("GitHubClient", () => {
       expect(issues[0].description).toBe("");
     });
   });
+
+  describe("GraphQL fetching", () => {
+    const graphQLComment = (id: number, body: string) => ({
+      databaseId: id,
+      author: { login: "maintainer1" },
+      body,
+      createdAt: "2023-01-01T12:00:00Z",
+      authorAssociation: "MEMBER",
+      reactions: { totalCount: 4 },
+      thumbsUp: { totalCount: 3 },
+    });
+
+    const graphQLIssue = (number: number, overrides: any = {}) => ({
+      databaseId: number * 100,
+      number,
+      title: `Issue ${number}`,
+      body: "Editor freezes",
+      url: `https://github.com/owner/repo/issues/${number}`,
+      state: "CLOSED",
+      stateReason: "NOT_PLANNED",
+      createdAt: "2023-01-01T00:00:00Z",
+      updatedAt: "2023-01-02T00:00:00Z",
+      closedAt: "2023-01-03T00:00:00Z",
+      author: null,
+      labels: { nodes: [{ name: "bug" }] },
+      reactions: { totalCount: 12 },
+      thumbsUp: { totalCount: 9 },
+      comments: {
+        pageInfo: { hasNextPage: false },
+        nodes: [graphQLComment(number * 1000, "Workaround: disable minimap")],
+      },
+      ...overrides,
+    });
+
+    const page = (nodes: any[], endCursor: string | null = null) => ({
+      data: {
+        data: {
+          repository: {
+            items: {
+              pageInfo: { hasNextPage: !!endCursor, endCursor },
+              nodes,
+            },
+          },
+        },
+      },
+    });
+
+    it("should fetch issues with comments and reactions in one request", async () => {
+      mockAxiosInstance.request.mockResolvedValueOnce(page([graphQLIssue(1)]));
+
+      const issues = await client.getRepositoryIssuesWithComments(
+        "owner/repo",
+        { state: "closed" }
+      );
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(1);
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: "https://api.github.com/graphql",
+          method: "POST",
+          data: expect.objectContaining({
+            variables: expect.objectContaining({
+              owner: "owner",
+              name: "repo",
+              states: ["CLOSED"],
+            }),
+          }),
+        })
+      );
+      expect(issues[0]).toMatchObject({
+        id: 100,
+        author: "ghost",
+        labels: ["bug"],
+        state: "closed",
+        stateReason: "not_planned",
+        reactions: { totalCount: 12, thumbsUp: 9 },
+      });
+      expect(issues[0].comments).toEqual([
+        {
+          id: 1000,
+          author: "maintainer1",
+          body: "Workaround: disable minimap",
+          createdAt: new Date("2023-01-01T12:00:00Z"),
+          authorType: "maintainer",
+          reactions: { totalCount: 4, thumbsUp: 3 },
+        },
+      ]);
+    });
+
+    it("should follow cursors and complete truncated comments over REST", async () => {
+      mockAxiosInstance.request
+        .mockResolvedValueOnce(page([graphQLIssue(1)], "cursor-1"))
+        .mockResolvedValueOnce(
+          page([
+            graphQLIssue(2, {
+              comments: { pageInfo: { hasNextPage: true }, nodes: [] },
+            }),
+          ])
+        )
+        .mockResolvedValueOnce({ data: [] });
+
+      const issues = await client.getRepositoryIssuesWithComments("owner/repo");
+
+      expect(issues.map((issue) => issue.number)).toEqual([1, 2]);
+      expect(
+        mockAxiosInstance.request.mock.calls[1][0].data.variables.after
+      ).toBe("cursor-1");
+      expect(mockAxiosInstance.request).toHaveBeenLastCalledWith(
+        expect.objectContaining({ url: "/repos/owner/repo/issues/2/comments" })
+      );
+    });
+
+    it("should attach review comments of pull requests with their paths", async () => {
+      mockAxiosInstance.request.mockResolvedValueOnce(
+        page([
+          graphQLIssue(11, {
+            state: "MERGED",
+            stateReason: undefined,
+            body: "Fixes #1",
+            mergedAt: "2023-01-03T00:00:00Z",
+            reviewThreads: {
+              pageInfo: { hasNextPage: false },
+              nodes: [
+                {
+                  path: "src/render.ts",
+                  comments: {
+                    pageInfo: { hasNextPage: false },
+                    nodes: [graphQLComment(5, "Also fixes paste")],
+                  },
+                },
+              ],
+            },
+          }),
+        ])
+      );
+
+      const pulls = await client.getRepositoryIssuesWithComments("owner/repo", {
+        kind: "prs",
+      });
+
+      expect(pulls[0].pullRequest).toEqual({
+        mergedAt: new Date("2023-01-03T00:00:00Z"),
+        linkedIssues: [1],
+      });
+      expect(pulls[0].comments.map((comment) => comment.path)).toEqual([
+        undefined,
+        "src/render.ts",
+      ]);
+    });
+
+    it("should use the GraphQL endpoint of GitHub Enterprise Server", async () => {
+      const enterpriseClient = new GitHubClient(
+        "test-token",
+        "https://github.example.com/api/v3"
+      );
+      mockAxiosInstance.request.mockResolvedValueOnce(page([]));
+
+      await enterpriseClient.getRepositoryIssuesWithComments("owner/repo");
+
+      expect(mockAxiosInstance.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: "https://github.example.com/api/graphql",
+        })
+      );
+    });
+
+    it("should surface GraphQL errors", async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        data: {
+          errors: [
+            {
+              type: "NOT_FOUND",
+              message: "Could not resolve to a Repository",
+            },
+          ],
+        },
+      });
+
+      await expect(
+        client.getRepositoryIssuesWithComments("owner/missing")
+      ).rejects.toMatchObject({ type: ErrorType.REPOSITORY_ACCESS });
+    });
+  });
+  describe("HTTP cache", () => {
+    let cacheDir: string;
+    let httpCache: HttpCache;
+    let cachedClient: GitHubClient;
+
+    const apiIssue = {
+      id: 1,
+      number: 1,
+      title: "Cached issue",
+      body: "Served from the cache",
+      labels: [],
+      state: "open",
+      created_at: "2024-01-01T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+      user: { login: "testuser" },
+      html_url: "https://github.com/owner/repo/issues/1",
+      comments: 0,
+    };
+
+    beforeEach(async () => {
+      cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "gh-cache-test-"));
+      httpCache = new HttpCache(cacheDir);
+      cachedClient = new GitHubClient("test-token", undefined, httpCache);
+    });
+
+    afterEach(async () => {
+      await fs.remove(cacheDir);
+    });
+
+    it("should store responses that carry an ETag", async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        status: 200,
+        data: [apiIssue],
+        headers: { etag: 'W/"v1"' },
+      });
+
+      await cachedClient.getRepositoryIssues("owner/repo");
+
+      expect((await httpCache.stats()).entries).toBe(1);
+    });
+
+    it("should send If-None-Match and serve 304 responses from the cache", async () => {
+      mockAxiosInstance.request
+        .mockResolvedValueOnce({
+          status: 200,
+          data: [apiIssue],
+          headers: { etag: 'W/"v1"' },
+        })
+        .mockResolvedValueOnce({ status: 304, data: "", headers: {} });
+
+      await cachedClient.getRepositoryIssues("owner/repo");
+      const issues = await cachedClient.getRepositoryIssues("owner/repo");
+
+      expect(mockAxiosInstance.request).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          headers: expect.objectContaining({ "If-None-Match": 'W/"v1"' }),
+        })
+      );
+      expect(issues).toHaveLength(1);
+      expect(issues[0].title).toBe("Cached issue");
+    });
+
+    it("should keep the responses of different GitHub instances apart", async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        status: 200,
+        data: [apiIssue],
+        headers: { etag: 'W/"v1"' },
+      });
+      const enterpriseClient = new GitHubClient(
+        "test-token",
+        "https://github.example.com/api/v3",
+        httpCache
+      );
+
+      await cachedClient.getRepositoryIssues("owner/repo");
+      await enterpriseClient.getRepositoryIssues("owner/repo");
+
+      expect((await httpCache.stats()).entries).toBe(2);
+    });
+
+    it("should not cache responses without validators", async () => {
+      mockAxiosInstance.request.mockResolvedValue({
+        status: 200,
+        data: [apiIssue],
+        headers: {},
+      });
+
+      await cachedClient.getRepositoryIssues("owner/repo");
+
+      expect((await httpCache.stats()).entries).toBe(0);
+    });
+  });
+
+  describe("record and replay", () => {
+    let fixtureDir: string;
+
+    beforeEach(async () => {
+      fixtureDir = await fs.mkdtemp(path.join(os.tmpdir(), "gh-traffic-test-"));
+    });
+
+    afterEach(async () => {
+      await fs.remove(fixtureDir);
+    });
+
+    it("should replay recorded responses without making requests", async () => {
+      const apiIssue = {
+        id: 7,
+        number: 7,
+        title: "Recorded issue",
+        body: "",
+        labels: [],
+        state: "open",
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+        user: { login: "testuser" },
+        html_url: "https://github.com/owner/repo/issues/7",
+        comments: 0,
+      };
+      mockAxiosInstance.request.mockResolvedValue({
+        status: 200,
+        data: [apiIssue],
+        headers: {},
+      });
+
+      const recording = new GitHubClient(
+        "test-token",
+        undefined,
+        undefined,
+        new TrafficRecorder(fixtureDir, "record")
+      );
+      await recording.getRepositoryIssues("owner/repo");
+
+      mockAxiosInstance.request.mockClear();
+      const replaying = new GitHubClient(
+        "",
+        undefined,
+        undefined,
+        new TrafficRecorder(fixtureDir, "replay")
+      );
+      const issues = await replaying.getRepositoryIssues("owner/repo");
+
+      expect(mockAxiosInstance.request).not.toHaveBeenCalled();
+      expect(issues[0].title).toBe("Recorded issue");
+    });
+  });
 });
@@ -0,0 +1,76 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import { HttpCache, HttpCacheEntry } from "../http-cache";
+
+describe("HttpCache", () => {
+  let cacheDir: string;
+  let cache: HttpCache;
+
+  const entry: HttpCacheEntry = {
+    url: "/repos/test/repo/issues",
+    params: { state: "open", page: 1 },
+    etag: 'W/"abc123"',
+    data: [{ id: 1, title: "Cached issue" }],
+    storedAt: "2024-01-01T00:00:00Z",
+  };
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "http-cache-test-"));
+    cache = new HttpCache(cacheDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(cacheDir);
+  });
+
+  it("should compute the same key regardless of parameter order", () => {
+    const first = HttpCache.computeKey("/repos/test/repo/issues", {
+      state: "open",
+      page: 1,
+    });
+    const second = HttpCache.computeKey("/repos/test/repo/issues", {
+      page: 1,
+      state: "open",
+    });
+
+    expect(first).toBe(second);
+    expect(first).not.toBe(
+      HttpCache.computeKey("/repos/test/repo/issues", {
+        state: "open",
+        page: 2,
+      })
+    );
+  });
+
+  it("should store and read back an entry", async () => {
+    const key = HttpCache.computeKey(entry.url, entry.params);
+
+    await cache.set(key, entry);
+
+    expect(await cache.get(key)).toEqual(entry);
+  });
+
+  it("should return undefined for missing or corrupt entries", async () => {
+    expect(await cache.get("missing")).toBeUndefined();
+
+    await fs.ensureDir(cacheDir);
+    await fs.writeFile(cache.getEntryPath("corrupt"), "{ not json");
+
+    expect(await cache.get("corrupt")).toBeUndefined();
+  });
+
+  it("should report statistics and clear all entries", async () => {
+    await cache.set("first", entry);
+    await cache.set("second", { ...entry, url: "/repos/test/repo" });
+
+    const stats = await cache.stats();
+    expect(stats.cacheDir).toBe(cacheDir);
+    expect(stats.entries).toBe(2);
+    expect(stats.totalBytes).toBeGreaterThan(0);
+    expect(stats.oldestEntry).toBeDefined();
+
+    expect(await cache.clear()).toBe(2);
+    expect((await cache.stats()).entries).toBe(0);
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  IssueClusterer,
+  LLMEmbedder,
+  TfIdfEmbedder,
+  mergeWorkarounds,
+} from "../issue-clusterer";
+import { JANClient } from "../jan-client";
+import { GitHubIssue, LLMWorkaround } from "../../models";
+
+describe("IssueClusterer", () => {
+  const workaround = (
+    description: string,
+    overrides: Partial<LLMWorkaround> = {}
+  ): LLMWorkaround => ({
+    description,
+    author: "maintainer1",
+    authorType: "maintainer",
+    effectiveness: "suggested",
+    confidence: 70,
+    ...overrides,
+  });
+
+  const issue = (
+    number: number,
+    title: string,
+    summary: string,
+    overrides: Partial<GitHubIssue> = {}
+  ): GitHubIssue => ({
+    id: number,
+    number,
+    title,
+    description: "",
+    labels: [],
+    state: "open",
+    createdAt: new Date(Date.UTC(2024, 2, number % 100)),
+    updatedAt: new Date(Date.UTC(2024, 2, 28)),
+    author: "reporter1",
+    url: `https://github.com/microsoft/vscode/issues/${number}`,
+    comments: [],
+    relevanceScore: 80,
+    category: "performance",
+    priority: "high",
+    summary,
+    workarounds: [],
+    tags: [],
+    sentiment: "negative",
+    ...overrides,
+  });
+
+  const issues = [
+    issue(
+      201005,
+      "Terminal freezes when printing very long lines",
+      "Printing long lines in the integrated terminal freezes the renderer",
+      {
+        workarounds: [
+          workaround("Turn off terminal GPU acceleration", {
+            effectiveness: "confirmed",
+            confidence: 90,
+          }),
+        ],
+      }
+    ),
+    issue(
+      201001,
+      "Integrated terminal freezes on long lines",
+      "The integrated terminal freezes when output has long lines",
+      {
+        workarounds: [
+          workaround("Set terminal GPU acceleration to off"),
+          workaround("Pipe the output through fold"),
+        ],
+      }
+    ),
+    issue(
+      201002,
+      "Terminal tabs lose their names after reload",
+      "Renamed terminal tabs go back to the shell name after reloading"
+    ),
+    issue(
+      201008,
+      "Long lines freeze the integrated terminal",
+      "The integrated terminal renderer freezes on long output lines"
+    ),
+    issue(
+      201004,
+      "Task output panel ignores ANSI colors",
+      "Output of tasks in a dedicated panel is shown without colors"
+    ),
+  ];
+
+  test("should group near-duplicate issues under the oldest one", async () => {
+    const clusters = await new IssueClusterer(new TfIdfEmbedder()).cluster(
+      issues
+    );
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].canonical).toMatchObject({
+      number: 201001,
+      similarity: 1,
+    });
+    expect(clusters[0].members.map((member) => member.number).sort()).toEqual([
+      201005, 201008,
+    ]);
+    expect(clusters[0].members[0].similarity).toBeGreaterThanOrEqual(0.5);
+    expect(clusters[0].workarounds.map((found) => found.description)).toEqual([
+      "Turn off terminal GPU acceleration",
+      "Pipe the output through fold",
+    ]);
+  });
+
+  test("should add issues closed as duplicates to the cluster of the original", async () => {
+    const duplicate = issue(
+      201009,
+      "Renderer hangs with wide rows",
+      "Output with wide rows hangs the renderer",
+      {
+        state: "closed",
+        resolution: {
+          type: "duplicate",
+          description: "Same freeze as #201001",
+          duplicateOf: 201001,
+        },
+      }
+    );
+
+    const clusters = await new IssueClusterer(new TfIdfEmbedder()).cluster([
+      ...issues,
+      duplicate,
+    ]);
+
+    expect(clusters[0].members.map((member) => member.number)).toContain(
+      201009
+    );
+  });
+
+  test("should leave issues below the threshold in clusters of their own", async () => {
+    const clusters = await new IssueClusterer(
+      new TfIdfEmbedder(),
+      undefined,
+      0.99
+    ).cluster(issues);
+
+    expect(clusters).toEqual([]);
+  });
+
+  test("should compare issues by the embeddings of the LLM server", async () => {
+    const janClient = new JANClient({
+      endpoint: "http://localhost:11434",
+      model: "llama3",
+    });
+    const embedSpy = jest
+      .spyOn(janClient, "createEmbeddings")
+      .mockResolvedValue([
+        [3, 4],
+        [0, 1],
+        [4, 3],
+      ]);
+
+    const clusters = await new IssueClusterer(
+      new LLMEmbedder(janClient, "nomic-embed-text")
+    ).cluster(issues.slice(0, 3));
+
+    expect(embedSpy).toHaveBeenCalledWith("nomic-embed-text", [
+      expect.stringContaining("Integrated terminal freezes on long lines"),
+      expect.stringContaining("Terminal tabs lose their names after reload"),
+      expect.stringContaining("Terminal freezes when printing very long lines"),
+    ]);
+    // Similarities to the oldest issue: 0.8 below the threshold, 0.96 above
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].canonical.number).toBe(201001);
+    expect(clusters[0].members).toEqual([
+      expect.objectContaining({ number: 201005, similarity: 0.96 }),
+    ]);
+  });
+
+  test("should fall back to the bundled vectorizer if embedding fails", async () => {
+    const janClient = new JANClient({
+      endpoint: "http://localhost:11434",
+      model: "llama3",
+    });
+    jest
+      .spyOn(janClient, "createEmbeddings")
+      .mockRejectedValue(new Error("model 'nomic-embed-text' not found"));
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation();
+
+    const clusters = await new IssueClusterer(
+      new LLMEmbedder(janClient, "nomic-embed-text"),
+      new TfIdfEmbedder()
+    ).cluster(issues);
+
+    expect(clusters).toHaveLength(1);
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining("using tf-idf instead")
+    );
+    warnSpy.mockRestore();
+  });
+
+  describe("mergeWorkarounds", () => {
+    test("should merge similar workarounds and keep the most effective wording", () => {
+      const merged = mergeWorkarounds([
+        issue(1, "A", "", {
+          workarounds: [workaround("Set terminal GPU acceleration to off")],
+        }),
+        issue(2, "B", "", {
+          workarounds: [
+            workaround("Turn terminal GPU acceleration off", {
+              effectiveness: "confirmed",
+            }),
+            workaround("Reinstall the extension"),
+          ],
+        }),
+      ]);
+
+      expect(merged).toEqual([
+        expect.objectContaining({
+          description: "Turn terminal GPU acceleration off",
+          effectiveness: "confirmed",
+          issueNumbers: [1, 2],
+        }),
+        expect.objectContaining({
+          description: "Reinstall the extension",
+          issueNumbers: [2],
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { IssuePrefilter } from "../issue-prefilter";
+import { Embedder } from "../issue-clusterer";
+import { RawGitHubIssue } from "../../models";
+
+describe("IssuePrefilter", () => {
+  const issue = (
+    number: number,
+    title: string,
+    body: string,
+    labels: string[] = []
+  ): RawGitHubIssue => ({
+    id: number,
+    number,
+    title,
+    body,
+    labels: labels.map((name) => ({ name })),
+    state: "open",
+    created_at: "2024-03-02T10:15:00Z",
+    updated_at: "2024-03-02T10:15:00Z",
+    user: { login: "reporter1" },
+    html_url: `https://github.com/microsoft/vscode/issues/${number}`,
+    comments_url: `https://api.github.com/repos/microsoft/vscode/issues/${number}/comments`,
+    comments: 0,
+  });
+
+  const issues = [
+    issue(
+      201003,
+      "Minimap does not highlight search results",
+      "Search matches aren't shown in the minimap since the last update."
+    ),
+    issue(
+      201001,
+      "Integrated terminal freezes when printing long lines",
+      "Running `cat` on a log file with very long lines makes the terminal hang.",
+      ["terminal", "perf"]
+    ),
+    issue(
+      201004,
+      "Task output panel ignores ANSI colors",
+      "Output of tasks is shown without colors, unlike the same command in a terminal."
+    ),
+    issue(
+      201002,
+      "Terminal tabs lose their names after reload",
+      "Renamed terminal tabs go back to the shell name.",
+      ["terminal"]
+    ),
+  ];
+
+  const embedder = (vectors: number[][]): Embedder => ({
+    name: "nomic-embed-text",
+    defaultThreshold: 0.85,
+    embed: jest.fn().mockResolvedValue(vectors),
+  });
+
+  test("should keep the top issues by BM25 in their fetch order", async () => {
+    const result = await new IssuePrefilter({ method: "bm25", topN: 2 }).filter(
+      issues,
+      "terminal"
+    );
+
+    expect(result.issues.map((kept) => kept.number)).toEqual([201001, 201002]);
+    expect(result.stats).toMatchObject({
+      method: "bm25",
+      topN: 2,
+      minScore: undefined,
+      candidates: 4,
+      kept: 2,
+    });
+    expect(result.stats.scores.map((score) => score.number)).toEqual([
+      201002, 201001, 201004, 201003,
+    ]);
+    expect(result.stats.scores[0].score).toBe(1);
+    expect(result.stats.cutoffScore).toBe(result.stats.scores[1].score);
+  });
+
+  test("should drop issues without the product area's words by default", async () => {
+    const result = await new IssuePrefilter({ method: "bm25" }).filter(
+      issues,
+      "terminal"
+    );
+
+    expect(result.stats.minScore).toBe(0.1);
+    expect(result.issues.map((kept) => kept.number)).toEqual([
+      201001, 201004, 201002,
+    ]);
+    expect(result.stats.scores[3]).toEqual({
+      number: 201003,
+      title: "Minimap does not highlight search results",
+      score: 0,
+      kept: false,
+    });
+  });
+
+  test("should keep all issues if none mentions the product area", async () => {
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation();
+
+    const result = await new IssuePrefilter({ method: "bm25", topN: 1 }).filter(
+      issues,
+      "notebooks"
+    );
+
+    expect(result.issues).toHaveLength(4);
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('No issue mentions "notebooks"')
+    );
+    warnSpy.mockRestore();
+  });
+
+  test("should score issues by their embedding similarity to the product area", async () => {
+    const vectors = embedder([
+      [1, 0],
+      [0.2, 0.98],
+      [0.96, 0.28],
+      [0.6, 0.8],
+      [0.8, 0.6],
+    ]);
+
+    const result = await new IssuePrefilter({
+      method: "embedding",
+      minScore: 0.7,
+      embedder: vectors,
+    }).filter(issues, "terminal");
+
+    expect(vectors.embed).toHaveBeenCalledWith([
+      "terminal",
+      expect.stringContaining("Minimap does not highlight search results"),
+      expect.stringContaining("Integrated terminal freezes"),
+      expect.stringContaining("Task output panel ignores ANSI colors"),
+      expect.stringContaining("Terminal tabs lose their names"),
+    ]);
+    expect(result.issues.map((kept) => kept.number)).toEqual([201001, 201002]);
+    expect(result.stats).toMatchObject({
+      method: "embedding",
+      kept: 2,
+      cutoffScore: 0.8,
+    });
+  });
+
+  test("should fall back to BM25 if embedding fails", async () => {
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation();
+    const failing: Embedder = {
+      name: "nomic-embed-text",
+      defaultThreshold: 0.85,
+      embed: jest.fn().mockRejectedValue(new Error("model not found")),
+    };
+
+    const result = await new IssuePrefilter({
+      method: "embedding",
+      embedder: failing,
+    }).filter(issues, "terminal");
+
+    expect(result.stats.method).toBe("bm25");
+    expect(result.stats.minScore).toBe(0.1);
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining("using bm25 instead")
+    );
+    warnSpy.mockRestore();
+  });
+});
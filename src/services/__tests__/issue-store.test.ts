@@ -0,0 +1,114 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import { IssueStore } from "../issue-store";
+import { RawGitHubIssue, RawComment } from "../../models";
+
+describe("IssueStore", () => {
+  let storeDir: string;
+  let store: IssueStore;
+
+  const mockIssue: RawGitHubIssue = {
+    id: 12345,
+    number: 42,
+    title: "Editor freezes on large files",
+    body: "Opening a 50MB file freezes the editor.",
+    labels: [{ name: "bug" }, { name: "performance" }],
+    state: "open",
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-02T00:00:00Z",
+    user: { login: "testuser" },
+    html_url: "https://github.com/test/repo/issues/42",
+    comments_url: "https://api.github.com/repos/test/repo/issues/42/comments",
+    comments: 1,
+  };
+
+  const mockComments: RawComment[] = [
+    {
+      id: 1001,
+      user: { login: "maintainer" },
+      body: "Disable word wrap as a workaround.",
+      created_at: "2024-01-01T12:00:00Z",
+      author_association: "MEMBER",
+    },
+  ];
+
+  beforeEach(async () => {
+    storeDir = await fs.mkdtemp(path.join(os.tmpdir(), "issue-store-test-"));
+    store = new IssueStore(storeDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(storeDir);
+  });
+
+  it("should return an empty store when none exists", async () => {
+    const data = await store.load("test/repo", "performance");
+
+    expect(data).toEqual({
+      repository: "test/repo",
+      productArea: "performance",
+      issues: {},
+    });
+  });
+
+  it("should save and load stored issues", async () => {
+    const data = await store.load("test/repo", "performance");
+    data.lastRunAt = "2024-01-03T00:00:00Z";
+    data.issues[mockIssue.id] = {
+      issue: mockIssue,
+      comments: mockComments,
+      contentHash: store.computeContentHash(mockIssue, mockComments),
+      analyzed: true,
+      analysisModel: "llama2",
+    };
+
+    await store.save(data);
+    const loaded = await store.load("test/repo", "performance");
+
+    expect(loaded.lastRunAt).toBe("2024-01-03T00:00:00Z");
+    expect(loaded.issues[mockIssue.id].comments).toEqual(mockComments);
+  });
+
+  it("should keep stores for different product areas separate", () => {
+    expect(store.getStorePath("test/repo", "performance")).not.toEqual(
+      store.getStorePath("test/repo", "authentication")
+    );
+  });
+
+  it("should keep stores for repositories with similar names separate", () => {
+    expect(store.getStorePath("a-b/c", "performance")).not.toEqual(
+      store.getStorePath("a/b-c", "performance")
+    );
+  });
+
+  it("should only change the content hash when analyzed content changes", () => {
+    const hash = store.computeContentHash(mockIssue, mockComments);
+
+    // Timestamps and label order don't affect the analysis
+    expect(
+      store.computeContentHash(
+        {
+          ...mockIssue,
+          updated_at: "2024-02-01T00:00:00Z",
+          labels: [{ name: "performance" }, { name: "bug" }],
+        },
+        mockComments
+      )
+    ).toEqual(hash);
+
+    expect(
+      store.computeContentHash(
+        { ...mockIssue, body: "Opening a 100MB file freezes the editor." },
+        mockComments
+      )
+    ).not.toEqual(hash);
+
+    expect(
+      store.computeContentHash(mockIssue, [
+        ...mockComments,
+        { ...mockComments[0], id: 1002, body: "Still happening" },
+      ])
+    ).not.toEqual(hash);
+  });
+});
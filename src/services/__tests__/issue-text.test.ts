@@ -0,0 +1,28 @@
+import { issueText, tokenize } from "../issue-text";
+
+describe("issue text", () => {
+  test("should repeat the title and cut the description", () => {
+    expect(
+      issueText(
+        {
+          title: "Terminal freezes",
+          details: "terminal perf",
+          description: "Long lines hang the renderer",
+        },
+        10
+      )
+    ).toBe("Terminal freezes\nTerminal freezes\nterminal perf\nLong lines");
+  });
+
+  test("should leave out missing parts", () => {
+    expect(issueText({ title: "Terminal freezes" }, 10)).toBe(
+      "Terminal freezes\nTerminal freezes"
+    );
+  });
+
+  test("should keep keywords without stop words, plurals as their singular", () => {
+    expect(
+      tokenize("Use the terminal with long lines instead of the PTY")
+    ).toEqual(["terminal", "long", "line", "pty"]);
+  });
+});
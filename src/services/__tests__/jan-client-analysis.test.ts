@@ -252,10 +252,14 @@ describe("JANClient Analysis", () => {
       });
     });
 
-    // Mock response parsing
+    // Mock response parsing, one issue of each batch relevant
     jest
       .spyOn(promptManager, "parseStructuredResponse")
-      .mockReturnValue(mockLLMResponse);
+      .mockReturnValueOnce(mockLLMResponse)
+      .mockReturnValueOnce({
+        ...mockLLMResponse,
+        relevantIssues: [{ ...mockLLMResponse.relevantIssues[0], id: 12346 }],
+      });
 
     // Execute analysis
     const result = await janClient.analyzeIssues(
@@ -1,6 +1,10 @@
 import { JANClient } from "../jan-client";
 import axios from "axios";
 import { ScraperError, ErrorType } from "../error-handler";
+import { TrafficRecorder } from "../traffic-recorder";
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
 
 // Mock axios
 jest.mock("axios");
@@ -177,4 +181,90 @@ describe("JANClient", () => {
       expect(updatedOptions.timeout).toEqual(initialOptions.timeout);
     });
   });
+
+  describe("getTokenBudget", () => {
+    it("should prefer the configured context window", async () => {
+      const janClient = new JANClient({ contextWindow: 8192 });
+
+      expect(await janClient.getTokenBudget()).toEqual({
+        contextWindow: 8192,
+        source: "configured",
+      });
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+
+    it("should use the context window the server reports", async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        status: 200,
+        data: { data: [{ id: "llama2", settings: { ctx_len: 2048 } }] },
+      });
+      const janClient = new JANClient();
+
+      expect(await janClient.getTokenBudget()).toEqual({
+        contextWindow: 2048,
+        source: "discovered",
+      });
+
+      // Resolved once per client
+      await janClient.getTokenBudget();
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("should fall back to the known window of the model", async () => {
+      mockedAxios.get
+        .mockRejectedValueOnce({ code: "ECONNREFUSED" })
+        .mockRejectedValueOnce({ code: "ECONNREFUSED" });
+
+      expect(
+        await new JANClient({ model: "mistral" }).getTokenBudget()
+      ).toEqual({ contextWindow: 32768, source: "known" });
+      expect(
+        await new JANClient({ model: "my-finetune" }).getTokenBudget()
+      ).toEqual({ contextWindow: 4096, source: "default" });
+    });
+  });
+
+  describe("replay", () => {
+    it("should serve recorded completions without contacting JAN", async () => {
+      const fixtureDir = await fs.mkdtemp(
+        path.join(os.tmpdir(), "jan-traffic-test-")
+      );
+      const messages = [{ role: "user" as const, content: "Analyze" }];
+      const completion = {
+        id: "chatcmpl-1",
+        object: "chat.completion",
+        created: 1700000000,
+        model: "llama2",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: "{}" },
+            finish_reason: "stop",
+          },
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+      };
+
+      try {
+        await new TrafficRecorder(fixtureDir, "record").record(
+          "llm",
+          { model: "llama2", messages, options: { temperature: 0.2 } },
+          { response: completion }
+        );
+
+        const janClient = new JANClient(
+          {},
+          new TrafficRecorder(fixtureDir, "replay")
+        );
+
+        expect(await janClient.validateConnection()).toBe(true);
+        expect(
+          await janClient.createCompletion(messages, { temperature: 0.2 })
+        ).toEqual(completion);
+        expect(mockedAxios.get).not.toHaveBeenCalled();
+      } finally {
+        await fs.remove(fixtureDir);
+      }
+    });
+  });
 });
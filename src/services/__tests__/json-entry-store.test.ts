@@ -0,0 +1,38 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import { JsonEntryStore } from "../json-entry-store";
+
+describe("JsonEntryStore", () => {
+  let cacheDir: string;
+  let store: JsonEntryStore<{ value: number }>;
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), "json-entry-store-"));
+    store = new JsonEntryStore(cacheDir, "test cache");
+  });
+
+  afterEach(async () => {
+    await fs.remove(cacheDir);
+  });
+
+  it("should only count entry files in statistics", async () => {
+    await store.set("first", { value: 1 });
+    await fs.writeFile(path.join(cacheDir, "notes.txt"), "not an entry");
+
+    expect((await store.stats()).entries).toBe(1);
+    expect(await store.clear()).toBe(1);
+  });
+
+  it("should warn instead of failing when an entry can't be written", async () => {
+    const warnSpy = jest.spyOn(console, "warn").mockImplementation();
+    await fs.remove(cacheDir);
+    await fs.writeFile(cacheDir, "a file where the directory should be");
+
+    await expect(store.set("first", { value: 1 })).resolves.toBeUndefined();
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Could not write test cache entry")
+    );
+    warnSpy.mockRestore();
+  });
+});
@@ -82,6 +82,7 @@ describe("LLM Integration", () => {
     promptManager = {
       createBatchPrompts: jest.fn(),
       parseStructuredResponse: jest.fn(),
+      createResponseSchema: () => new PromptManager().createResponseSchema(),
       formatIssueData: jest.fn((issue: any, comments: any) => {
         return `Issue #${issue.id}: ${issue.title}`;
       }),
@@ -0,0 +1,318 @@
+import axios from "axios";
+import {
+  createLLMProvider,
+  resolveLLMEndpoint,
+  DEFAULT_LLM_ENDPOINTS,
+} from "../llm-provider";
+import { JANClient } from "../jan-client";
+import { ScraperError } from "../error-handler";
+
+jest.mock("axios");
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe("LLM providers", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("resolveLLMEndpoint", () => {
+    it("should use the provider's default port when no endpoint is set", () => {
+      expect(resolveLLMEndpoint("ollama")).toBe(DEFAULT_LLM_ENDPOINTS.ollama);
+    });
+
+    it("should replace another provider's default endpoint", () => {
+      expect(resolveLLMEndpoint("ollama", "http://localhost:1337")).toBe(
+        "http://localhost:11434"
+      );
+    });
+
+    it("should keep a custom endpoint", () => {
+      expect(resolveLLMEndpoint("llamacpp", "http://gpu-box:9000")).toBe(
+        "http://gpu-box:9000"
+      );
+    });
+  });
+
+  describe("createLLMProvider", () => {
+    it("should default to JAN", () => {
+      const provider = createLLMProvider({
+        endpoint: "http://localhost:1337",
+        model: "llama2",
+      });
+
+      expect(provider.name).toBe("jan");
+    });
+
+    it("should create the selected provider", () => {
+      for (const name of ["ollama", "llamacpp", "openai"] as const) {
+        const provider = createLLMProvider({
+          provider: name,
+          endpoint: DEFAULT_LLM_ENDPOINTS[name],
+          model: "llama3",
+        });
+
+        expect(provider.name).toBe(name);
+      }
+    });
+  });
+
+  describe("Ollama", () => {
+    const provider = createLLMProvider({
+      provider: "ollama",
+      endpoint: "http://localhost:11434/",
+      model: "llama3",
+      timeout: 60000,
+    });
+
+    it("should list models from /api/tags", async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        status: 200,
+        data: { models: [{ name: "llama3:latest" }, { name: "mistral:7b" }] },
+      });
+
+      const models = await provider.listModels();
+
+      expect(models).toEqual(["llama3:latest", "mistral:7b"]);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        "http://localhost:11434/api/tags",
+        { timeout: 60000 }
+      );
+    });
+
+    it("should match untagged model names against the latest tag", () => {
+      expect(provider.hasModel("llama3", ["llama3:latest"])).toBe(true);
+      expect(provider.hasModel("mistral:7b", ["mistral:7b"])).toBe(true);
+      expect(provider.hasModel("mistral", ["mistral:7b"])).toBe(false);
+    });
+
+    it("should map a chat completion to the OpenAI format", async () => {
+      mockedAxios.post.mockResolvedValueOnce({
+        status: 200,
+        data: {
+          model: "llama3",
+          created_at: "2024-01-01T00:00:00Z",
+          message: { role: "assistant", content: '{"relevantIssues":[]}' },
+          done_reason: "stop",
+          prompt_eval_count: 120,
+          eval_count: 30,
+        },
+      });
+
+      const response = await provider.createChatCompletion({
+        model: "llama3",
+        messages: [{ role: "user", content: "Analyze" }],
+        temperature: 0.3,
+        max_tokens: 4000,
+        response_format: { type: "json_object" },
+      });
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        "http://localhost:11434/api/chat",
+        expect.objectContaining({
+          model: "llama3",
+          stream: false,
+          format: "json",
+          options: expect.objectContaining({
+            temperature: 0.3,
+            num_predict: 4000,
+          }),
+        }),
+        { timeout: 60000 }
+      );
+      expect(response.choices[0].message.content).toBe('{"relevantIssues":[]}');
+      expect(response.usage).toEqual({
+        prompt_tokens: 120,
+        completion_tokens: 30,
+        total_tokens: 150,
+      });
+    });
+
+    it("should embed texts with /api/embed", async () => {
+      mockedAxios.post.mockResolvedValueOnce({
+        status: 200,
+        data: {
+          model: "nomic-embed-text",
+          embeddings: [
+            [0.1, 0.2],
+            [0.3, 0.4],
+          ],
+        },
+      });
+
+      const embeddings = await provider.createEmbeddings("nomic-embed-text", [
+        "Terminal freezes",
+        "Terminal hangs",
+      ]);
+
+      expect(embeddings).toEqual([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        "http://localhost:11434/api/embed",
+        {
+          model: "nomic-embed-text",
+          input: ["Terminal freezes", "Terminal hangs"],
+        },
+        { timeout: 60000 }
+      );
+    });
+
+    it("should expose the HTTP status of failed requests", async () => {
+      mockedAxios.post.mockRejectedValueOnce({
+        message: "Request failed with status code 404",
+        response: { status: 404, data: { error: "model 'llama3' not found" } },
+      });
+
+      await expect(
+        provider.createChatCompletion({
+          model: "llama3",
+          messages: [{ role: "user", content: "Analyze" }],
+        })
+      ).rejects.toMatchObject({
+        status: 404,
+        message: "model 'llama3' not found",
+      });
+    });
+  });
+
+  describe("llama.cpp", () => {
+    it("should accept any model name once a model is loaded", () => {
+      const provider = createLLMProvider({
+        provider: "llamacpp",
+        endpoint: "http://localhost:8080/v1",
+        model: "llama3",
+      });
+
+      expect(provider.hasModel("llama3", ["model.gguf"])).toBe(true);
+      expect(provider.hasModel("llama3", [])).toBe(false);
+    });
+  });
+
+  describe("getContextWindow", () => {
+    it("should read num_ctx from an Ollama Modelfile", async () => {
+      mockedAxios.post.mockResolvedValueOnce({
+        status: 200,
+        data: { parameters: "stop <|eot_id|>\nnum_ctx 8192" },
+      });
+      const provider = createLLMProvider({
+        provider: "ollama",
+        endpoint: "http://localhost:11434",
+        model: "llama3",
+      });
+
+      await expect(provider.getContextWindow("llama3")).resolves.toBe(8192);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        "http://localhost:11434/api/show",
+        { model: "llama3" },
+        { timeout: 5000 }
+      );
+    });
+
+    it("should send Ollama's context size with each request", async () => {
+      mockedAxios.post
+        .mockResolvedValueOnce({ status: 200, data: {} })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: { model: "llama3", message: { content: "{}" } },
+        });
+      const provider = createLLMProvider({
+        provider: "ollama",
+        endpoint: "http://localhost:11434",
+        model: "llama3",
+      });
+
+      // Without num_ctx in the Modelfile, Ollama's default applies
+      await expect(provider.getContextWindow("llama3")).resolves.toBe(4096);
+      await provider.createChatCompletion({
+        model: "llama3",
+        messages: [{ role: "user", content: "Analyze" }],
+      });
+
+      expect(mockedAxios.post).toHaveBeenLastCalledWith(
+        "http://localhost:11434/api/chat",
+        expect.objectContaining({
+          options: expect.objectContaining({ num_ctx: 4096 }),
+        }),
+        expect.anything()
+      );
+    });
+
+    it("should read the context size of a llama.cpp server", async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        status: 200,
+        data: { default_generation_settings: { n_ctx: 16384 } },
+      });
+      const provider = createLLMProvider({
+        provider: "llamacpp",
+        endpoint: "http://localhost:8080",
+        model: "llama3",
+      });
+
+      await expect(provider.getContextWindow("llama3")).resolves.toBe(16384);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        "http://localhost:8080/props",
+        { timeout: 5000 }
+      );
+    });
+
+    it("should read max_model_len from a vLLM model list", async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        status: 200,
+        data: {
+          data: [
+            { id: "qwen2.5-7b", max_model_len: 32768 },
+            { id: "llama3", max_model_len: 8192 },
+          ],
+        },
+      });
+      const provider = createLLMProvider({
+        provider: "openai",
+        endpoint: "http://localhost:8000",
+        model: "llama3",
+      });
+
+      await expect(provider.getContextWindow("llama3")).resolves.toBe(8192);
+    });
+  });
+
+  describe("JANClient with a provider", () => {
+    it("should validate the model through the provider", async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce({ status: 200, data: { version: "0.3.0" } })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: { models: [{ name: "llama3:latest" }] },
+        });
+
+      const client = new JANClient({
+        provider: "ollama",
+        endpoint: "http://localhost:11434",
+        model: "llama3",
+      });
+
+      await expect(client.validateModel()).resolves.toBe(true);
+    });
+
+    it("should name the provider when the model is missing", async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce({ status: 200, data: { version: "0.3.0" } })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: { models: [{ name: "mistral:7b" }] },
+        });
+
+      const client = new JANClient({
+        provider: "ollama",
+        endpoint: "http://localhost:11434",
+        model: "llama3",
+      });
+
+      const validation = client.validateModel();
+      await expect(validation).rejects.toThrow(ScraperError);
+      await expect(validation).rejects.toThrow(
+        "Model 'llama3' is not loaded in Ollama"
+      );
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import axios from "axios";
+import { MockLLMServer } from "../mock-llm-server";
+import { JANClient } from "../jan-client";
+import { PromptManager } from "../prompt-manager";
+import { RawGitHubIssue } from "../../models";
+
+describe("MockLLMServer", () => {
+  let server: MockLLMServer;
+
+  const issuePrompt = (ids: number[]) =>
+    ids
+      .map((id) => `ISSUE #${id - 1000} (ID: ${id})\nTITLE: Issue ${id}\n`)
+      .join("\n==========\n");
+
+  const complete = (url: string, content: string) =>
+    axios.post(
+      `${url}/v1/chat/completions`,
+      { model: "llama2", messages: [{ role: "user", content }] },
+      { validateStatus: () => true }
+    );
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it("should serve health and model endpoints", async () => {
+    server = new MockLLMServer({ port: 0, models: ["llama2", "mistral"] });
+    const url = await server.start();
+
+    expect((await axios.get(`${url}/health`)).status).toBe(200);
+    const models = await axios.get(`${url}/v1/models`);
+    expect(models.data.data.map((model: any) => model.id)).toEqual([
+      "llama2",
+      "mistral",
+    ]);
+  });
+
+  it("should analyze every issue in the prompt", async () => {
+    server = new MockLLMServer({ port: 0 });
+    const url = await server.start();
+
+    const response = await complete(url, issuePrompt([1001, 1002]));
+    const analysis = JSON.parse(response.data.choices[0].message.content);
+
+    expect(analysis.relevantIssues.map((issue: any) => issue.id)).toEqual([
+      1001, 1002,
+    ]);
+    expect(analysis.relevantIssues[0]).toMatchObject({
+      title: "Issue 1001",
+      relevanceScore: expect.any(Number),
+      priority: expect.stringMatching(/^(high|medium|low)$/),
+    });
+    expect(analysis.summary.totalAnalyzed).toBe(2);
+    expect(response.data.usage.total_tokens).toBeGreaterThan(0);
+  });
+
+  it("should fail only the first completions with a failure count", async () => {
+    server = new MockLLMServer({
+      port: 0,
+      failureMode: "rate-limit",
+      failureCount: 1,
+    });
+    const url = await server.start();
+
+    const limited = await complete(url, issuePrompt([1001]));
+    expect(limited.status).toBe(429);
+    expect(limited.headers["retry-after"]).toBe("1");
+
+    expect((await complete(url, issuePrompt([1001]))).status).toBe(200);
+    expect(server.getStats()).toEqual({ completions: 2, failures: 1 });
+  });
+
+  it("should report context length errors", async () => {
+    server = new MockLLMServer({ port: 0, failureMode: "context-length" });
+    const url = await server.start();
+
+    const response = await complete(url, issuePrompt([1001]));
+
+    expect(response.status).toBe(400);
+    expect(response.data.error.code).toBe("context_length_exceeded");
+  });
+
+  it("should not answer in timeout mode", async () => {
+    server = new MockLLMServer({ port: 0, failureMode: "timeout" });
+    const url = await server.start();
+
+    await expect(
+      axios.post(`${url}/v1/chat/completions`, {}, { timeout: 200 })
+    ).rejects.toMatchObject({ code: "ECONNABORTED" });
+  });
+
+  it("should let JANClient recover from a malformed response", async () => {
+    server = new MockLLMServer({
+      port: 0,
+      failureMode: "malformed",
+      failureCount: 1,
+    });
+    const url = await server.start();
+    const issue: RawGitHubIssue = {
+      id: 1001,
+      number: 1,
+      title: "Editor freezes on large files",
+      body: "Opening a 50MB file freezes the editor.",
+      labels: [],
+      state: "open",
+      created_at: "2024-01-01T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+      user: { login: "testuser" },
+      html_url: "https://github.com/test/repo/issues/1",
+      comments_url: "https://api.github.com/repos/test/repo/issues/1/comments",
+      comments: 0,
+    };
+
+    const janClient = new JANClient({ endpoint: url, maxRetries: 1 });
+    const result = await janClient.analyzeIssues(
+      [issue],
+      new Map(),
+      "performance",
+      new PromptManager(),
+      1
+    );
+
+    // The simplified-prompt fallback gets the valid second response
+    expect(result.relevantIssues.map((analyzed) => analyzed.id)).toEqual([
+      1001,
+    ]);
+    expect(server.getStats()).toEqual({ completions: 2, failures: 1 });
+  });
+});
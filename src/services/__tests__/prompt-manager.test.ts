@@ -1,5 +1,10 @@
 import { PromptManager } from "../prompt-manager";
 import { RawGitHubIssue, RawComment } from "../../models";
+import {
+  TokenBudget,
+  estimateTokens,
+  estimateMessageTokens,
+} from "../token-budget";
 
 describe("PromptManager", () => {
   let promptManager: PromptManager;
@@ -82,6 +87,117 @@ describe("PromptManager", () => {
     expect(formattedIssue).not.toContain("COMMENTS (");
   });
 
+  test("formatIssueData should describe pull requests and review comments", () => {
+    const pullRequest: RawGitHubIssue = {
+      ...mockIssue,
+      number: 43,
+      title: "Stream image uploads",
+      pull_request: { merged_at: null, linked_issues: [42] },
+    };
+
+    const formatted = promptManager.formatIssueData(pullRequest, [
+      { ...mockComments[0], path: "src/upload.ts" },
+    ]);
+
+    expect(formatted).toContain("PULL REQUEST #43");
+    expect(formatted).toContain("PULL REQUEST STATUS: open");
+    expect(formatted).toContain("LINKED ISSUES: #42");
+    expect(formatted).toContain(
+      "REVIEW COMMENT ON: src/upload.ts\nCOMMENT BY: maintainer"
+    );
+  });
+
+  test("formatIssueData should include reaction counts", () => {
+    const formatted = promptManager.formatIssueData(
+      { ...mockIssue, reactions: { total_count: 12, "+1": 9 } },
+      [{ ...mockComments[0], reactions: { total_count: 5, "+1": 5 } }]
+    );
+
+    expect(formatted).toContain("REACTIONS: 12 (9 thumbs up)");
+    expect(formatted).toContain(
+      "REACTIONS: 5 (5 thumbs up)\nThis is a known issue"
+    );
+  });
+
+  test("formatIssueData should render summaries of condensed comments", () => {
+    const formatted = promptManager.formatIssueData(mockIssue, [
+      mockComments[0],
+      {
+        ...mockComments[1],
+        user: { login: "summary" },
+        body: "Users report the crash on Android 14 only.",
+        summaryOf: 40,
+      },
+    ]);
+
+    expect(formatted).toContain("COMMENTS (41):");
+    expect(formatted).toContain(
+      "SUMMARY OF 40 COMMENTS\nFROM: 2023-01-02T12:00:00Z\nUsers report"
+    );
+    expect(formatted).not.toContain("COMMENT BY: summary");
+  });
+
+  test("buildThreadSummaryPrompt should include the comments to summarize", () => {
+    const messages = promptManager.buildThreadSummaryPrompt(
+      mockIssue,
+      mockComments,
+      "image uploads"
+    );
+
+    expect(messages).toHaveLength(2);
+    expect(messages[1].content).toContain(`#${mockIssue.number}`);
+    expect(messages[1].content).toContain('"image uploads"');
+    expect(messages[1].content).toContain("COMMENT BY: user123");
+  });
+
+  test("buildAnalysisPrompt should only ask to analyze pull requests as fixes when present", () => {
+    const issuePrompt = promptManager.buildAnalysisPrompt(
+      [mockIssue],
+      new Map(),
+      "image uploads"
+    );
+    const pullRequestPrompt = promptManager.buildAnalysisPrompt(
+      [{ ...mockIssue, pull_request: { merged_at: null, linked_issues: [] } }],
+      new Map(),
+      "image uploads"
+    );
+
+    expect(issuePrompt[1].content).not.toContain("candidate fix");
+    expect(pullRequestPrompt[1].content).toContain(
+      'Analyze each pull request as a candidate fix or workaround for the product area "image uploads"'
+    );
+  });
+
+  test("buildAnalysisPrompt should ask for resolutions of closed issues", () => {
+    const closedIssue: RawGitHubIssue = {
+      ...mockIssue,
+      state: "closed",
+      closed_at: "2023-01-05T00:00:00Z",
+      state_reason: "completed",
+    };
+
+    const openPrompt = promptManager.buildAnalysisPrompt(
+      [mockIssue],
+      new Map(),
+      "image uploads"
+    );
+    const closedPrompt = promptManager.buildAnalysisPrompt(
+      [closedIssue],
+      new Map(),
+      "image uploads"
+    );
+
+    expect(openPrompt[1].content).not.toContain(
+      "describing how it was resolved"
+    );
+    expect(closedPrompt[1].content).toContain(
+      "CLOSED: 2023-01-05T00:00:00Z (reason: completed)"
+    );
+    expect(closedPrompt[1].content).toContain(
+      'add a "resolution" describing how it was resolved'
+    );
+  });
+
   test("buildAnalysisPrompt should create a complete prompt with system and user messages", () => {
     const commentsMap = new Map<number, RawComment[]>();
     commentsMap.set(mockIssue.id, mockComments);
@@ -172,6 +288,61 @@ describe("PromptManager", () => {
     expect(batches[1][1].content).toContain(mockIssue.title);
   });
 
+  describe("token budget packing", () => {
+    const budget: TokenBudget = { contextWindow: 4096, source: "known" };
+
+    test("packIssueBatches should fit batches into the context window", () => {
+      const longIssue = { ...mockIssue, body: "x".repeat(6000) };
+      const issues = [mockIssue, longIssue, { ...mockIssue, id: 12346 }];
+      promptManager.setTokenBudget(budget);
+
+      const batches = promptManager.packIssueBatches(
+        issues,
+        new Map(),
+        "image processing",
+        8
+      );
+
+      // The long issue doesn't fit next to another one
+      expect(batches).toEqual([[mockIssue], [longIssue], [issues[2]]]);
+
+      for (const batch of batches) {
+        const prompt = promptManager.buildAnalysisPrompt(
+          batch,
+          new Map(),
+          "image processing"
+        );
+        expect(estimateMessageTokens(prompt)).toBeLessThan(
+          budget.contextWindow
+        );
+      }
+    });
+
+    test("packIssueBatches should respect the batch size within the budget", () => {
+      const issues = [mockIssue, { ...mockIssue, id: 12346 }];
+      promptManager.setTokenBudget({ contextWindow: 32768, source: "known" });
+
+      expect(
+        promptManager.packIssueBatches(issues, new Map(), "images", 1)
+      ).toHaveLength(2);
+      expect(
+        promptManager.packIssueBatches(issues, new Map(), "images", 5)
+      ).toHaveLength(1);
+    });
+
+    test("estimateIssueTokens should grow with comments", () => {
+      expect(
+        promptManager.estimateIssueTokens(mockIssue, mockComments)
+      ).toBeGreaterThan(promptManager.estimateIssueTokens(mockIssue));
+    });
+
+    test("estimatePromptOverheadTokens should cover the schema", () => {
+      expect(
+        promptManager.estimatePromptOverheadTokens("image processing")
+      ).toBeGreaterThan(estimateTokens(promptManager.createResponseSchema()));
+    });
+  });
+
   test("parseStructuredResponse should parse valid JSON responses", () => {
     const validResponse = JSON.stringify({
       relevantIssues: [
@@ -244,4 +415,18 @@ I hope this helps!`;
 
     expect(parsed).toBeNull();
   });
+
+  test("getPromptVersion should change when the system prompt changes", () => {
+    const version = promptManager.getPromptVersion();
+
+    expect(version).toMatch(/^[0-9a-f]{12}$/);
+    expect(new PromptManager().getPromptVersion()).toBe(version);
+
+    jest.spyOn(promptManager, "createSystemPrompt").mockReturnValue({
+      role: "system",
+      content: "A different system prompt",
+    });
+
+    expect(promptManager.getPromptVersion()).not.toBe(version);
+  });
 });
@@ -0,0 +1,127 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { PromptManager } from "../prompt-manager";
+import { PromptTemplates } from "../prompt-templates";
+import { ScraperError } from "../error-handler";
+import { RawGitHubIssue } from "../../models";
+
+describe("PromptTemplates", () => {
+  let tempDir: string;
+
+  const issue = {
+    id: 101,
+    number: 1,
+    title: "Terminal freezes on long lines",
+    body: "The terminal hangs",
+    labels: [],
+    state: "open",
+    created_at: "2024-03-02T10:15:00Z",
+    updated_at: "2024-03-02T10:15:00Z",
+    user: { login: "reporter1" },
+    html_url: "https://github.com/test/repo/issues/1",
+  } as unknown as RawGitHubIssue;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "prompt-templates-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  test("should render the built-in prompts with their declared version", () => {
+    const promptManager = new PromptManager();
+
+    expect(PromptTemplates.builtIn().version).toBe("1.1.0");
+    expect(promptManager.getTemplateVersion()).toBe("1.1.0");
+    expect(promptManager.getPromptVersionLabel()).toBe(
+      `1.1.0+${promptManager.getPromptVersion()}`
+    );
+    // Instructions for pull requests and closed issues are left out
+    const [, userPrompt] = promptManager.buildAnalysisPrompt(
+      [issue],
+      new Map(),
+      "terminal"
+    );
+    expect(userPrompt.content).toContain(
+      'following GitHub issues for the product area: "terminal"'
+    );
+    expect(userPrompt.content).not.toContain("Some items are pull requests");
+    expect(userPrompt.content).toContain(
+      "in your response.\n\nHere are the issues to analyze:"
+    );
+  });
+
+  test("should override built-in templates with a project's prompt directory", async () => {
+    await fs.writeJson(path.join(tempDir, "manifest.json"), {
+      version: "terminal-2",
+    });
+    await fs.writeFile(
+      path.join(tempDir, "analysis.hbs"),
+      "Find {{productArea}} issues.\n{{issues}}\n{{schema}}\n"
+    );
+    const promptManager = new PromptManager();
+    const builtInVersion = promptManager.getPromptVersion();
+
+    await promptManager.loadTemplates(tempDir);
+
+    const [systemPrompt, userPrompt] = promptManager.buildAnalysisPrompt(
+      [issue],
+      new Map(),
+      "terminal"
+    );
+    expect(systemPrompt).toEqual(new PromptManager().createSystemPrompt());
+    expect(userPrompt.content).toMatch(/^Find terminal issues\.\n\nISSUE #1/);
+    expect(userPrompt.content).toMatch(/"relevantIssues"[\s\S]*\}$/);
+    expect(promptManager.getTemplateVersion()).toBe("terminal-2");
+    expect(promptManager.getPromptVersion()).not.toBe(builtInVersion);
+  });
+
+  test("should use the project's few-shot example", async () => {
+    const example = { relevantIssues: [], summary: { totalAnalyzed: 0 } };
+    await fs.writeJson(path.join(tempDir, "manifest.json"), {
+      version: "1.1.0",
+    });
+    await fs.writeJson(path.join(tempDir, "few-shot-example.json"), example);
+    const promptManager = new PromptManager();
+
+    await promptManager.loadTemplates(tempDir);
+
+    expect(JSON.parse(promptManager.createFewShotExample().content)).toEqual(
+      example
+    );
+  });
+
+  test("should reject prompt directories without a manifest", async () => {
+    await fs.writeFile(path.join(tempDir, "system.hbs"), "You analyze issues.");
+
+    await expect(PromptTemplates.load(tempDir)).rejects.toBeInstanceOf(
+      ScraperError
+    );
+  });
+
+  test("should reject manifests without a version", async () => {
+    await fs.writeJson(path.join(tempDir, "manifest.json"), {
+      description: "Terminal prompts",
+    });
+
+    await expect(PromptTemplates.load(tempDir)).rejects.toThrow(
+      "doesn't declare a version"
+    );
+  });
+
+  test("should reject templates with unknown variables", async () => {
+    await fs.writeJson(path.join(tempDir, "manifest.json"), {
+      version: "1.0.1",
+    });
+    await fs.writeFile(
+      path.join(tempDir, "pull-requests.hbs"),
+      "Pull requests for {{prodcutArea}}"
+    );
+
+    await expect(PromptTemplates.load(tempDir)).rejects.toThrow(
+      "Invalid prompt template pull-requests.hbs"
+    );
+  });
+});
@@ -0,0 +1,460 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import {
+  ReportGenerator,
+  ReportMetadata,
+  JSON_REPORT_SCHEMA_VERSION,
+} from "../report-generator";
+import { Config, GitHubIssue, IssueCluster } from "../../models";
+
+describe("ReportGenerator output formats", () => {
+  let reportGenerator: ReportGenerator;
+  let mockIssues: GitHubIssue[];
+  let mockMetadata: ReportMetadata;
+
+  const cluster: IssueCluster = {
+    canonical: {
+      id: 456,
+      number: 456,
+      title: "Performance issue with large datasets",
+      url: "https://github.com/test/repo/issues/456",
+      relevanceScore: 72,
+      similarity: 1,
+    },
+    members: [
+      {
+        id: 789,
+        number: 789,
+        title: "Large datasets are slow",
+        url: "https://github.com/test/repo/issues/789",
+        relevanceScore: 60,
+        similarity: 0.62,
+      },
+    ],
+    workarounds: [
+      {
+        description: "Split datasets into chunks",
+        author: "maintainer1",
+        authorType: "maintainer",
+        effectiveness: "confirmed",
+        confidence: 80,
+        issueNumbers: [456, 789],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    reportGenerator = new ReportGenerator();
+
+    mockIssues = [
+      {
+        id: 456,
+        number: 456,
+        title: "Performance issue with large datasets",
+        description: "Application becomes slow with datasets over 10MB",
+        labels: ["performance"],
+        state: "open",
+        createdAt: new Date("2024-01-10T00:00:00Z"),
+        updatedAt: new Date("2024-01-18T00:00:00Z"),
+        author: "developer1",
+        url: "https://github.com/test/repo/issues/456",
+        comments: [],
+        relevanceScore: 72,
+        category: "Performance",
+        priority: "medium",
+        summary: "Slow processing of large datasets",
+        workarounds: [],
+        tags: ["performance"],
+        sentiment: "neutral",
+      },
+      {
+        id: 123,
+        number: 123,
+        title: "Authentication fails with OAuth",
+        description: "Users can't log in with OAuth",
+        labels: ["bug", "authentication"],
+        state: "open",
+        createdAt: new Date("2024-01-15T00:00:00Z"),
+        updatedAt: new Date("2024-01-20T00:00:00Z"),
+        author: "user123",
+        url: "https://github.com/test/repo/issues/123",
+        comments: [
+          {
+            id: 789,
+            author: "maintainer1",
+            body: "Use API keys for now",
+            createdAt: new Date("2024-01-16T00:00:00Z"),
+            authorType: "maintainer",
+          },
+        ],
+        relevanceScore: 85,
+        category: "Authentication",
+        priority: "high",
+        summary: "OAuth login flow is broken",
+        workarounds: [
+          {
+            description: "Use API key authentication",
+            author: "maintainer1",
+            authorType: "maintainer",
+            effectiveness: "confirmed",
+            confidence: 90,
+          },
+        ],
+        tags: ["auth", "oauth"],
+        sentiment: "negative",
+      },
+    ];
+
+    mockMetadata = {
+      repositoryName: "test-repo",
+      repositoryUrl: "https://github.com/test/test-repo",
+      productArea: "authentication",
+      scrapeDate: new Date("2024-01-25T10:00:00Z"),
+      totalIssuesAnalyzed: 100,
+      relevantIssuesFound: 2,
+      minRelevanceScore: 30,
+      generatedBy: "GitHub Issue Scraper v1.0.0",
+      analysisModel: "llama2",
+      processingStats: {
+        batchCount: 20,
+        totalTokensUsed: 48000,
+        analysisTime: 120000,
+      },
+    };
+  });
+
+  describe("generateJsonReport", () => {
+    it("should produce a versioned document with metadata and stats", () => {
+      const document = JSON.parse(
+        reportGenerator.generateJsonReport(mockIssues, mockMetadata)
+      );
+
+      expect(document.schema).toBe("github-issue-scraper/report");
+      expect(document.schemaVersion).toBe(JSON_REPORT_SCHEMA_VERSION);
+      expect(document.metadata.scrapeDate).toBe("2024-01-25T10:00:00.000Z");
+      expect(document.metadata.processingStats).toBeUndefined();
+      expect(document.processingStats).toEqual(mockMetadata.processingStats);
+    });
+
+    it("should include all issue fields sorted by relevance", () => {
+      const document = JSON.parse(
+        reportGenerator.generateJsonReport(mockIssues, mockMetadata)
+      );
+
+      expect(document.issues.map((issue: any) => issue.number)).toEqual([
+        123, 456,
+      ]);
+      expect(document.issues[0].createdAt).toBe("2024-01-15T00:00:00.000Z");
+      expect(document.issues[0].comments[0].createdAt).toBe(
+        "2024-01-16T00:00:00.000Z"
+      );
+      expect(document.issues[0].workarounds[0].confidence).toBe(90);
+    });
+
+    it("should match the required fields of the published schema", async () => {
+      const schema = await fs.readJson(
+        path.join(__dirname, "../../../docs/report-schema.json")
+      );
+      const document = JSON.parse(
+        reportGenerator.generateJsonReport(mockIssues, mockMetadata)
+      );
+
+      for (const key of schema.required) {
+        expect(document).toHaveProperty(key);
+      }
+      for (const key of schema.properties.metadata.required) {
+        expect(document.metadata).toHaveProperty(key);
+      }
+      for (const key of schema.definitions.issue.required) {
+        expect(document.issues[0]).toHaveProperty(key);
+      }
+      expect(document.schemaVersion).toMatch(
+        new RegExp(schema.properties.schemaVersion.pattern)
+      );
+    });
+
+    it("should list duplicate clusters at the top level", () => {
+      const document = JSON.parse(
+        reportGenerator.generateJsonReport(mockIssues, {
+          ...mockMetadata,
+          clusters: [cluster],
+        })
+      );
+
+      expect(document.clusters).toEqual([cluster]);
+      expect(document.metadata.clusters).toBeUndefined();
+      expect(
+        JSON.parse(reportGenerator.generateJsonReport(mockIssues, mockMetadata))
+          .clusters
+      ).toBeNull();
+    });
+
+    it("should use null processing stats when none were recorded", () => {
+      const { processingStats, ...metadata } = mockMetadata;
+      const document = JSON.parse(
+        reportGenerator.generateJsonReport(mockIssues, metadata)
+      );
+
+      expect(document.processingStats).toBeNull();
+    });
+  });
+
+  describe("generateCsvReports", () => {
+    it("should write one row per issue with a header", () => {
+      const { issues } = reportGenerator.generateCsvReports(mockIssues);
+      const rows = issues.replace(/^\uFEFF/, "").split("\r\n");
+
+      expect(rows[0]).toBe(
+        "number,title,url,relevanceScore,category,priority,sentiment,tags,summary,workaroundCount,bestWorkaroundEffectiveness,kind,linkedPullRequests,state,resolution"
+      );
+      expect(rows[1]).toBe(
+        "123,Authentication fails with OAuth,https://github.com/test/repo/issues/123,85,Authentication,high,negative,auth; oauth,OAuth login flow is broken,1,confirmed,issue,,open,"
+      );
+      expect(rows[2]).toMatch(/^456,.*,0,,issue,,open,$/);
+      expect(rows[3]).toBe("");
+    });
+
+    it("should quote fields with commas, quotes and line breaks", () => {
+      mockIssues[1].summary = 'Fails with "invalid_grant",\nthen retries';
+
+      const { issues } = reportGenerator.generateCsvReports(mockIssues);
+
+      expect(issues).toContain(
+        ',"Fails with ""invalid_grant"",\nthen retries",'
+      );
+    });
+
+    it("should prevent spreadsheet formula injection", () => {
+      mockIssues[1].title = '=HYPERLINK("http://evil")';
+
+      const { issues } = reportGenerator.generateCsvReports(mockIssues);
+
+      expect(issues).toContain(`,"'=HYPERLINK(""http://evil"")",`);
+    });
+
+    it("should describe the resolution of closed issues", () => {
+      mockIssues[1].state = "closed";
+      mockIssues[1].resolution = {
+        type: "fixed",
+        description: "Token refresh was fixed",
+        version: "1.8.2",
+      };
+
+      const { issues } = reportGenerator.generateCsvReports(mockIssues);
+
+      expect(issues).toContain(
+        ",closed,Fixed in 1.8.2: Token refresh was fixed\r\n"
+      );
+    });
+
+    it("should write one row per workaround", () => {
+      const { workarounds } = reportGenerator.generateCsvReports(mockIssues);
+      const rows = workarounds
+        .replace(/^\uFEFF/, "")
+        .trim()
+        .split("\r\n");
+
+      expect(rows).toHaveLength(2);
+      expect(rows[1]).toBe(
+        "123,Authentication fails with OAuth,https://github.com/test/repo/issues/123,Use API key authentication,maintainer1,maintainer,confirmed,90"
+      );
+    });
+  });
+
+  describe("generateHtmlReport", () => {
+    it("should produce a self-contained page", () => {
+      const html = reportGenerator.generateHtmlReport(mockIssues, mockMetadata);
+
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain("<style>");
+      expect(html).toContain("<script>");
+      expect(html).not.toMatch(/<script[^>]+src=/);
+      expect(html).not.toMatch(/<link[^>]+href=/);
+    });
+
+    it("should render one filterable row per issue", () => {
+      const html = reportGenerator.generateHtmlReport(mockIssues, mockMetadata);
+
+      expect(html.match(/<tr class="issue"/g)).toHaveLength(2);
+      expect(html).toContain('data-category="Authentication"');
+      expect(html).toContain('data-tags="auth\noauth"');
+      expect(html).toContain('<option value="oauth">oauth</option>');
+      expect(html).toContain("<summary>Summary and 1 workaround</summary>");
+      expect(html.indexOf("#123")).toBeLessThan(html.indexOf("#456"));
+    });
+
+    it("should list duplicate clusters with their merged workarounds", () => {
+      const html = reportGenerator.generateHtmlReport(mockIssues, {
+        ...mockMetadata,
+        clusters: [cluster],
+      });
+
+      expect(html).toContain("<h2>Duplicate clusters (1)</h2>");
+      expect(html).toContain(
+        '<a href="https://github.com/test/repo/issues/789">#789</a> Large datasets are slow (62% similar)'
+      );
+      expect(html).toContain("Split datasets into chunks (#456, #789)");
+      expect(
+        reportGenerator.generateHtmlReport(mockIssues, mockMetadata)
+      ).not.toContain('<section class="clusters">');
+    });
+
+    it("should show the resolution in the issue details", () => {
+      mockIssues[1].resolution = {
+        type: "duplicate",
+        description: "Tracked in the SSO issue",
+        duplicateOf: 42,
+      };
+
+      const html = reportGenerator.generateHtmlReport(mockIssues, mockMetadata);
+
+      expect(html).toContain(
+        "<strong>Resolution:</strong> Duplicate of #42: Tracked in the SSO issue"
+      );
+    });
+
+    it("should escape issue and LLM text", () => {
+      mockIssues[1].title = '<img src=x onerror="alert(1)">';
+      mockIssues[1].workarounds[0].description = "</script><script>x()";
+
+      const html = reportGenerator.generateHtmlReport(mockIssues, mockMetadata);
+
+      expect(html).not.toContain("<img src=x");
+      expect(html).toContain("&lt;img src=x onerror=&quot;alert(1)&quot;&gt;");
+      expect(html).toContain("&lt;/script&gt;&lt;script&gt;x()");
+    });
+  });
+
+  describe("generateReport", () => {
+    const mockConfig: Config = {
+      githubToken: "test-token",
+      repository: "test/repo",
+      productArea: "authentication",
+      maxIssues: 50,
+      minRelevanceScore: 30,
+      outputPath: "./reports",
+      janEndpoint: "http://localhost:1337",
+      janModel: "llama2",
+    };
+
+    it("should list duplicate clusters before the issues", async () => {
+      const report = await reportGenerator.generateReport(
+        mockIssues,
+        { ...mockMetadata, clusters: [cluster] },
+        mockConfig
+      );
+
+      expect(report).toContain(
+        "## Duplicate Clusters\n\n1 cluster groups 2 issues that describe the same problem."
+      );
+      expect(report).toContain(
+        "- **Canonical Issue**: [#456](https://github.com/test/repo/issues/456) (72% relevance)"
+      );
+      expect(report).toContain(
+        "  - [#789](https://github.com/test/repo/issues/789) Large datasets are slow (62% similar)"
+      );
+      expect(report).toContain("1. ✅ Split datasets into chunks (#456, #789)");
+      expect(report.indexOf("## Duplicate Clusters")).toBeLessThan(
+        report.indexOf("## Issues")
+      );
+    });
+
+    it("should summarize the pre-filter cut-off", async () => {
+      const report = await reportGenerator.generateReport(
+        mockIssues,
+        {
+          ...mockMetadata,
+          prefilter: {
+            method: "bm25",
+            topN: 2,
+            candidates: 3,
+            kept: 2,
+            cutoffScore: 0.42,
+            scores: [],
+          },
+        },
+        mockConfig
+      );
+
+      expect(report).toContain(
+        "- **Pre-filter**: bm25 kept 2 of 3 issues (cut-off score 0.42)"
+      );
+    });
+  });
+
+  describe("parseFormats", () => {
+    it("should parse comma-separated formats and aliases", () => {
+      expect(ReportGenerator.parseFormats("json")).toEqual({
+        formats: ["json"],
+        invalid: [],
+      });
+      expect(ReportGenerator.parseFormats("both").formats).toEqual([
+        "markdown",
+        "json",
+      ]);
+      expect(ReportGenerator.parseFormats("md, JSON, json").formats).toEqual([
+        "markdown",
+        "json",
+      ]);
+    });
+
+    it("should report unknown formats", () => {
+      expect(ReportGenerator.parseFormats("json,pdf").invalid).toEqual(["pdf"]);
+      expect(ReportGenerator.parseFormats("all").formats).toEqual([
+        "markdown",
+        "json",
+        "csv",
+        "html",
+      ]);
+    });
+  });
+
+  describe("saveReport", () => {
+    let outputDir: string;
+
+    beforeEach(async () => {
+      outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "report-test-"));
+    });
+
+    afterEach(async () => {
+      await fs.remove(outputDir);
+    });
+
+    it("should use the extension of the report format", async () => {
+      const markdownPath = await reportGenerator.saveReport(
+        "# GitHub Issues Report",
+        mockMetadata,
+        outputDir
+      );
+      const jsonPath = await reportGenerator.saveReport(
+        reportGenerator.generateJsonReport(mockIssues, mockMetadata),
+        mockMetadata,
+        outputDir,
+        "json"
+      );
+
+      expect(path.basename(markdownPath)).toBe(
+        "github-issues-test-repo-authentication-2024-01-25.md"
+      );
+      expect(path.basename(jsonPath)).toBe(
+        "github-issues-test-repo-authentication-2024-01-25.json"
+      );
+      expect((await fs.readJson(jsonPath)).issues).toHaveLength(2);
+    });
+
+    it("should add the file suffix before the extension", async () => {
+      const csvPath = await reportGenerator.saveReport(
+        reportGenerator.generateCsvReports(mockIssues).workarounds,
+        mockMetadata,
+        outputDir,
+        "csv",
+        "workarounds"
+      );
+
+      expect(path.basename(csvPath)).toBe(
+        "github-issues-test-repo-authentication-2024-01-25-workarounds.csv"
+      );
+    });
+  });
+});
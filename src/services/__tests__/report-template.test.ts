@@ -0,0 +1,185 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import { ReportGenerator, ReportMetadata } from "../report-generator";
+import { ScraperError, ErrorType } from "../error-handler";
+import { GitHubIssue, Config } from "../../models";
+
+describe("ReportGenerator custom templates", () => {
+  let reportGenerator: ReportGenerator;
+  let templateDir: string;
+  let mockIssues: GitHubIssue[];
+  let mockMetadata: ReportMetadata;
+  let mockConfig: Config;
+
+  beforeEach(async () => {
+    reportGenerator = new ReportGenerator();
+    templateDir = await fs.mkdtemp(path.join(os.tmpdir(), "template-test-"));
+
+    mockIssues = [
+      {
+        id: 456,
+        number: 456,
+        title: "Slow startup",
+        description: "Startup takes 10 seconds",
+        labels: ["performance"],
+        state: "open",
+        createdAt: new Date("2024-01-10T00:00:00Z"),
+        updatedAt: new Date("2024-01-18T00:00:00Z"),
+        author: "developer1",
+        url: "https://github.com/test/repo/issues/456",
+        comments: [],
+        relevanceScore: 60,
+        category: "Performance",
+        priority: "low",
+        summary: "Startup is slow on large workspaces",
+        workarounds: [],
+        tags: ["startup"],
+        sentiment: "neutral",
+      },
+      {
+        id: 123,
+        number: 123,
+        title: "OAuth login fails & retries",
+        description: "Users can't log in with OAuth",
+        labels: ["bug"],
+        state: "open",
+        createdAt: new Date("2024-01-15T00:00:00Z"),
+        updatedAt: new Date("2024-01-20T00:00:00Z"),
+        author: "user123",
+        url: "https://github.com/test/repo/issues/123",
+        comments: [],
+        relevanceScore: 90,
+        category: "Authentication",
+        priority: "high",
+        summary: "OAuth login flow is broken for SSO accounts",
+        workarounds: [
+          {
+            description: "Use API key authentication",
+            author: "maintainer1",
+            authorType: "maintainer",
+            effectiveness: "confirmed",
+            confidence: 90,
+          },
+        ],
+        tags: ["auth", "oauth"],
+        sentiment: "negative",
+      },
+    ];
+
+    mockMetadata = {
+      repositoryName: "repo",
+      repositoryUrl: "https://github.com/test/repo",
+      productArea: "auth",
+      scrapeDate: new Date("2024-01-25T10:00:00Z"),
+      totalIssuesAnalyzed: 40,
+      relevantIssuesFound: 2,
+      minRelevanceScore: 30,
+      generatedBy: "GitHub Issue Scraper v1.0.0",
+    };
+
+    mockConfig = {
+      githubToken: "test-token",
+      repository: "test/repo",
+      productArea: "auth",
+      maxIssues: 50,
+      minRelevanceScore: 30,
+      outputPath: "./reports",
+      janEndpoint: "http://localhost:1337",
+      janModel: "llama2",
+    };
+  });
+
+  afterEach(async () => {
+    await fs.remove(templateDir);
+  });
+
+  const render = (template: string) =>
+    reportGenerator.generateReport(mockIssues, mockMetadata, mockConfig, {
+      customTemplate: template,
+    });
+
+  it("should render issues sorted by relevance without HTML escaping", async () => {
+    const report = await render(
+      "{{#each issues}}#{{number}} {{title}}\n{{/each}}"
+    );
+
+    expect(report).toBe(
+      "#123 OAuth login fails & retries\n#456 Slow startup\n"
+    );
+  });
+
+  it("should expose categories, workarounds and stats", async () => {
+    const report = await render(
+      [
+        "{{#each categories}}{{name}}={{count}};{{/each}}",
+        "{{#each workarounds}}{{issue.number}}:{{author}};{{/each}}",
+        "{{stats.issueCount}}/{{stats.workaroundCount}}/{{stats.averageRelevanceScore}}",
+        "{{config.repository}}",
+      ].join("\n")
+    );
+
+    expect(report).toBe(
+      "Authentication=1;Performance=1;\n123:maintainer1;\n2/1/75\ntest/repo"
+    );
+  });
+
+  it("should provide formatting helpers", async () => {
+    const report = await render(
+      [
+        "{{truncate issues.0.summary 10}}",
+        "{{anchor issues.0.title}}",
+        "{{priorityEmoji issues.0.priority}}",
+        "{{formatDate metadata.scrapeDate}}",
+        '{{join issues.0.tags " | "}}',
+        '{{#if (eq issues.1.sentiment "neutral")}}neutral{{/if}}',
+      ].join("\n")
+    );
+
+    expect(report.split("\n")).toEqual([
+      "OAuth logi...",
+      "oauth-login-fails-retries",
+      "🔴",
+      "2024-01-25",
+      "auth | oauth",
+      "neutral",
+    ]);
+  });
+
+  it("should load a template file", async () => {
+    const templatePath = path.join(templateDir, "digest.hbs");
+    await fs.writeFile(templatePath, "# {{metadata.repositoryName}}\n");
+
+    expect(await reportGenerator.loadTemplate(templatePath)).toBe(
+      "# {{metadata.repositoryName}}\n"
+    );
+  });
+
+  it("should reject missing templates and syntax errors", async () => {
+    await expect(
+      reportGenerator.loadTemplate(path.join(templateDir, "missing.hbs"))
+    ).rejects.toMatchObject({ type: ErrorType.VALIDATION });
+
+    const templatePath = path.join(templateDir, "broken.hbs");
+    await fs.writeFile(templatePath, "{{#each issues}}{{title}}");
+
+    await expect(reportGenerator.loadTemplate(templatePath)).rejects.toThrow(
+      ScraperError
+    );
+  });
+
+  it("should render the bundled weekly digest example", async () => {
+    const template = await reportGenerator.loadTemplate(
+      path.join(__dirname, "../../../docs/templates/weekly-digest.hbs")
+    );
+
+    const report = await render(template);
+
+    expect(report).toContain("# repo weekly digest: auth");
+    expect(report).toContain(
+      "### 🔴 [#123](https://github.com/test/repo/issues/123) OAuth login fails & retries"
+    );
+    expect(report).toContain("- **Performance**: 1 issue\n");
+    expect(report).toContain("**maintainer1**: Use API key authentication");
+  });
+});
@@ -0,0 +1,179 @@
+import { AxiosResponse } from "axios";
+import { RequestScheduler } from "../request-scheduler";
+
+function response(headers: Record<string, string> = {}): AxiosResponse {
+  return {
+    data: {},
+    status: 200,
+    statusText: "OK",
+    headers,
+    config: {} as any,
+  };
+}
+
+function rejection(
+  status: number,
+  headers: Record<string, string> = {},
+  message = "Forbidden"
+): any {
+  return Object.assign(new Error(message), {
+    response: { status, headers, data: { message } },
+  });
+}
+
+describe("RequestScheduler", () => {
+  let scheduler: RequestScheduler;
+  let sleepSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation();
+    jest.spyOn(console, "warn").mockImplementation();
+    scheduler = new RequestScheduler(3);
+    sleepSpy = jest
+      .spyOn(scheduler as any, "sleep")
+      .mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should run at most the configured number of requests at once", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const request = async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setImmediate(resolve));
+      inFlight--;
+      return response();
+    };
+
+    await Promise.all(
+      Array.from({ length: 10 }, () => scheduler.schedule(request))
+    );
+
+    expect(maxInFlight).toBe(3);
+    expect(inFlight).toBe(0);
+  });
+
+  test("should keep running requests after one fails", async () => {
+    await expect(
+      scheduler.schedule(() => Promise.reject(new Error("Network error")))
+    ).rejects.toThrow("Network error");
+
+    await expect(scheduler.schedule(async () => response())).resolves.toEqual(
+      response()
+    );
+  });
+
+  test("should pause and retry after a Retry-After header", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(rejection(429, { "retry-after": "30" }))
+      .mockResolvedValueOnce(response());
+
+    await scheduler.schedule(request);
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(sleepSpy).toHaveBeenCalledTimes(1);
+    expect(sleepSpy.mock.calls[0][0]).toBeGreaterThan(29000);
+    expect(sleepSpy.mock.calls[0][0]).toBeLessThanOrEqual(30000);
+    expect(console.warn).toHaveBeenCalledWith(
+      "GitHub secondary rate limit hit, pausing requests for 30 seconds..."
+    );
+  });
+
+  test("should pause a minute after a secondary rate limit without Retry-After", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValueOnce(
+        rejection(
+          403,
+          {},
+          "You have exceeded a secondary rate limit. Please wait a few minutes before you try again."
+        )
+      )
+      .mockResolvedValueOnce(response());
+
+    await scheduler.schedule(request);
+
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(sleepSpy.mock.calls[0][0]).toBeGreaterThan(59000);
+  });
+
+  test("should give up after repeated secondary rate limits", async () => {
+    const request = jest
+      .fn()
+      .mockRejectedValue(rejection(429, { "retry-after": "1" }));
+
+    await expect(scheduler.schedule(request)).rejects.toThrow("Forbidden");
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  test("should not retry the primary rate limit or other errors", async () => {
+    const resetAt = String(Math.floor(Date.now() / 1000) + 60);
+    const request = jest.fn().mockRejectedValue(
+      rejection(403, {
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": resetAt,
+      })
+    );
+
+    await expect(scheduler.schedule(request)).rejects.toThrow("Forbidden");
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  test("should wait for the reset when the rate limit runs low", async () => {
+    const resetAt = Math.floor(Date.now() / 1000) + 120;
+    const request = jest.fn().mockResolvedValue(
+      response({
+        "x-ratelimit-remaining": "2",
+        "x-ratelimit-reset": String(resetAt),
+      })
+    );
+
+    // One request left after the first response, counting the second
+    // request as in flight
+    await scheduler.schedule(request);
+    await scheduler.schedule(request);
+    expect(sleepSpy).not.toHaveBeenCalled();
+
+    await scheduler.schedule(request);
+    expect(sleepSpy).toHaveBeenCalledTimes(1);
+    expect(sleepSpy.mock.calls[0][0]).toBeGreaterThan(100000);
+    expect(console.log).toHaveBeenCalledWith(
+      expect.stringContaining("GitHub rate limit nearly used up")
+    );
+  });
+
+  test("should count requests in flight against the remaining limit", async () => {
+    const resetAt = String(Math.floor(Date.now() / 1000) + 120);
+    await scheduler.schedule(async () =>
+      response({ "x-ratelimit-remaining": "3", "x-ratelimit-reset": resetAt })
+    );
+
+    // Responses arrive only after all three requests were sent
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const request = async () => {
+      await gate;
+      return response({
+        "x-ratelimit-remaining": "3",
+        "x-ratelimit-reset": resetAt,
+      });
+    };
+
+    const pending = [
+      scheduler.schedule(request),
+      scheduler.schedule(request),
+      scheduler.schedule(request),
+    ];
+    await new Promise((resolve) => setImmediate(resolve));
+    release();
+    await Promise.all(pending);
+
+    // Two requests fit the remaining limit; the third waited for the reset
+    expect(sleepSpy).toHaveBeenCalledTimes(1);
+  });
+});
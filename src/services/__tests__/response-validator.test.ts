@@ -0,0 +1,273 @@
+import { ResponseValidator } from "../response-validator";
+import { PromptManager } from "../prompt-manager";
+import { RawGitHubIssue } from "../../models";
+
+describe("ResponseValidator", () => {
+  let validator: ResponseValidator;
+
+  const issues = [101, 102].map(
+    (id, index) =>
+      ({
+        id,
+        number: index + 1,
+        title: `Issue ${id}`,
+      } as RawGitHubIssue)
+  );
+
+  const validIssue = {
+    id: 101,
+    title: "Issue 101",
+    relevanceScore: 80,
+    category: "performance",
+    priority: "high",
+    summary: "Slow startup",
+    workarounds: [
+      {
+        description: "Disable extensions",
+        author: "maintainer1",
+        authorType: "maintainer",
+        effectiveness: "confirmed",
+        confidence: 90,
+      },
+    ],
+    tags: ["startup"],
+    sentiment: "negative",
+  };
+
+  const summary = {
+    totalAnalyzed: 2,
+    relevantFound: 1,
+    topCategories: ["performance"],
+    analysisModel: "llama2",
+  };
+
+  beforeEach(() => {
+    validator = new ResponseValidator(
+      new PromptManager().createResponseSchema()
+    );
+  });
+
+  test("should accept a valid response without repairs", () => {
+    const parsed = { relevantIssues: [validIssue], summary };
+
+    const { response, repairs } = validator.validate(parsed, issues, "llama2");
+
+    expect(response).toEqual(parsed);
+    expect(repairs).toEqual([]);
+  });
+
+  test("should reject responses without a relevantIssues array", () => {
+    expect(
+      validator.validate({ summary }, issues, "llama2").response
+    ).toBeNull();
+    expect(
+      validator.validate({ relevantIssues: "none", summary }, issues, "llama2")
+        .response
+    ).toBeNull();
+  });
+
+  test("should clamp scores and convert numeric strings", () => {
+    const { response, repairs } = validator.validate(
+      {
+        relevantIssues: [
+          {
+            ...validIssue,
+            relevanceScore: 150,
+            workarounds: [{ ...validIssue.workarounds[0], confidence: "85" }],
+          },
+        ],
+        summary,
+      },
+      issues,
+      "llama2"
+    );
+
+    expect(response!.relevantIssues[0].relevanceScore).toBe(100);
+    expect(response!.relevantIssues[0].workarounds[0].confidence).toBe(85);
+    expect(repairs).toEqual([
+      {
+        path: "relevantIssues[0].relevanceScore",
+        issueId: 101,
+        action: "clamped 150 to 100",
+      },
+      {
+        path: "relevantIssues[0].workarounds[0].confidence",
+        issueId: 101,
+        action: 'converted "85" to a number',
+      },
+    ]);
+  });
+
+  test("should map enum synonyms", () => {
+    const { response, repairs } = validator.validate(
+      {
+        relevantIssues: [
+          {
+            ...validIssue,
+            priority: "critical",
+            sentiment: "Frustrated",
+            resolution: { type: "won't fix", description: "Out of scope" },
+          },
+        ],
+        summary,
+      },
+      issues,
+      "llama2"
+    );
+
+    const issue = response!.relevantIssues[0];
+    expect(issue.priority).toBe("high");
+    expect(issue.sentiment).toBe("negative");
+    expect(issue.resolution!.type).toBe("wont_fix");
+    expect(repairs.map((repair) => repair.action)).toEqual([
+      'mapped "critical" to "high"',
+      'mapped "Frustrated" to "negative"',
+      'mapped "won\'t fix" to "wont_fix"',
+    ]);
+  });
+
+  test("should drop issues not in the batch and map issue numbers to IDs", () => {
+    const { response, repairs } = validator.validate(
+      {
+        relevantIssues: [
+          { ...validIssue, id: 999 },
+          { ...validIssue, id: 2, title: "Issue 102" },
+          { ...validIssue, id: 102 },
+        ],
+        summary,
+      },
+      issues,
+      "llama2"
+    );
+
+    expect(response!.relevantIssues.map((issue) => issue.id)).toEqual([102]);
+    expect(repairs).toEqual([
+      {
+        path: "relevantIssues[0].id",
+        action: "dropped issue 999 not in the batch",
+      },
+      {
+        path: "relevantIssues[1].id",
+        issueId: 102,
+        action: "mapped 2 to issue ID 102",
+      },
+      {
+        path: "relevantIssues[2].id",
+        issueId: 102,
+        action: "dropped duplicate of issue 102",
+      },
+    ]);
+  });
+
+  test("should fill in missing workaround fields", () => {
+    const { response, repairs } = validator.validate(
+      {
+        relevantIssues: [
+          {
+            ...validIssue,
+            workarounds: [
+              { description: "Restart the editor" },
+              { author: "user1" },
+            ],
+          },
+        ],
+        summary,
+      },
+      issues,
+      "llama2"
+    );
+
+    // A workaround without a description can't be repaired
+    expect(response!.relevantIssues[0].workarounds).toEqual([
+      {
+        description: "Restart the editor",
+        author: "unknown",
+        authorType: "user",
+        effectiveness: "suggested",
+        confidence: 50,
+      },
+    ]);
+    expect(repairs).toHaveLength(5);
+    expect(repairs[4]).toEqual({
+      path: "relevantIssues[0].workarounds[1]",
+      issueId: 101,
+      action: "dropped invalid item",
+    });
+  });
+
+  test("should drop issues without a relevance score", () => {
+    const { relevanceScore, ...issueWithoutScore } = validIssue;
+
+    const { response, repairs } = validator.validate(
+      { relevantIssues: [issueWithoutScore], summary },
+      issues,
+      "llama2"
+    );
+
+    expect(response!.relevantIssues).toEqual([]);
+    expect(repairs).toEqual([
+      {
+        path: "relevantIssues[0]",
+        issueId: 101,
+        action: "dropped invalid item",
+      },
+    ]);
+  });
+
+  test("should remove invalid optional fields", () => {
+    const { response, repairs } = validator.validate(
+      {
+        relevantIssues: [
+          {
+            ...validIssue,
+            resolution: { type: "unclear", description: "Closed" },
+          },
+        ],
+        summary,
+      },
+      issues,
+      "llama2"
+    );
+
+    expect(response!.relevantIssues[0].resolution).toBeUndefined();
+    expect(repairs[0].path).toBe("relevantIssues[0].resolution");
+  });
+
+  test("should rebuild a missing summary", () => {
+    const { response } = validator.validate(
+      { relevantIssues: [validIssue] },
+      issues,
+      "llama2"
+    );
+
+    expect(response!.summary).toEqual({
+      totalAnalyzed: 2,
+      relevantFound: 1,
+      topCategories: ["performance"],
+      analysisModel: "llama2",
+    });
+  });
+
+  test("should not check issue IDs without the batch's issues", () => {
+    const { response, repairs } = validator.validate(
+      { relevantIssues: [{ ...validIssue, id: 999 }], summary },
+      [],
+      "llama2"
+    );
+
+    expect(response!.relevantIssues[0].id).toBe(999);
+    expect(repairs).toEqual([]);
+  });
+
+  test("should leave the parsed response unchanged", () => {
+    const parsed = {
+      relevantIssues: [{ ...validIssue, id: 1, priority: "urgent" }],
+      summary,
+    };
+    const copy = JSON.parse(JSON.stringify(parsed));
+
+    validator.validate(parsed, issues, "llama2");
+
+    expect(parsed).toEqual(copy);
+  });
+});
@@ -0,0 +1,106 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import { RunStateManager } from "../run-state";
+import { ScraperError, ErrorType } from "../error-handler";
+import { LLMAnalysisResponse } from "../../models";
+
+describe("RunStateManager", () => {
+  let runsDir: string;
+  let manager: RunStateManager;
+
+  const mockResult: LLMAnalysisResponse = {
+    relevantIssues: [
+      {
+        id: 1,
+        title: "Login fails",
+        relevanceScore: 80,
+        category: "Authentication",
+        priority: "high",
+        summary: "Login fails with OAuth",
+        workarounds: [],
+        tags: ["auth"],
+        sentiment: "negative",
+      },
+    ],
+    summary: {
+      totalAnalyzed: 2,
+      relevantFound: 1,
+      topCategories: ["Authentication"],
+      analysisModel: "llama2",
+    },
+  };
+
+  beforeEach(async () => {
+    runsDir = await fs.mkdtemp(path.join(os.tmpdir(), "run-state-test-"));
+    manager = new RunStateManager(runsDir);
+  });
+
+  afterEach(async () => {
+    await fs.remove(runsDir);
+  });
+
+  it("should create a new in-progress run with a unique ID", () => {
+    const first = manager.createRun("owner/repo", "auth");
+    const second = manager.createRun("owner/repo", "auth");
+
+    expect(first.runId).toMatch(/^\d{8}-\d{6}-[0-9a-f]{6}$/);
+    expect(first.runId).not.toEqual(second.runId);
+    expect(first.status).toBe("in_progress");
+    expect(first.completedBatches).toEqual([]);
+    expect(first.comments).toEqual({});
+  });
+
+  it("should save and load run state", async () => {
+    const state = manager.createRun("owner/repo", "auth");
+    state.comments[1] = [
+      {
+        id: 10,
+        user: { login: "maintainer" },
+        body: "Try clearing the cache",
+        created_at: "2024-01-01T00:00:00Z",
+        author_association: "MEMBER",
+      },
+    ];
+    state.completedBatches.push({
+      issueIds: [1, 2],
+      result: mockResult,
+      completedAt: "2024-01-01T00:00:00Z",
+    });
+
+    await manager.saveRun(state);
+    const loaded = await manager.loadRun(state.runId);
+
+    expect(loaded.repository).toBe("owner/repo");
+    expect(loaded.comments[1][0].body).toBe("Try clearing the cache");
+    expect(loaded.completedBatches[0].result.relevantIssues[0].id).toBe(1);
+    expect(await fs.pathExists(manager.getRunPath(state.runId) + ".tmp")).toBe(
+      false
+    );
+  });
+
+  it("should throw a validation error for unknown runs", async () => {
+    await expect(manager.loadRun("does-not-exist")).rejects.toBeInstanceOf(
+      ScraperError
+    );
+    await expect(manager.loadRun("does-not-exist")).rejects.toMatchObject({
+      type: ErrorType.VALIDATION,
+    });
+  });
+
+  it("should collect issue IDs from completed batches", () => {
+    const state = manager.createRun("owner/repo", "auth");
+    state.completedBatches.push(
+      { issueIds: [1, 2], result: mockResult, completedAt: "" },
+      { issueIds: [5], result: mockResult, completedAt: "" }
+    );
+
+    expect(Array.from(manager.getAnalyzedIssueIds(state))).toEqual([1, 2, 5]);
+  });
+
+  it("should not allow run IDs to escape the runs directory", () => {
+    expect(manager.getRunPath("../../etc/passwd")).toBe(
+      path.join(runsDir, "etcpasswd.json")
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { Taxonomy } from "../taxonomy";
+import { PromptManager } from "../prompt-manager";
+import { ResponseValidator } from "../response-validator";
+import { ScraperError } from "../error-handler";
+import { RawGitHubIssue } from "../../models";
+
+describe("Taxonomy", () => {
+  const taxonomy = new Taxonomy({
+    categories: [
+      {
+        name: "performance",
+        description: "Slowness and high resource use",
+        aliases: ["speed", "slow"],
+      },
+      { name: "crash" },
+      { name: "configuration", aliases: ["settings"] },
+    ],
+    tags: ["windows", "gpu", "shell-integration"],
+  });
+
+  describe("mapCategory", () => {
+    test("should map names, abbreviations, aliases and misspellings", () => {
+      expect(taxonomy.mapCategory("Performance")).toBe("performance");
+      expect(taxonomy.mapCategory("perf")).toBe("performance");
+      expect(taxonomy.mapCategory("Speed Issues")).toBe("performance");
+      expect(taxonomy.mapCategory("preformance")).toBe("performance");
+      expect(taxonomy.mapCategory("Crashes")).toBe("crash");
+      expect(taxonomy.mapCategory("Settings Sync")).toBe("configuration");
+    });
+
+    test("should fall back to the fallback category", () => {
+      expect(taxonomy.mapCategory("Documentation")).toBe("other");
+      expect(taxonomy.categories.map((category) => category.name)).toEqual([
+        "performance",
+        "crash",
+        "configuration",
+        "other",
+      ]);
+    });
+  });
+
+  describe("mapTag", () => {
+    test("should map tags to the vocabulary and drop unknown ones", () => {
+      expect(taxonomy.mapTag("Windows 11")).toBe("windows");
+      expect(taxonomy.mapTag("shell integration")).toBe("shell-integration");
+      expect(taxonomy.mapTag("keyboard")).toBeUndefined();
+    });
+
+    test("should keep any tag without a vocabulary", () => {
+      const categoriesOnly = new Taxonomy({ categories: [{ name: "crash" }] });
+
+      expect(categoriesOnly.mapTag("keyboard")).toBe("keyboard");
+    });
+  });
+
+  describe("load", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "taxonomy-"));
+    });
+
+    afterEach(async () => {
+      await fs.remove(tempDir);
+    });
+
+    test("should load the sample taxonomy", async () => {
+      const sample = await Taxonomy.load(
+        path.join(__dirname, "../../../docs/taxonomy/sample-taxonomy.json")
+      );
+
+      expect(sample.categories.length).toBeGreaterThan(1);
+      expect(sample.fallbackCategory).toBe("other");
+      expect(sample.tags).toContain("gpu");
+    });
+
+    test("should reject taxonomies without categories", async () => {
+      const filePath = path.join(tempDir, "taxonomy.json");
+      await fs.writeJson(filePath, { categories: [], tags: ["gpu"] });
+
+      await expect(Taxonomy.load(filePath)).rejects.toThrow(
+        "Taxonomy has no categories"
+      );
+    });
+
+    test("should reject missing files", async () => {
+      await expect(
+        Taxonomy.load(path.join(tempDir, "missing.json"))
+      ).rejects.toBeInstanceOf(ScraperError);
+    });
+  });
+
+  describe("in prompts", () => {
+    test("should list the categories and restrict the schema", () => {
+      const promptManager = new PromptManager();
+      const version = promptManager.getPromptVersion();
+      promptManager.setTaxonomy(taxonomy);
+
+      const [, userPrompt] = promptManager.buildAnalysisPrompt(
+        [],
+        new Map(),
+        "terminal"
+      );
+      expect(userPrompt.content).toContain(
+        '- "performance": Slowness and high resource use\n- "crash"\n'
+      );
+      expect(userPrompt.content).toContain(
+        'Choose tags only from this list: "windows", "gpu", "shell-integration"'
+      );
+
+      const schema = JSON.parse(promptManager.createResponseSchema());
+      const issueSchema = schema.properties.relevantIssues.items;
+      expect(issueSchema.properties.category.enum).toEqual([
+        "performance",
+        "crash",
+        "configuration",
+        "other",
+      ]);
+      expect(issueSchema.properties.tags.items.enum).toEqual(taxonomy.tags);
+      expect(promptManager.getPromptVersion()).not.toBe(version);
+    });
+  });
+
+  describe("in response validation", () => {
+    test("should map categories and tags and record the repairs", () => {
+      const promptManager = new PromptManager();
+      promptManager.setTaxonomy(taxonomy);
+      const validator = new ResponseValidator(
+        promptManager.createResponseSchema(),
+        taxonomy
+      );
+      const issues = [
+        { id: 101, number: 1, title: "Issue 101" },
+        { id: 102, number: 2, title: "Issue 102" },
+      ] as RawGitHubIssue[];
+      const issue = (id: number, category: string, tags: string[]) => ({
+        id,
+        title: `Issue ${id}`,
+        relevanceScore: 80,
+        category,
+        priority: "high",
+        summary: "",
+        workarounds: [],
+        tags,
+        sentiment: "negative",
+      });
+
+      const { response, repairs } = validator.validate(
+        {
+          relevantIssues: [
+            issue(101, "perf", ["GPU", "gpu", "keyboard"]),
+            issue(102, "Documentation", ["windows"]),
+          ],
+          summary: {
+            totalAnalyzed: 2,
+            relevantFound: 2,
+            topCategories: ["Performance", "perf", "Documentation"],
+            analysisModel: "llama2",
+          },
+        },
+        issues,
+        "llama2"
+      );
+
+      expect(
+        response!.relevantIssues.map(({ category, tags }) => ({
+          category,
+          tags,
+        }))
+      ).toEqual([
+        { category: "performance", tags: ["gpu"] },
+        { category: "other", tags: ["windows"] },
+      ]);
+      expect(response!.summary.topCategories).toEqual(["performance", "other"]);
+      expect(repairs.slice(0, 4)).toEqual([
+        {
+          path: "relevantIssues[0].category",
+          issueId: 101,
+          action: 'mapped "perf" to "performance"',
+        },
+        {
+          path: "relevantIssues[0].tags[0]",
+          issueId: 101,
+          action: 'mapped "GPU" to "gpu"',
+        },
+        {
+          path: "relevantIssues[0].tags[1]",
+          issueId: 101,
+          action: 'dropped duplicate "gpu"',
+        },
+        {
+          path: "relevantIssues[0].tags[2]",
+          issueId: 101,
+          action: "dropped invalid item",
+        },
+      ]);
+    });
+  });
+});
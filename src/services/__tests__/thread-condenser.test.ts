@@ -0,0 +1,212 @@
+import { ThreadCondenser } from "../thread-condenser";
+import { PromptManager } from "../prompt-manager";
+import { ScraperError, ErrorType } from "../error-handler";
+import { TokenBudget, estimateTokens } from "../token-budget";
+import { RawGitHubIssue, RawComment } from "../../models";
+
+describe("ThreadCondenser", () => {
+  const budget: TokenBudget = { contextWindow: 4096, source: "known" };
+  const productArea = "image uploads";
+
+  const issue: RawGitHubIssue = {
+    id: 1,
+    number: 42,
+    title: "App crashes when uploading large images",
+    body: "Uploading images larger than 10MB crashes the app.",
+    labels: [{ name: "bug" }],
+    state: "open",
+    created_at: "2023-01-01T00:00:00Z",
+    updated_at: "2023-03-01T00:00:00Z",
+    user: { login: "reporter" },
+    html_url: "https://github.com/test/repo/issues/42",
+    comments_url: "https://api.github.com/repos/test/repo/issues/42/comments",
+    comments: 60,
+  };
+
+  const comment = (
+    index: number,
+    body: string,
+    author_association = "NONE"
+  ): RawComment => ({
+    id: 1000 + index,
+    user: { login: `user${index}` },
+    body,
+    created_at: new Date(Date.UTC(2023, 0, 2, 0, index)).toISOString(),
+    author_association,
+  });
+
+  // 60 comments of about 50 tokens, with a maintainer reply and a workaround
+  const longThread: RawComment[] = Array.from({ length: 60 }, (_, index) =>
+    comment(
+      index,
+      `Same here on my machine, still crashing. ${"x".repeat(120)}`
+    )
+  );
+  longThread[10] = comment(
+    10,
+    "We are looking into the memory usage of the decoder.",
+    "MEMBER"
+  );
+  longThread[30] = comment(
+    30,
+    "Workaround: set `maxUploadSize` to 5MB in the settings."
+  );
+
+  let promptManager: PromptManager;
+  let janClient: { getTokenBudget: jest.Mock; createCompletion: jest.Mock };
+  let condenser: ThreadCondenser;
+
+  const completion = (content: string) => ({
+    id: "summary",
+    object: "chat.completion",
+    created: 0,
+    model: "llama2",
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content },
+        finish_reason: "stop",
+      },
+    ],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  });
+
+  beforeEach(() => {
+    promptManager = new PromptManager();
+    janClient = {
+      getTokenBudget: jest.fn().mockResolvedValue(budget),
+      createCompletion: jest
+        .fn()
+        .mockResolvedValue(completion("Many users confirm the crash.")),
+    };
+    condenser = new ThreadCondenser(janClient as any, promptManager);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("should leave short threads alone", async () => {
+    const comments = new Map([[issue.id, longThread.slice(0, 3)]]);
+
+    const condensed = await condenser.condense([issue], comments, productArea);
+
+    expect(condensed.get(issue.id)).toBe(comments.get(issue.id));
+    expect(janClient.createCompletion).not.toHaveBeenCalled();
+  });
+
+  test("should condense long threads to fit the thread limit", async () => {
+    const comments = new Map([[issue.id, longThread]]);
+
+    const condensed = await condenser.condense([issue], comments, productArea);
+    const thread = condensed.get(issue.id)!;
+
+    expect(comments.get(issue.id)).toHaveLength(60);
+    expect(thread.length).toBeLessThan(60);
+    expect(
+      promptManager.estimateIssueTokens(issue, thread)
+    ).toBeLessThanOrEqual(condenser.threadTokenLimit(budget, productArea));
+    // Every comment is kept or covered by a summary
+    expect(
+      thread.reduce((count, entry) => count + (entry.summaryOf || 1), 0)
+    ).toBe(60);
+  });
+
+  test("should keep maintainer and workaround comments verbatim in order", async () => {
+    const condensed = await condenser.condense(
+      [issue],
+      new Map([[issue.id, longThread]]),
+      productArea
+    );
+    const thread = condensed.get(issue.id)!;
+
+    const maintainerIndex = thread.indexOf(longThread[10]);
+    const workaroundIndex = thread.indexOf(longThread[30]);
+    expect(maintainerIndex).toBeGreaterThan(0);
+    expect(workaroundIndex).toBeGreaterThan(maintainerIndex);
+    expect(thread[0].summaryOf).toBeGreaterThan(0);
+    expect(thread[0].body).toBe("Many users confirm the crash.");
+  });
+
+  test("should summarize chunks that fit one request", async () => {
+    await condenser.condense(
+      [issue],
+      new Map([[issue.id, longThread]]),
+      productArea
+    );
+
+    for (const [messages, options] of janClient.createCompletion.mock.calls) {
+      const promptTokens = messages.reduce(
+        (total: number, message: any) =>
+          total + estimateTokens(message.content),
+        0
+      );
+      expect(promptTokens + options.maxTokens).toBeLessThan(
+        budget.contextWindow
+      );
+    }
+  });
+
+  test("should reduce summaries that are still too long", async () => {
+    // Long summaries of the chunks, short summary of the summaries
+    janClient.createCompletion.mockImplementation(async (messages: any[]) =>
+      messages[1].content.includes("SUMMARY OF")
+        ? completion("The crash is confirmed by many users.")
+        : completion(`Users confirm the crash. ${"y".repeat(1500)}`)
+    );
+    const manyComments = Array.from({ length: 200 }, (_, index) =>
+      comment(index, `Still crashing for me. ${"x".repeat(200)}`)
+    );
+
+    const condensed = await condenser.condense(
+      [issue],
+      new Map([[issue.id, manyComments]]),
+      productArea
+    );
+
+    expect(condensed.get(issue.id)).toEqual([
+      expect.objectContaining({
+        summaryOf: 200,
+        body: "The crash is confirmed by many users.",
+      }),
+    ]);
+  });
+
+  test("should note comments that could not be summarized", async () => {
+    janClient.createCompletion.mockRejectedValue(
+      new ScraperError(ErrorType.LLM_SERVICE, "JAN server is not running", {
+        operation: "creating JAN completion",
+      })
+    );
+
+    const condensed = await condenser.condense(
+      [issue],
+      new Map([[issue.id, longThread]]),
+      productArea
+    );
+    const thread = condensed.get(issue.id)!;
+
+    expect(thread[0].body).toMatch(
+      /^\[\d+ comments could not be summarized and were left out\]$/
+    );
+    expect(thread).toContain(longThread[30]);
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("Failed to summarize")
+    );
+  });
+
+  test("isKeyComment should match maintainers, workarounds and code", () => {
+    expect(condenser.isKeyComment(comment(1, "Looking into it", "OWNER"))).toBe(
+      true
+    );
+    expect(
+      condenser.isKeyComment(comment(2, "As a work-around, downgrade to 1.2"))
+    ).toBe(true);
+    expect(condenser.isKeyComment(comment(3, "```\nnpm i foo@1.2\n```"))).toBe(
+      true
+    );
+    expect(condenser.isKeyComment(comment(4, "+1, same here"))).toBe(false);
+  });
+});
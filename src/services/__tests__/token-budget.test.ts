@@ -0,0 +1,113 @@
+import {
+  estimateTokens,
+  estimateMessageTokens,
+  lookupContextWindow,
+  packBatches,
+  parseContextWindowError,
+  responseTokenLimit,
+  usableTokens,
+  MAX_RESPONSE_TOKENS,
+  TokenBudget,
+} from "../token-budget";
+
+describe("token budget", () => {
+  const budget: TokenBudget = { contextWindow: 1000, source: "configured" };
+
+  test("estimateTokens should round up", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcdefg")).toBe(2);
+    expect(estimateTokens("abcdefgh")).toBe(3);
+  });
+
+  test("estimateMessageTokens should add per-message overhead", () => {
+    const tokens = estimateMessageTokens([
+      { role: "system", content: "abcdefg" },
+      { role: "user", content: "abcdefg" },
+    ]);
+
+    expect(tokens).toBeGreaterThan(4);
+  });
+
+  test("lookupContextWindow should match the most specific model name", () => {
+    expect(lookupContextWindow("llama2")).toBe(4096);
+    expect(lookupContextWindow("llama3:8b")).toBe(8192);
+    expect(lookupContextWindow("llama3.1:8b-instruct")).toBe(131072);
+    expect(lookupContextWindow("codellama:13b")).toBe(16384);
+    expect(lookupContextWindow("my-finetune")).toBeUndefined();
+  });
+
+  test("usableTokens should keep a safety margin", () => {
+    expect(usableTokens(budget)).toBe(900);
+  });
+
+  describe("responseTokenLimit", () => {
+    test("should give the response what the prompt leaves", () => {
+      expect(responseTokenLimit(400, budget)).toBe(500);
+    });
+
+    test("should cap large context windows", () => {
+      expect(
+        responseTokenLimit(400, { contextWindow: 32768, source: "known" })
+      ).toBe(MAX_RESPONSE_TOKENS);
+    });
+
+    test("should keep a minimum for oversized prompts", () => {
+      expect(responseTokenLimit(2000, budget)).toBe(256);
+    });
+  });
+
+  describe("packBatches", () => {
+    test("should fill batches up to the budget", () => {
+      const batches = packBatches(
+        [300, 300, 300, 300],
+        (tokens) => tokens,
+        200,
+        budget,
+        10
+      );
+
+      // 900 usable - 200 fixed leaves room for two items
+      expect(batches).toEqual([
+        [300, 300],
+        [300, 300],
+      ]);
+    });
+
+    test("should respect the maximum batch size", () => {
+      const batches = packBatches(
+        [1, 1, 1, 1, 1],
+        (tokens) => tokens,
+        0,
+        budget,
+        2
+      );
+
+      expect(batches).toEqual([[1, 1], [1, 1], [1]]);
+    });
+
+    test("should give oversized items a batch of their own", () => {
+      const batches = packBatches(
+        [100, 5000, 100],
+        (tokens) => tokens,
+        0,
+        budget,
+        10
+      );
+
+      expect(batches).toEqual([[100], [5000], [100]]);
+    });
+
+    test("should return no batches for no items", () => {
+      expect(packBatches([], () => 1, 0, budget, 5)).toEqual([]);
+    });
+  });
+
+  test("parseContextWindowError should read the window from the message", () => {
+    expect(
+      parseContextWindowError(
+        "This model's maximum context length is 2048 tokens. However, your messages resulted in 3100 tokens."
+      )
+    ).toBe(2048);
+    expect(parseContextWindowError("Request timed out")).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import { TrafficRecorder } from "../traffic-recorder";
+import { ScraperError, ErrorType } from "../error-handler";
+
+describe("TrafficRecorder", () => {
+  let fixtureDir: string;
+
+  const request = {
+    method: "GET",
+    url: "/repos/test/repo/issues",
+    params: { state: "open", page: 1 },
+  };
+
+  beforeEach(async () => {
+    fixtureDir = await fs.mkdtemp(path.join(os.tmpdir(), "traffic-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(fixtureDir);
+  });
+
+  it("should replay recorded exchanges in order and repeat the last one", async () => {
+    const recorder = new TrafficRecorder(fixtureDir, "record");
+    await recorder.record("github", request, { response: { data: [1] } });
+    await recorder.record("github", request, { response: { data: [2] } });
+
+    const replayer = new TrafficRecorder(fixtureDir, "replay");
+
+    expect(await replayer.replay("github", request)).toEqual({ data: [1] });
+    expect(await replayer.replay("github", request)).toEqual({ data: [2] });
+    expect(await replayer.replay("github", request)).toEqual({ data: [2] });
+  });
+
+  it("should rethrow recorded errors shaped like the original", async () => {
+    const recorder = new TrafficRecorder(fixtureDir, "record");
+    await recorder.recordError("github", request, {
+      message: "Request failed with status code 502",
+      isAxiosError: true,
+      response: { status: 502, headers: {}, data: { message: "Bad gateway" } },
+    });
+    await recorder.record("github", request, { response: { data: [] } });
+
+    const replayer = new TrafficRecorder(fixtureDir, "replay");
+
+    await expect(replayer.replay("github", request)).rejects.toMatchObject({
+      message: "Request failed with status code 502",
+      isAxiosError: true,
+      response: { status: 502 },
+    });
+    expect(await replayer.replay("github", request)).toEqual({ data: [] });
+  });
+
+  it("should replace fixtures from an earlier recording", async () => {
+    const first = new TrafficRecorder(fixtureDir, "record");
+    await first.record("llm", request, { response: "old" });
+
+    const second = new TrafficRecorder(fixtureDir, "record");
+    await second.record("llm", request, { response: "new" });
+
+    const key = TrafficRecorder.computeKey("llm", request);
+    const fixture = await fs.readJson(second.getFixturePath("llm", key));
+    expect(fixture.exchanges).toEqual([{ response: "new" }]);
+  });
+
+  it("should fail with a validation error for unrecorded requests", async () => {
+    const replayer = new TrafficRecorder(fixtureDir, "replay");
+
+    const replay = replayer.replay("github", {
+      ...request,
+      params: { page: 2 },
+    });
+
+    await expect(replay).rejects.toThrow(ScraperError);
+    await expect(replay).rejects.toMatchObject({
+      type: ErrorType.VALIDATION,
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Adaptive Concurrency
+ *
+ * Limits how many requests run at once with additive increase and
+ * multiplicative decrease (AIMD): the limit halves when the server signals
+ * overload and grows by one after each run of `limit` successful requests,
+ * up to the configured maximum.
+ */
+export class AdaptiveConcurrency {
+  readonly max: number;
+  private current: number;
+  private successes = 0;
+  private generation = 0; // Bumped on each decrease
+
+  constructor(max: number) {
+    this.max = Math.max(1, Math.floor(max));
+    this.current = this.max;
+  }
+
+  /**
+   * Requests that may currently run at once
+   */
+  get limit(): number {
+    return this.current;
+  }
+
+  /**
+   * Tag for a request about to start, passed back to recordOverload
+   */
+  get epoch(): number {
+    return this.generation;
+  }
+
+  /**
+   * Record a successful request
+   */
+  recordSuccess(): void {
+    if (this.current >= this.max) {
+      return;
+    }
+
+    this.successes++;
+    if (this.successes >= this.current) {
+      this.current++;
+      this.successes = 0;
+    }
+  }
+
+  /**
+   * Record a request the server rejected as overloaded
+   *
+   * Requests started before the last decrease were sent at the old limit, so
+   * their failures don't decrease it again.
+   *
+   * @param epoch The epoch the request started in
+   * @returns Whether the limit decreased
+   */
+  recordOverload(epoch: number): boolean {
+    this.successes = 0;
+    if (epoch < this.generation || this.current === 1) {
+      return false;
+    }
+
+    this.current = Math.max(1, Math.floor(this.current / 2));
+    this.generation++;
+    return true;
+  }
+}
+
+/**
+ * Whether an error means the server is overloaded: HTTP 429 or a timeout
+ */
+export function isOverloadError(error: any): boolean {
+  // ScraperErrors wrap the request's error
+  return [error, error?.originalError].some(
+    (cause) =>
+      !!cause &&
+      (cause.status === 429 ||
+        cause.response?.status === 429 ||
+        cause.code === "ECONNABORTED" ||
+        cause.code === "ETIMEDOUT" ||
+        cause.name === "APIConnectionTimeoutError" ||
+        /timed? ?out/i.test(cause.message || ""))
+  );
+}
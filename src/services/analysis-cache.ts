@@ -0,0 +1,62 @@
+import * as path from "path";
+import * as os from "os";
+import * as crypto from "crypto";
+import { RawGitHubIssue, RawComment, AnalyzedIssue } from "../models";
+import { JsonEntryStore, JsonEntryStoreStats } from "./json-entry-store";
+
+export interface AnalysisCacheEntry {
+  issueId: number;
+  productArea: string;
+  model: string;
+  promptVersion: string;
+  analysis?: AnalyzedIssue; // Undefined when the LLM found the issue not relevant
+  storedAt: string;
+}
+
+export type AnalysisCacheStats = JsonEntryStoreStats;
+
+/**
+ * Analysis Cache
+ *
+ * Keeps per-issue LLM analysis results on disk, keyed by everything that
+ * influences the analysis: issue content, comments, product area, model and
+ * prompt version. Re-running with unchanged inputs (e.g. to try a different
+ * report format) then skips the LLM entirely.
+ */
+export class AnalysisCache extends JsonEntryStore<AnalysisCacheEntry> {
+  constructor(cacheDir?: string) {
+    super(
+      cacheDir ||
+        path.join(os.homedir(), ".github-issue-scraper", "analysis-cache"),
+      "analysis cache"
+    );
+  }
+
+  /**
+   * Compute the cache key of an issue analysis
+   */
+  static computeKey(
+    issue: RawGitHubIssue,
+    comments: RawComment[],
+    productArea: string,
+    model: string,
+    promptVersion: string
+  ): string {
+    const content = JSON.stringify({
+      title: issue.title,
+      body: issue.body || "",
+      state: issue.state,
+      labels: issue.labels.map((label) => label.name).sort(),
+      comments: comments.map((comment) => [
+        comment.id,
+        comment.user.login,
+        comment.body,
+      ]),
+      productArea,
+      model,
+      promptVersion,
+    });
+
+    return crypto.createHash("sha256").update(content).digest("hex");
+  }
+}
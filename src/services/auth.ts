@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from "axios";
 import { ErrorHandler, ErrorContext } from "./error-handler";
+import { DEFAULT_GITHUB_API_URL, GitHubClient } from "./github-client";
 
 export interface AuthValidationResult {
   isValid: boolean;
@@ -18,10 +19,17 @@ export interface AuthValidationResult {
 
 export class AuthenticationService {
   private client: AxiosInstance;
+  private apiUrl: string;
+  private errorUrls: Pick<ErrorContext, "githubApiUrl" | "githubWebUrl">;
 
-  constructor() {
+  constructor(apiUrl: string = DEFAULT_GITHUB_API_URL) {
+    this.apiUrl = apiUrl;
+    this.errorUrls = {
+      githubApiUrl: apiUrl,
+      githubWebUrl: GitHubClient.resolveUrls({ githubApiUrl: apiUrl }).webUrl,
+    };
     this.client = axios.create({
-      baseURL: "https://api.github.com",
+      baseURL: apiUrl,
       headers: {
         Accept: "application/vnd.github.v3+json",
         "User-Agent": "github-issue-scraper/1.0.0",
@@ -36,6 +44,7 @@ export class AuthenticationService {
   async validateToken(token: string): Promise<AuthValidationResult> {
     const context: ErrorContext = {
       operation: "validating GitHub token",
+      ...this.errorUrls,
     };
 
     try {
@@ -88,6 +97,7 @@ export class AuthenticationService {
     const context: ErrorContext = {
       operation: "testing repository access",
       repository,
+      ...this.errorUrls,
     };
 
     try {
@@ -136,7 +146,7 @@ export class AuthenticationService {
    */
   getAuthenticatedClient(token: string): AxiosInstance {
     return axios.create({
-      baseURL: "https://api.github.com",
+      baseURL: this.apiUrl,
       headers: {
         Accept: "application/vnd.github.v3+json",
         Authorization: `Bearer ${token}`,
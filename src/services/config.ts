@@ -3,6 +3,7 @@ import * as path from "path";
 import * as os from "os";
 import { Config } from "../models";
 import { ErrorHandler, ErrorContext } from "./error-handler";
+import { ReportGenerator } from "./report-generator";
 
 export class ConfigManager {
   private configPath: string;
@@ -204,10 +205,37 @@ export class ConfigManager {
       );
     }
 
+    if (process.env.GITHUB_API_URL) {
+      this.config.githubApiUrl = process.env.GITHUB_API_URL;
+    }
+
+    if (process.env.GITHUB_WEB_URL) {
+      this.config.githubWebUrl = process.env.GITHUB_WEB_URL;
+    }
+
+    if (process.env.GITHUB_API_MODE) {
+      this.config.githubApiMode = process.env
+        .GITHUB_API_MODE as Config["githubApiMode"];
+    }
+
     if (process.env.OUTPUT_PATH) {
       this.config.outputPath = process.env.OUTPUT_PATH;
     }
 
+    if (process.env.OUTPUT_FORMAT) {
+      const { formats } = ReportGenerator.parseFormats(
+        process.env.OUTPUT_FORMAT
+      );
+      if (formats.length > 0) {
+        this.config.outputFormats = formats;
+      }
+    }
+
+    if (process.env.LLM_PROVIDER) {
+      this.config.llmProvider = process.env
+        .LLM_PROVIDER as Config["llmProvider"];
+    }
+
     // JAN-specific configuration
     if (process.env.JAN_ENDPOINT) {
       this.config.janEndpoint = process.env.JAN_ENDPOINT;
@@ -235,6 +263,24 @@ export class ConfigManager {
         this.config.janTimeout = timeout;
       }
     }
+
+    if (process.env.GITHUB_CONCURRENCY) {
+      const concurrency = parseInt(process.env.GITHUB_CONCURRENCY, 10);
+      if (!isNaN(concurrency) && concurrency > 0) {
+        this.config.githubConcurrency = concurrency;
+      }
+    }
+
+    if (process.env.LLM_CONCURRENCY) {
+      const concurrency = parseInt(process.env.LLM_CONCURRENCY, 10);
+      if (!isNaN(concurrency) && concurrency > 0) {
+        this.config.llmConcurrency = concurrency;
+      }
+    }
+
+    if (process.env.EMBEDDING_MODEL) {
+      this.config.embeddingModel = process.env.EMBEDDING_MODEL;
+    }
   }
 
   /**
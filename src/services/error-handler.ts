@@ -21,6 +21,8 @@ export interface ErrorContext {
   productArea?: string;
   issueId?: number;
   filePath?: string;
+  githubApiUrl?: string; // GitHub instance, github.com if not set
+  githubWebUrl?: string;
   additionalInfo?: Record<string, any>;
 }
 
@@ -81,8 +83,9 @@ export class ErrorHandler {
         },
         {
           action: "Generate a new token",
-          description:
-            "Create a new Personal Access Token at https://github.com/settings/tokens",
+          description: `Create a new Personal Access Token at ${this.githubWebUrl(
+            context
+          )}/settings/tokens`,
           priority: "high",
         },
         {
@@ -126,7 +129,9 @@ export class ErrorHandler {
       suggestions = [
         {
           action: "Check network connection",
-          description: "Verify you can reach GitHub.com",
+          description: `Verify you can reach ${
+            new URL(this.githubWebUrl(context)).host
+          }`,
           priority: "medium",
         },
         {
@@ -165,7 +170,7 @@ export class ErrorHandler {
         },
         {
           action: "Check DNS settings",
-          description: "Ensure you can resolve api.github.com",
+          description: `Ensure you can resolve ${this.githubApiHost(context)}`,
           priority: "medium",
         },
         {
@@ -312,7 +317,9 @@ export class ErrorHandler {
         },
         {
           action: "Verify repository exists",
-          description: `Visit https://github.com/${context.repository} to confirm the repository exists`,
+          description: `Visit ${this.githubWebUrl(context)}/${
+            context.repository
+          } to confirm the repository exists`,
           priority: "medium",
         },
       ];
@@ -780,6 +787,20 @@ export class ErrorHandler {
     );
   }
 
+  /**
+   * Get the web URL of the GitHub instance an error came from
+   */
+  private static githubWebUrl(context: ErrorContext): string {
+    return (context.githubWebUrl || "https://github.com").replace(/\/+$/, "");
+  }
+
+  /**
+   * Get the API host name of the GitHub instance an error came from
+   */
+  private static githubApiHost(context: ErrorContext): string {
+    return new URL(context.githubApiUrl || "https://api.github.com").host;
+  }
+
   /**
    * Sleep for specified milliseconds
    */
@@ -0,0 +1,370 @@
+import * as fs from "fs-extra";
+import {
+  RawGitHubIssue,
+  RawComment,
+  LLMAnalysisResponse,
+  AnalyzedIssue,
+} from "../models";
+import { ErrorHandler, ErrorContext, ScraperError } from "./error-handler";
+import { JANClient } from "./jan-client";
+import { PromptManager } from "./prompt-manager";
+import { tokenize } from "./issue-text";
+import { MAX_BATCH_SIZE } from "./token-budget";
+
+// Share of a labeled workaround's words an extracted workaround must contain
+// to count as found
+const WORKAROUND_MATCH_THRESHOLD = 0.5;
+
+// Expected analysis of a golden-labeled issue
+export interface GoldenLabel {
+  relevant: boolean;
+  relevanceScore?: number; // 0-100, for score correlation
+  category?: string;
+  priority?: AnalyzedIssue["priority"];
+  workarounds?: string[]; // Descriptions of the workarounds in the thread
+}
+
+export interface GoldenIssue {
+  issue: RawGitHubIssue;
+  comments?: RawComment[];
+  expected: GoldenLabel;
+}
+
+// A hand-labeled fixture set of issues for one product area
+export interface GoldenSet {
+  name: string;
+  productArea: string;
+  minRelevanceScore?: number;
+  issues: GoldenIssue[];
+}
+
+// Metrics are null when the golden set has nothing to measure them on
+export interface EvalMetrics {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  scoreCorrelation: number | null; // Pearson, expected vs. predicted score
+  categoryAccuracy: number | null;
+  priorityAccuracy: number | null;
+  workaroundRecall: number | null;
+}
+
+export interface EvalIssueResult {
+  id: number;
+  number: number;
+  expectedRelevant: boolean;
+  predictedScore: number; // 0 if the model didn't report the issue
+  expectedScore?: number;
+  categoryMatch?: boolean;
+  priorityMatch?: boolean;
+  workaroundsExpected: number;
+  workaroundsFound: number;
+}
+
+export interface EvalResult {
+  goldenSet: string;
+  model: string;
+  promptVersion: string;
+  minRelevanceScore: number;
+  issueCount: number;
+  failedBatches: number;
+  metrics: EvalMetrics;
+  issues: EvalIssueResult[];
+  durationMs: number;
+  evaluatedAt: string;
+}
+
+/**
+ * Evaluator
+ *
+ * Runs the LLM analysis over a golden-labeled set of issues and measures how
+ * well a model and prompt version score relevance, classify issues and
+ * extract workarounds.
+ */
+export class Evaluator {
+  private janClient: JANClient;
+  private promptManager: PromptManager;
+
+  constructor(janClient: JANClient, promptManager: PromptManager) {
+    this.janClient = janClient;
+    this.promptManager = promptManager;
+  }
+
+  /**
+   * Load and check a golden set from a JSON file
+   *
+   * @throws ScraperError if the file can't be read or isn't a golden set
+   */
+  static async loadGoldenSet(filePath: string): Promise<GoldenSet> {
+    const context: ErrorContext = {
+      operation: "loading golden set",
+      filePath,
+    };
+
+    let goldenSet: GoldenSet;
+    try {
+      goldenSet = await fs.readJson(filePath);
+    } catch (error: any) {
+      throw ErrorHandler.convertToScraperError(error, context);
+    }
+
+    const invalid = (message: string): ScraperError =>
+      ErrorHandler.handleValidationError(message, context, [
+        {
+          action: "Fix the golden set",
+          description:
+            "See docs/eval/sample-golden-set.json for the expected format",
+          priority: "high",
+        },
+      ]);
+
+    if (typeof goldenSet?.productArea !== "string") {
+      throw invalid("Golden set has no productArea");
+    }
+    if (!Array.isArray(goldenSet.issues) || goldenSet.issues.length === 0) {
+      throw invalid("Golden set has no issues");
+    }
+    goldenSet.issues.forEach((labeled, index) => {
+      if (typeof labeled?.issue?.id !== "number") {
+        throw invalid(`Issue ${index + 1} of the golden set has no numeric id`);
+      }
+      if (typeof labeled.expected?.relevant !== "boolean") {
+        throw invalid(
+          `Issue #${labeled.issue.number} of the golden set has no expected.relevant label`
+        );
+      }
+    });
+
+    return { ...goldenSet, name: goldenSet.name || filePath };
+  }
+
+  /**
+   * Analyze the golden set's issues with the client's model and score the
+   * results against the labels
+   *
+   * @param goldenSet Labeled issues
+   * @param minRelevanceScore Score at which an issue counts as relevant
+   */
+  async evaluate(
+    goldenSet: GoldenSet,
+    minRelevanceScore: number
+  ): Promise<EvalResult> {
+    const start = Date.now();
+    const issues = goldenSet.issues.map((labeled) => labeled.issue);
+    const comments = new Map(
+      goldenSet.issues.map((labeled) => [
+        labeled.issue.id,
+        labeled.comments || [],
+      ])
+    );
+
+    const analysis = await this.janClient.analyzeIssues(
+      issues,
+      comments,
+      goldenSet.productArea,
+      this.promptManager,
+      MAX_BATCH_SIZE
+    );
+    const issueResults = scoreIssues(goldenSet, analysis);
+
+    return {
+      goldenSet: goldenSet.name,
+      model: this.janClient.getOptions().model,
+      promptVersion: this.promptManager.getPromptVersionLabel(),
+      minRelevanceScore,
+      issueCount: issues.length,
+      failedBatches: analysis.summary.processingErrors || 0,
+      metrics: computeMetrics(issueResults, minRelevanceScore),
+      issues: issueResults,
+      durationMs: Date.now() - start,
+      evaluatedAt: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Compare the analysis of each golden issue with its label
+ */
+export function scoreIssues(
+  goldenSet: GoldenSet,
+  analysis: LLMAnalysisResponse
+): EvalIssueResult[] {
+  const analyzed = new Map(
+    analysis.relevantIssues.map((issue) => [issue.id, issue])
+  );
+
+  return goldenSet.issues.map(({ issue, expected }) => {
+    const predicted = analyzed.get(issue.id);
+    const expectedWorkarounds = expected.workarounds || [];
+    const predictedWorkarounds = (predicted?.workarounds || []).map(
+      (workaround) => workaround.description || ""
+    );
+
+    return {
+      id: issue.id,
+      number: issue.number,
+      expectedRelevant: expected.relevant,
+      predictedScore: predicted?.relevanceScore || 0,
+      expectedScore: expected.relevanceScore,
+      // Classification only counts for issues both sides find relevant
+      categoryMatch:
+        predicted && expected.relevant && expected.category
+          ? sameLabel(predicted.category, expected.category)
+          : undefined,
+      priorityMatch:
+        predicted && expected.relevant && expected.priority
+          ? predicted.priority === expected.priority
+          : undefined,
+      workaroundsExpected: expectedWorkarounds.length,
+      workaroundsFound: expectedWorkarounds.filter((description) =>
+        predictedWorkarounds.some((found) =>
+          matchesWorkaround(description, found)
+        )
+      ).length,
+    };
+  });
+}
+
+/**
+ * Aggregate per-issue results into the set's metrics
+ */
+export function computeMetrics(
+  results: EvalIssueResult[],
+  minRelevanceScore: number
+): EvalMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  for (const result of results) {
+    const predictedRelevant = result.predictedScore >= minRelevanceScore;
+    if (predictedRelevant && result.expectedRelevant) {
+      truePositives++;
+    } else if (predictedRelevant) {
+      falsePositives++;
+    } else if (result.expectedRelevant) {
+      falseNegatives++;
+    }
+  }
+
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+  const scored = results.filter((result) => result.expectedScore !== undefined);
+
+  return {
+    precision,
+    recall,
+    f1:
+      precision !== null && recall !== null && precision + recall > 0
+        ? (2 * precision * recall) / (precision + recall)
+        : null,
+    scoreCorrelation: pearson(
+      scored.map((result) => result.expectedScore!),
+      scored.map((result) => result.predictedScore)
+    ),
+    categoryAccuracy: accuracy(results.map((result) => result.categoryMatch)),
+    priorityAccuracy: accuracy(results.map((result) => result.priorityMatch)),
+    workaroundRecall: ratio(
+      results.reduce((sum, result) => sum + result.workaroundsFound, 0),
+      results.reduce((sum, result) => sum + result.workaroundsExpected, 0)
+    ),
+  };
+}
+
+/**
+ * Whether an extracted workaround describes a labeled one
+ */
+export function matchesWorkaround(expected: string, found: string): boolean {
+  const expectedWords = new Set(tokenize(expected));
+  if (expectedWords.size === 0) {
+    return false;
+  }
+
+  const foundWords = new Set(tokenize(found));
+  const shared = Array.from(expectedWords).filter((word) =>
+    foundWords.has(word)
+  ).length;
+  return shared / expectedWords.size >= WORKAROUND_MATCH_THRESHOLD;
+}
+
+/**
+ * Render evaluation results as a table, one row per model and prompt version
+ */
+export function formatEvalTable(results: EvalResult[]): string {
+  const percent = (value: number | null) =>
+    value === null ? "n/a" : `${Math.round(value * 100)}%`;
+  const rows = [
+    [
+      "Model",
+      "Prompt",
+      "Precision",
+      "Recall",
+      "F1",
+      "Score r",
+      "Category",
+      "Priority",
+      "Workarounds",
+    ],
+    ...results.map((result) => [
+      result.model,
+      result.promptVersion,
+      percent(result.metrics.precision),
+      percent(result.metrics.recall),
+      percent(result.metrics.f1),
+      result.metrics.scoreCorrelation === null
+        ? "n/a"
+        : result.metrics.scoreCorrelation.toFixed(2),
+      percent(result.metrics.categoryAccuracy),
+      percent(result.metrics.priorityAccuracy),
+      percent(result.metrics.workaroundRecall),
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+function sameLabel(a: string | undefined, b: string): boolean {
+  return (a || "").trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function accuracy(matches: Array<boolean | undefined>): number | null {
+  const judged = matches.filter((match) => match !== undefined);
+  return ratio(judged.filter(Boolean).length, judged.length);
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 2) {
+    return null;
+  }
+
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, index) => {
+    covariance += (x - meanX) * (ys[index] - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (ys[index] - meanY) ** 2;
+  });
+
+  // Constant scores don't correlate with anything
+  return varianceX > 0 && varianceY > 0
+    ? covariance / Math.sqrt(varianceX * varianceY)
+    : null;
+}
@@ -1,11 +1,37 @@
 import axios, { AxiosInstance, AxiosResponse } from "axios";
-import { GitHubIssue, Comment } from "../models";
+import {
+  Config,
+  GitHubIssue,
+  Comment,
+  ItemKind,
+  IssueStateFilter,
+  IssueStateReason,
+  RawReactions,
+  Reactions,
+} from "../models";
 import {
   ErrorHandler,
   ScraperError,
   ErrorType,
   ErrorContext,
 } from "./error-handler";
+import {
+  ISSUES_QUERY,
+  PULL_REQUESTS_QUERY,
+  GraphQLComment,
+  GraphQLItem,
+  GraphQLItemConnection,
+  GraphQLItemsResponse,
+} from "./github-graphql";
+import { HttpCache } from "./http-cache";
+import { TrafficRecorder } from "./traffic-recorder";
+import { RequestScheduler } from "./request-scheduler";
+
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+export const DEFAULT_GITHUB_WEB_URL = "https://github.com";
+
+// GitHub Enterprise Server serves its REST API under this path of the web host
+const ENTERPRISE_API_PATH = "/api/v3";
 
 export interface GitHubApiIssue {
   id: number;
@@ -19,6 +45,28 @@ export interface GitHubApiIssue {
   user: { login: string };
   html_url: string;
   comments: number;
+  closed_at?: string | null;
+  state_reason?: IssueStateReason | null;
+  pull_request?: { url: string; html_url: string; merged_at?: string | null };
+  reactions?: RawReactions;
+}
+
+// Pull request as listed by the pulls endpoint, which has no comment count,
+// close reason or reactions
+export interface GitHubApiPullRequest {
+  id: number;
+  number: number;
+  title: string;
+  body: string | null;
+  labels: Array<{ name: string; color: string }>;
+  state: "open" | "closed";
+  created_at: string;
+  updated_at: string;
+  user: { login: string };
+  url: string;
+  html_url: string;
+  closed_at?: string | null;
+  merged_at?: string | null;
 }
 
 export interface GitHubApiComment {
@@ -27,6 +75,8 @@ export interface GitHubApiComment {
   body: string;
   created_at: string;
   author_association: string;
+  path?: string; // Only set on pull request review comments
+  reactions?: RawReactions;
 }
 
 export interface RateLimitInfo {
@@ -39,14 +89,16 @@ export interface PaginationOptions {
   page?: number;
   perPage?: number;
   maxPages?: number;
+  maxItems?: number; // Stop once this many items of the requested kind are fetched
 }
 
 export interface IssueFilters {
-  state?: "open" | "closed" | "all";
+  state?: IssueStateFilter;
   labels?: string;
   sort?: "created" | "updated" | "comments";
   direction?: "asc" | "desc";
   since?: string;
+  kind?: ItemKind; // The issues endpoint returns pull requests too
 }
 
 export interface SearchOptions {
@@ -57,6 +109,7 @@ export interface SearchOptions {
   order?: "asc" | "desc";
   perPage?: number;
   maxResults?: number;
+  kind?: ItemKind;
 }
 
 export interface GitHubSearchResponse {
@@ -75,13 +128,39 @@ export class GitHubApiError extends Error {
 export class GitHubClient {
   private client: AxiosInstance;
   private token: string;
+  private apiUrl: string;
+  private graphqlUrl: string;
+  private errorUrls: Pick<ErrorContext, "githubApiUrl" | "githubWebUrl">;
+  private httpCache?: HttpCache;
+  private trafficRecorder?: TrafficRecorder;
+  private scheduler: RequestScheduler;
   private baseDelay = 1000; // Base delay for exponential backoff (1 second)
   private maxRetries = 5;
 
-  constructor(token: string) {
+  constructor(
+    token: string,
+    apiUrl: string = DEFAULT_GITHUB_API_URL,
+    httpCache?: HttpCache,
+    trafficRecorder?: TrafficRecorder,
+    concurrency: number = 1
+  ) {
     this.token = token;
+    this.httpCache = httpCache;
+    this.trafficRecorder = trafficRecorder;
+    this.scheduler = new RequestScheduler(concurrency);
+    this.apiUrl = apiUrl.replace(/\/+$/, "");
+    // Suggestions in errors point to this instance rather than github.com
+    this.errorUrls = {
+      githubApiUrl: this.apiUrl,
+      githubWebUrl: GitHubClient.resolveUrls({ githubApiUrl: apiUrl }).webUrl,
+    };
+    // GitHub Enterprise Server serves GraphQL at /api/graphql, not under /api/v3
+    this.graphqlUrl = `${this.apiUrl.replace(
+      new RegExp(`${ENTERPRISE_API_PATH}$`),
+      "/api"
+    )}/graphql`;
     this.client = axios.create({
-      baseURL: "https://api.github.com",
+      baseURL: apiUrl,
       headers: {
         Accept: "application/vnd.github.v3+json",
         Authorization: `Bearer ${token}`,
@@ -116,13 +195,17 @@ export class GitHubClient {
     const context: ErrorContext = {
       operation: "fetching repository issues",
       repository,
+      ...this.errorUrls,
     };
 
     return ErrorHandler.executeWithRetry(async () => {
       const [owner, repo] = this.parseRepository(repository);
       const issues: GitHubIssue[] = [];
 
-      const { page = 1, perPage = 100, maxPages = 10 } = pagination;
+      const { page = 1, perPage = 100, maxItems } = pagination;
+      // Without an item limit, the page limit keeps large repositories in check
+      const maxPages =
+        pagination.maxPages ?? (maxItems === undefined ? 10 : Infinity);
 
       const {
         state = "open",
@@ -130,12 +213,23 @@ export class GitHubClient {
         sort = "updated",
         direction = "desc",
         since,
+        kind = "issues",
       } = filters;
 
+      // The issues endpoint mixes in pull requests, so that pages of an
+      // issue-heavy repository hold few of them. The pulls endpoint can't
+      // filter by label or date nor sort by comments, though.
+      const usePullsEndpoint =
+        kind === "prs" && !labels && !since && sort !== "comments";
+
       let currentPage = page;
       let hasNextPage = true;
 
-      while (hasNextPage && currentPage <= maxPages) {
+      while (
+        hasNextPage &&
+        currentPage <= maxPages &&
+        (maxItems === undefined || issues.length < maxItems)
+      ) {
         const params: any = {
           state,
           sort,
@@ -147,16 +241,29 @@ export class GitHubClient {
         if (labels) params.labels = labels;
         if (since) params.since = since;
 
-        const response = await this.makeRequest<GitHubApiIssue[]>(
-          `/repos/${owner}/${repo}/issues`,
-          { params }
-        );
+        const pageItems = usePullsEndpoint
+          ? (
+              await this.makeRequest<GitHubApiPullRequest[]>(
+                `/repos/${owner}/${repo}/pulls`,
+                { params }
+              )
+            ).data.map(this.pullRequestToApiIssue)
+          : (
+              await this.makeRequest<GitHubApiIssue[]>(
+                `/repos/${owner}/${repo}/issues`,
+                { params }
+              )
+            ).data;
 
         // Transform issues with error handling for malformed data
         const pageIssues: GitHubIssue[] = [];
-        for (const apiIssue of response.data) {
+        for (const apiIssue of pageItems) {
+          if (!this.matchesKind(apiIssue, kind)) {
+            continue;
+          }
+
           try {
-            pageIssues.push(this.transformIssue(apiIssue));
+            pageIssues.push(this.transformIssue(apiIssue, repository));
           } catch (error) {
             // Handle malformed issue data gracefully
             const parseContext: ErrorContext = {
@@ -177,7 +284,7 @@ export class GitHubClient {
         issues.push(...pageIssues);
 
         // Check if there are more pages
-        hasNextPage = response.data.length === perPage;
+        hasNextPage = pageItems.length === perPage;
         currentPage++;
 
         // Log progress for large repositories
@@ -186,10 +293,79 @@ export class GitHubClient {
         }
       }
 
-      return issues;
+      return maxItems === undefined ? issues : issues.slice(0, maxItems);
+    }, context);
+  }
+
+  /**
+   * Fetch repository issues and/or pull requests with their comments and
+   * reactions through the GraphQL API. This takes one request per page instead
+   * of one REST request per issue for its comments.
+   */
+  async getRepositoryIssuesWithComments(
+    repository: string,
+    filters: IssueFilters = {},
+    pagination: PaginationOptions = {}
+  ): Promise<GitHubIssue[]> {
+    const context: ErrorContext = {
+      operation: "fetching repository issues with comments",
+      repository,
+      ...this.errorUrls,
+    };
+
+    return ErrorHandler.executeWithRetry(async () => {
+      const { kind = "issues", sort = "updated", direction = "desc" } = filters;
+      const items: GitHubIssue[] = [];
+
+      if (kind !== "prs") {
+        items.push(
+          ...(await this.fetchGraphQLItems(
+            repository,
+            "issues",
+            filters,
+            pagination,
+            context
+          ))
+        );
+      }
+      if (kind !== "issues") {
+        items.push(
+          ...(await this.fetchGraphQLItems(
+            repository,
+            "pullRequests",
+            filters,
+            pagination,
+            context
+          ))
+        );
+      }
+
+      // Issues and pull requests come from separate connections
+      if (kind === "both") {
+        const sortValue = (item: GitHubIssue) =>
+          sort === "created"
+            ? item.createdAt.getTime()
+            : sort === "comments"
+            ? item.comments.length
+            : item.updatedAt.getTime();
+        items.sort((a, b) =>
+          direction === "asc"
+            ? sortValue(a) - sortValue(b)
+            : sortValue(b) - sortValue(a)
+        );
+      }
+
+      return items;
     }, context);
   }
 
+  /**
+   * Most requests this client sends at once
+   */
+  get concurrency(): number {
+    return this.scheduler.concurrency;
+  }
+
   /**
    * Retrieve all comments for a specific issue
    */
@@ -197,12 +373,96 @@ export class GitHubClient {
     repository: string,
     issueNumber: number
   ): Promise<Comment[]> {
-    const context: ErrorContext = {
+    return this.fetchComments(repository, issueNumber, "issues", {
       operation: "fetching issue comments",
       repository,
       issueId: issueNumber,
-    };
+      ...this.errorUrls,
+    });
+  }
 
+  /**
+   * Retrieve all review comments (comments on the diff) for a pull request
+   */
+  async getPullRequestReviewComments(
+    repository: string,
+    pullNumber: number
+  ): Promise<Comment[]> {
+    return this.fetchComments(repository, pullNumber, "pulls", {
+      operation: "fetching pull request review comments",
+      repository,
+      issueId: pullNumber,
+      ...this.errorUrls,
+    });
+  }
+
+  /**
+   * Resolve the API and web base URLs of the configured GitHub instance.
+   * Only one of them needs to be configured for GitHub Enterprise Server,
+   * the other is derived from it.
+   */
+  static resolveUrls(config: Pick<Config, "githubApiUrl" | "githubWebUrl">): {
+    apiUrl: string;
+    webUrl: string;
+  } {
+    const apiUrl = config.githubApiUrl?.replace(/\/+$/, "");
+    const webUrl = config.githubWebUrl?.replace(/\/+$/, "");
+
+    if (apiUrl && webUrl) {
+      return { apiUrl, webUrl };
+    }
+    if (apiUrl) {
+      return {
+        apiUrl,
+        webUrl:
+          apiUrl === DEFAULT_GITHUB_API_URL
+            ? DEFAULT_GITHUB_WEB_URL
+            : apiUrl.replace(new RegExp(`${ENTERPRISE_API_PATH}$`), ""),
+      };
+    }
+    if (webUrl && webUrl !== DEFAULT_GITHUB_WEB_URL) {
+      return { apiUrl: `${webUrl}${ENTERPRISE_API_PATH}`, webUrl };
+    }
+
+    return { apiUrl: DEFAULT_GITHUB_API_URL, webUrl: DEFAULT_GITHUB_WEB_URL };
+  }
+
+  /**
+   * Parse the issues a pull request closes from its body, e.g. "Fixes #123"
+   * or "closes owner/repo#123" (references to other repositories are ignored)
+   */
+  static parseLinkedIssues(body: string, repository?: string): number[] {
+    const pattern =
+      /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+(?:([\w.-]+\/[\w.-]+))?#(\d+)\b/gi;
+    const linked: number[] = [];
+
+    for (const match of (body || "").matchAll(pattern)) {
+      const [, reference, number] = match;
+      if (
+        reference &&
+        reference.toLowerCase() !== (repository || "").toLowerCase()
+      ) {
+        continue;
+      }
+
+      const issueNumber = parseInt(number, 10);
+      if (!linked.includes(issueNumber)) {
+        linked.push(issueNumber);
+      }
+    }
+
+    return linked;
+  }
+
+  /**
+   * Fetch all pages of issue comments or pull request review comments
+   */
+  private async fetchComments(
+    repository: string,
+    issueNumber: number,
+    resource: "issues" | "pulls",
+    context: ErrorContext
+  ): Promise<Comment[]> {
     return ErrorHandler.executeWithRetry(async () => {
       const [owner, repo] = this.parseRepository(repository);
       const comments: Comment[] = [];
@@ -212,7 +472,7 @@ export class GitHubClient {
 
       while (hasNextPage) {
         const response = await this.makeRequest<GitHubApiComment[]>(
-          `/repos/${owner}/${repo}/issues/${issueNumber}/comments`,
+          `/repos/${owner}/${repo}/${resource}/${issueNumber}/comments`,
           {
             params: {
               page,
@@ -255,6 +515,156 @@ export class GitHubClient {
     }, context);
   }
 
+  /**
+   * Page through the issues or pull requests connection of a repository
+   */
+  private async fetchGraphQLItems(
+    repository: string,
+    connection: "issues" | "pullRequests",
+    filters: IssueFilters,
+    pagination: PaginationOptions,
+    context: ErrorContext
+  ): Promise<GitHubIssue[]> {
+    const [owner, name] = this.parseRepository(repository);
+    const isPullRequest = connection === "pullRequests";
+    const items: GitHubIssue[] = [];
+
+    // GraphQL paginates with cursors, so pagination.page is not supported
+    const { perPage = 50, maxPages = 10 } = pagination;
+    const {
+      state = "open",
+      labels,
+      sort = "updated",
+      direction = "desc",
+      since,
+    } = filters;
+
+    const states: Record<IssueStateFilter, string[] | null> = isPullRequest
+      ? { open: ["OPEN"], closed: ["CLOSED", "MERGED"], all: null }
+      : { open: ["OPEN"], closed: ["CLOSED"], all: null };
+
+    const variables: Record<string, unknown> = {
+      owner,
+      name,
+      first: Math.min(perPage, 100),
+      states: states[state],
+      labels: labels ? labels.split(",").map((label) => label.trim()) : null,
+      orderBy: {
+        field:
+          sort === "created"
+            ? "CREATED_AT"
+            : sort === "comments" && !isPullRequest
+            ? "COMMENTS"
+            : "UPDATED_AT",
+        direction: direction.toUpperCase(),
+      },
+      ...(!isPullRequest && { since: since || null }),
+    };
+
+    // Pull requests have no "since" filter, so older ones are skipped here
+    const sinceTime = isPullRequest && since ? new Date(since).getTime() : 0;
+    const newestFirst = sort === "updated" && direction === "desc";
+
+    let after: string | null = null;
+    for (let page = 1; page <= maxPages; page++) {
+      const response = await this.queryRepositoryItems(
+        isPullRequest ? PULL_REQUESTS_QUERY : ISSUES_QUERY,
+        { ...variables, after },
+        context
+      );
+
+      let reachedSince = false;
+      for (const node of response.nodes) {
+        if (sinceTime && new Date(node.updatedAt).getTime() < sinceTime) {
+          reachedSince = true;
+          continue;
+        }
+
+        try {
+          items.push(
+            await this.transformGraphQLItem(node, repository, isPullRequest)
+          );
+        } catch (error) {
+          // Handle malformed issue data gracefully
+          const parseContext: ErrorContext = {
+            operation: "parsing issue data",
+            repository,
+            issueId: node.databaseId,
+          };
+          console.warn(
+            ErrorHandler.formatError(
+              ErrorHandler.handleParsingError(error, parseContext, node),
+              false
+            )
+          );
+          // Continue processing other issues
+        }
+      }
+
+      if (!response.pageInfo.hasNextPage || (reachedSince && newestFirst)) {
+        break;
+      }
+      after = response.pageInfo.endCursor;
+    }
+
+    return items;
+  }
+
+  /**
+   * Run a repository items query and surface GraphQL errors, which GitHub
+   * returns with a 200 status
+   */
+  private async queryRepositoryItems(
+    query: string,
+    variables: Record<string, unknown>,
+    context: ErrorContext
+  ): Promise<GraphQLItemConnection> {
+    const response = await this.makeRequest<GraphQLItemsResponse>(
+      this.graphqlUrl,
+      { method: "POST", data: { query, variables } }
+    );
+    const { data, errors } = response.data;
+
+    if (errors && errors.length > 0) {
+      if (errors.some((error) => error.type === "RATE_LIMITED")) {
+        throw ErrorHandler.handleRateLimitError(
+          { response: { headers: response.headers } },
+          context
+        );
+      }
+      if (errors.some((error) => error.type === "NOT_FOUND")) {
+        throw ErrorHandler.handleRepositoryError(
+          { response: { status: 404 } },
+          context
+        );
+      }
+
+      throw ErrorHandler.handleValidationError(
+        `GitHub GraphQL error: ${errors
+          .map((error) => error.message)
+          .join("; ")}`,
+        context,
+        [
+          {
+            action: "Use the REST API",
+            description:
+              "Rerun with --github-api-mode rest, e.g. for older GitHub Enterprise Server versions",
+            priority: "high",
+          },
+        ]
+      );
+    }
+
+    if (!data?.repository) {
+      throw ErrorHandler.handleRepositoryError(
+        { response: { status: 404 } },
+        context
+      );
+    }
+
+    return data.repository.items;
+  }
+
   /**
    * Search for issues using GitHub's search API
    */
@@ -263,6 +673,7 @@ export class GitHubClient {
       operation: "searching issues",
       repository: options.repository,
       productArea: options.query,
+      ...this.errorUrls,
     };
 
     return ErrorHandler.executeWithRetry(async () => {
@@ -294,7 +705,7 @@ export class GitHubClient {
         const pageIssues: GitHubIssue[] = [];
         for (const apiIssue of response.data.items) {
           try {
-            pageIssues.push(this.transformIssue(apiIssue));
+            pageIssues.push(this.transformIssue(apiIssue, options.repository));
           } catch (error) {
             // Handle malformed issue data gracefully
             const parseContext: ErrorContext = {
@@ -345,8 +756,11 @@ export class GitHubClient {
     // Add repository filter
     queryParts.push(`repo:${options.repository}`);
 
-    // Add type filter (issues only, not pull requests)
-    queryParts.push("type:issue");
+    // Add type filter (issues only unless pull requests were requested)
+    const kind = options.kind || "issues";
+    if (kind !== "both") {
+      queryParts.push(kind === "prs" ? "type:pr" : "type:issue");
+    }
 
     // Add state filter
     if (options.state) {
@@ -364,6 +778,7 @@ export class GitHubClient {
   async getRateLimitInfo(): Promise<RateLimitInfo> {
     const context: ErrorContext = {
       operation: "fetching rate limit information",
+      ...this.errorUrls,
     };
 
     return ErrorHandler.executeWithRetry(async () => {
@@ -387,6 +802,7 @@ export class GitHubClient {
   ): Promise<AxiosResponse<T>> {
     const context: ErrorContext = {
       operation: `making API request to ${url}`,
+      ...this.errorUrls,
     };
 
     return ErrorHandler.executeWithRetry(async () => {
@@ -414,7 +830,7 @@ export class GitHubClient {
           ...config,
         };
 
-        return await this.client.request<T>(requestConfig);
+        return await this.sendRequest<T>(requestConfig);
       } catch (error: any) {
         // Add specific handling for common GitHub API errors
         if (error.response?.status === 422) {
@@ -446,6 +862,109 @@ export class GitHubClient {
     }, context);
   }
 
+  /**
+   * Send a request, recording it or serving it from recorded traffic when a
+   * traffic recorder is set
+   */
+  private async sendRequest<T>(requestConfig: any): Promise<AxiosResponse<T>> {
+    const recorder = this.trafficRecorder;
+    const request = {
+      method: requestConfig.method,
+      url: this.absoluteUrl(requestConfig.url),
+      params: requestConfig.params,
+      data: requestConfig.data,
+    };
+
+    if (recorder?.mode === "replay") {
+      const recorded = await recorder.replay<
+        Pick<AxiosResponse<T>, "status" | "headers" | "data">
+      >("github", request);
+      return {
+        ...recorded,
+        statusText: "",
+        config: requestConfig,
+      } as AxiosResponse<T>;
+    }
+
+    let response: AxiosResponse<T>;
+    try {
+      response = await this.scheduler.schedule(() =>
+        this.httpCache && requestConfig.method === "GET"
+          ? this.makeCachedRequest<T>(requestConfig, this.httpCache)
+          : this.client.request<T>(requestConfig)
+      );
+    } catch (error: any) {
+      await recorder?.recordError("github", request, error);
+      throw error;
+    }
+
+    await recorder?.record("github", request, {
+      response: {
+        status: response.status,
+        headers: response.headers,
+        data: response.data,
+      },
+    });
+
+    return response;
+  }
+
+  /**
+   * Resolve a request path against the API base URL, so that the same
+   * repository on github.com and on GitHub Enterprise Server don't share
+   * cache entries or recorded traffic
+   */
+  private absoluteUrl(url: string): string {
+    return /^https?:\/\//.test(url)
+      ? url
+      : `${this.apiUrl}/${url.replace(/^\/+/, "")}`;
+  }
+
+  /**
+   * Make a conditional GET request with the cached ETag/Last-Modified and
+   * answer 304 Not Modified from the cache
+   */
+  private async makeCachedRequest<T>(
+    requestConfig: any,
+    httpCache: HttpCache
+  ): Promise<AxiosResponse<T>> {
+    const url = this.absoluteUrl(requestConfig.url);
+    const key = HttpCache.computeKey(url, requestConfig.params);
+    const cached = await httpCache.get(key);
+
+    const response = await this.client.request<T>({
+      ...requestConfig,
+      headers: {
+        ...requestConfig.headers,
+        ...(cached?.etag && { "If-None-Match": cached.etag }),
+        ...(cached?.lastModified && {
+          "If-Modified-Since": cached.lastModified,
+        }),
+      },
+      validateStatus: (status: number) =>
+        (status >= 200 && status < 300) || (!!cached && status === 304),
+    });
+
+    if (response.status === 304 && cached) {
+      return { ...response, status: 200, data: cached.data as T };
+    }
+
+    const etag = response.headers?.["etag"];
+    const lastModified = response.headers?.["last-modified"];
+    if (etag || lastModified) {
+      await httpCache.set(key, {
+        url,
+        params: requestConfig.params,
+        etag,
+        lastModified,
+        data: response.data,
+        storedAt: new Date().toISOString(),
+      });
+    }
+
+    return response;
+  }
+
   /**
    * Check if error is rate limiting (used by interceptor)
    */
@@ -504,10 +1023,47 @@ export class GitHubClient {
     return [parts[0], parts[1]];
   }
 
+  /**
+   * Check whether an item from the issues endpoint is of the requested kind
+   */
+  private matchesKind(apiIssue: GitHubApiIssue, kind: ItemKind): boolean {
+    if (kind === "both") return true;
+    return kind === "prs" ? !!apiIssue.pull_request : !apiIssue.pull_request;
+  }
+
   /**
    * Transform GitHub API issue to internal format
    */
-  private transformIssue = (apiIssue: GitHubApiIssue): GitHubIssue => {
+  /**
+   * Convert a pull request of the pulls endpoint to the shape of the issues
+   * endpoint
+   */
+  private pullRequestToApiIssue = (
+    pull: GitHubApiPullRequest
+  ): GitHubApiIssue => ({
+    id: pull.id,
+    number: pull.number,
+    title: pull.title,
+    body: pull.body,
+    labels: pull.labels,
+    state: pull.state,
+    created_at: pull.created_at,
+    updated_at: pull.updated_at,
+    user: pull.user,
+    html_url: pull.html_url,
+    comments: 0,
+    closed_at: pull.closed_at,
+    pull_request: {
+      url: pull.url,
+      html_url: pull.html_url,
+      merged_at: pull.merged_at,
+    },
+  });
+
+  private transformIssue = (
+    apiIssue: GitHubApiIssue,
+    repository?: string
+  ): GitHubIssue => {
     return {
       id: apiIssue.id,
       number: apiIssue.number,
@@ -528,9 +1084,135 @@ export class GitHubClient {
       workarounds: [],
       tags: [],
       sentiment: "neutral",
+      ...(apiIssue.closed_at && { closedAt: new Date(apiIssue.closed_at) }),
+      ...(apiIssue.state_reason && { stateReason: apiIssue.state_reason }),
+      ...(apiIssue.pull_request && {
+        pullRequest: {
+          mergedAt: apiIssue.pull_request.merged_at
+            ? new Date(apiIssue.pull_request.merged_at)
+            : undefined,
+          linkedIssues: GitHubClient.parseLinkedIssues(
+            apiIssue.body || "",
+            repository
+          ),
+        },
+      }),
+      ...(apiIssue.reactions && {
+        reactions: this.transformReactions(apiIssue.reactions),
+      }),
     };
   };
 
+  /**
+   * Transform a GraphQL issue or pull request with its comments to internal
+   * format. Items with more comments than fit in the query are completed
+   * through the REST API.
+   */
+  private async transformGraphQLItem(
+    node: GraphQLItem,
+    repository: string,
+    isPullRequest: boolean
+  ): Promise<GitHubIssue> {
+    const issue = this.transformIssue(
+      {
+        id: node.databaseId,
+        number: node.number,
+        title: node.title,
+        body: node.body,
+        labels: node.labels.nodes.map((label) => ({
+          name: label.name,
+          color: "",
+        })),
+        state: node.state === "OPEN" ? "open" : "closed",
+        created_at: node.createdAt,
+        updated_at: node.updatedAt,
+        user: { login: node.author?.login || "ghost" },
+        html_url: node.url,
+        comments: node.comments.nodes.length,
+        closed_at: node.closedAt,
+        state_reason: node.stateReason
+          ? (node.stateReason.toLowerCase() as IssueStateReason)
+          : null,
+        ...(isPullRequest && {
+          pull_request: {
+            url: node.url,
+            html_url: node.url,
+            merged_at: node.mergedAt,
+          },
+        }),
+        reactions: this.toApiReactions(node),
+      },
+      repository
+    );
+
+    issue.comments = node.comments.pageInfo.hasNextPage
+      ? await this.getIssueComments(repository, node.number)
+      : node.comments.nodes.map((comment) =>
+          this.transformComment(this.toApiComment(comment))
+        );
+
+    if (node.reviewThreads) {
+      const truncated =
+        node.reviewThreads.pageInfo.hasNextPage ||
+        node.reviewThreads.nodes.some(
+          (thread) => thread.comments.pageInfo.hasNextPage
+        );
+      const reviewComments = truncated
+        ? await this.getPullRequestReviewComments(repository, node.number)
+        : node.reviewThreads.nodes.flatMap((thread) =>
+            thread.comments.nodes.map((comment) =>
+              this.transformComment(this.toApiComment(comment, thread.path))
+            )
+          );
+
+      issue.comments = [...issue.comments, ...reviewComments].sort(
+        (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+      );
+    }
+
+    return issue;
+  }
+
+  /**
+   * Convert a GraphQL comment to the REST shape
+   */
+  private toApiComment(
+    comment: GraphQLComment,
+    path?: string
+  ): GitHubApiComment {
+    return {
+      id: comment.databaseId,
+      user: { login: comment.author?.login || "ghost", type: "" },
+      body: comment.body,
+      created_at: comment.createdAt,
+      author_association: comment.authorAssociation,
+      ...(path && { path }),
+      reactions: this.toApiReactions(comment),
+    };
+  }
+
+  /**
+   * Convert GraphQL reaction counts to the REST rollup shape
+   */
+  private toApiReactions(
+    node: Pick<GraphQLComment, "reactions" | "thumbsUp">
+  ): RawReactions {
+    return {
+      total_count: node.reactions.totalCount,
+      "+1": node.thumbsUp.totalCount,
+    };
+  }
+
+  /**
+   * Transform the REST reaction rollup to internal format
+   */
+  private transformReactions(reactions: RawReactions): Reactions {
+    return {
+      totalCount: reactions.total_count,
+      thumbsUp: reactions["+1"],
+    };
+  }
+
   /**
    * Transform GitHub API comment to internal format
    */
@@ -556,6 +1238,10 @@ export class GitHubClient {
       body: apiComment.body,
       createdAt: new Date(apiComment.created_at),
       authorType,
+      ...(apiComment.path && { path: apiComment.path }),
+      ...(apiComment.reactions && {
+        reactions: this.transformReactions(apiComment.reactions),
+      }),
     };
   };
 }
@@ -0,0 +1,166 @@
+/**
+ * GraphQL documents and response shapes for fetching issues and pull requests
+ * together with their comments and reactions in one request per page.
+ *
+ * Each page asks for up to 100 comments per item; items with more comments
+ * are completed through the REST API by the client.
+ */
+
+const REACTION_FIELDS = `
+  reactions { totalCount }
+  thumbsUp: reactions(content: THUMBS_UP) { totalCount }
+`;
+
+const COMMENT_FIELDS = `
+  databaseId
+  author { login }
+  body
+  createdAt
+  authorAssociation
+  ${REACTION_FIELDS}
+`;
+
+const ITEM_FIELDS = `
+  databaseId
+  number
+  title
+  body
+  url
+  state
+  createdAt
+  updatedAt
+  closedAt
+  author { login }
+  labels(first: 100) { nodes { name } }
+  ${REACTION_FIELDS}
+  comments(first: 100) {
+    pageInfo { hasNextPage }
+    nodes { ${COMMENT_FIELDS} }
+  }
+`;
+
+export const ISSUES_QUERY = `
+query RepositoryIssues(
+  $owner: String!
+  $name: String!
+  $first: Int!
+  $after: String
+  $states: [IssueState!]
+  $labels: [String!]
+  $since: DateTime
+  $orderBy: IssueOrder
+) {
+  repository(owner: $owner, name: $name) {
+    items: issues(
+      first: $first
+      after: $after
+      states: $states
+      labels: $labels
+      filterBy: { since: $since }
+      orderBy: $orderBy
+    ) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        ${ITEM_FIELDS}
+        stateReason
+      }
+    }
+  }
+}
+`;
+
+// Pull requests have no "since" filter; the client stops paging instead
+export const PULL_REQUESTS_QUERY = `
+query RepositoryPullRequests(
+  $owner: String!
+  $name: String!
+  $first: Int!
+  $after: String
+  $states: [PullRequestState!]
+  $labels: [String!]
+  $orderBy: IssueOrder
+) {
+  repository(owner: $owner, name: $name) {
+    items: pullRequests(
+      first: $first
+      after: $after
+      states: $states
+      labels: $labels
+      orderBy: $orderBy
+    ) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        ${ITEM_FIELDS}
+        mergedAt
+        reviewThreads(first: 50) {
+          pageInfo { hasNextPage }
+          nodes {
+            path
+            comments(first: 50) {
+              pageInfo { hasNextPage }
+              nodes { ${COMMENT_FIELDS} }
+            }
+          }
+        }
+      }
+    }
+  }
+}
+`;
+
+export interface GraphQLReactionFields {
+  reactions: { totalCount: number };
+  thumbsUp: { totalCount: number };
+}
+
+export interface GraphQLComment extends GraphQLReactionFields {
+  databaseId: number;
+  author: { login: string } | null; // null for deleted accounts
+  body: string;
+  createdAt: string;
+  authorAssociation: string;
+}
+
+export interface GraphQLItem extends GraphQLReactionFields {
+  databaseId: number;
+  number: number;
+  title: string;
+  body: string | null;
+  url: string;
+  state: "OPEN" | "CLOSED" | "MERGED";
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  author: { login: string } | null;
+  labels: { nodes: Array<{ name: string }> };
+  comments: {
+    pageInfo: { hasNextPage: boolean };
+    nodes: GraphQLComment[];
+  };
+  // Issues only
+  stateReason?: "COMPLETED" | "NOT_PLANNED" | "REOPENED" | null;
+  // Pull requests only
+  mergedAt?: string | null;
+  reviewThreads?: {
+    pageInfo: { hasNextPage: boolean };
+    nodes: Array<{
+      path: string;
+      comments: {
+        pageInfo: { hasNextPage: boolean };
+        nodes: GraphQLComment[];
+      };
+    }>;
+  };
+}
+
+export interface GraphQLItemConnection {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: GraphQLItem[];
+}
+
+export interface GraphQLItemsResponse {
+  data?: {
+    repository: { items: GraphQLItemConnection } | null; // null if not found
+  };
+  errors?: Array<{ type?: string; message: string }>;
+}
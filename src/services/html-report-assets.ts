@@ -0,0 +1,149 @@
+/**
+ * Inline CSS and JavaScript for the HTML report.
+ *
+ * The report must open from an email attachment or file share, so nothing
+ * here may load external resources.
+ */
+
+export const HTML_REPORT_STYLES = `
+:root {
+  --border: #d0d7de;
+  --muted: #57606a;
+  --bg-subtle: #f6f8fa;
+  --accent: #0969da;
+}
+* { box-sizing: border-box; }
+body {
+  margin: 0;
+  padding: 24px;
+  font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+  color: #1f2328;
+}
+h1 { font-size: 24px; margin: 0 0 4px; }
+a { color: var(--accent); text-decoration: none; }
+a:hover { text-decoration: underline; }
+.meta { color: var(--muted); margin-bottom: 16px; }
+.stats { display: flex; flex-wrap: wrap; gap: 12px; margin-bottom: 16px; }
+.stat { background: var(--bg-subtle); border: 1px solid var(--border); border-radius: 6px; padding: 8px 12px; }
+.stat strong { display: block; font-size: 18px; }
+.filters {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 12px;
+  align-items: center;
+  padding: 12px;
+  margin-bottom: 16px;
+  background: var(--bg-subtle);
+  border: 1px solid var(--border);
+  border-radius: 6px;
+}
+.filters label { display: flex; gap: 6px; align-items: center; }
+.filters select, .filters input[type="search"] { padding: 4px; border: 1px solid var(--border); border-radius: 4px; }
+table { width: 100%; border-collapse: collapse; }
+th, td { border-bottom: 1px solid var(--border); padding: 8px; text-align: left; vertical-align: top; }
+th { background: var(--bg-subtle); cursor: pointer; user-select: none; white-space: nowrap; }
+th[aria-sort="ascending"]::after { content: " \\25B2"; }
+th[aria-sort="descending"]::after { content: " \\25BC"; }
+td.num { text-align: right; white-space: nowrap; }
+.badge { display: inline-block; padding: 0 6px; border-radius: 10px; font-size: 12px; border: 1px solid var(--border); }
+.priority-high { background: #ffebe9; border-color: #ff8182; }
+.priority-medium { background: #fff8c5; border-color: #d4a72c; }
+.priority-low { background: #dafbe1; border-color: #4ac26b; }
+.tag { display: inline-block; margin: 0 4px 4px 0; padding: 0 6px; border-radius: 4px; background: #ddf4ff; font-size: 12px; }
+details { margin-top: 6px; }
+summary { cursor: pointer; color: var(--muted); }
+.summary-text { margin: 6px 0; white-space: pre-wrap; }
+.workaround { margin: 6px 0; padding: 6px 8px; border-left: 3px solid var(--border); background: var(--bg-subtle); white-space: pre-wrap; }
+.workaround-confirmed { border-left-color: #1a7f37; }
+.workaround-partial { border-left-color: #d4a72c; }
+.empty { padding: 24px; text-align: center; color: var(--muted); }
+.clusters { margin-bottom: 16px; padding: 12px; border: 1px solid var(--border); border-radius: 6px; }
+.clusters h2 { font-size: 16px; margin: 0 0 8px; }
+.cluster { margin-top: 8px; }
+.cluster ul { margin: 4px 0; padding-left: 20px; }
+@media print {
+  .filters { display: none; }
+  details { display: block; }
+}
+`;
+
+export const HTML_REPORT_SCRIPT = `
+(function () {
+  var tbody = document.getElementById("issues-body");
+  var rows = Array.prototype.slice.call(tbody.querySelectorAll("tr.issue"));
+  var controls = {
+    search: document.getElementById("filter-search"),
+    category: document.getElementById("filter-category"),
+    priority: document.getElementById("filter-priority"),
+    sentiment: document.getElementById("filter-sentiment"),
+    tag: document.getElementById("filter-tag"),
+    score: document.getElementById("filter-score")
+  };
+  var scoreValue = document.getElementById("filter-score-value");
+  var visibleCount = document.getElementById("visible-count");
+  var emptyRow = document.getElementById("no-matches");
+
+  function applyFilters() {
+    var search = controls.search.value.trim().toLowerCase();
+    var minScore = Number(controls.score.value);
+    var visible = 0;
+    scoreValue.textContent = String(minScore);
+
+    rows.forEach(function (row) {
+      var tags = row.getAttribute("data-tags").split("\\n");
+      var matches =
+        Number(row.getAttribute("data-score")) >= minScore &&
+        (!controls.category.value || row.getAttribute("data-category") === controls.category.value) &&
+        (!controls.priority.value || row.getAttribute("data-priority") === controls.priority.value) &&
+        (!controls.sentiment.value || row.getAttribute("data-sentiment") === controls.sentiment.value) &&
+        (!controls.tag.value || tags.indexOf(controls.tag.value) !== -1) &&
+        (!search || row.textContent.toLowerCase().indexOf(search) !== -1);
+
+      row.hidden = !matches;
+      if (matches) visible++;
+    });
+
+    visibleCount.textContent = String(visible);
+    emptyRow.hidden = visible > 0;
+  }
+
+  function sortBy(header) {
+    var key = header.getAttribute("data-sort");
+    var numeric = header.getAttribute("data-type") === "number";
+    var descending = header.getAttribute("aria-sort") !== "descending";
+
+    document.querySelectorAll("th[data-sort]").forEach(function (th) {
+      th.removeAttribute("aria-sort");
+    });
+    header.setAttribute("aria-sort", descending ? "descending" : "ascending");
+
+    rows.sort(function (a, b) {
+      var left = a.getAttribute("data-" + key);
+      var right = b.getAttribute("data-" + key);
+      var result = numeric
+        ? Number(left) - Number(right)
+        : left.localeCompare(right);
+      return descending ? -result : result;
+    });
+    rows.forEach(function (row) {
+      tbody.insertBefore(row, emptyRow);
+    });
+  }
+
+  Object.keys(controls).forEach(function (name) {
+    controls[name].addEventListener("input", applyFilters);
+  });
+  document.querySelectorAll("th[data-sort]").forEach(function (header) {
+    header.addEventListener("click", function () {
+      sortBy(header);
+    });
+  });
+  document.getElementById("toggle-details").addEventListener("click", function () {
+    var details = document.querySelectorAll("tr.issue:not([hidden]) details");
+    var open = !Array.prototype.every.call(details, function (d) { return d.open; });
+    details.forEach(function (d) { d.open = open; });
+  });
+
+  applyFilters();
+})();
+`;
@@ -0,0 +1,46 @@
+import * as path from "path";
+import * as os from "os";
+import * as crypto from "crypto";
+import { JsonEntryStore, JsonEntryStoreStats } from "./json-entry-store";
+
+export interface HttpCacheEntry {
+  url: string;
+  params?: Record<string, unknown>;
+  etag?: string;
+  lastModified?: string;
+  data: unknown;
+  storedAt: string;
+}
+
+export type HttpCacheStats = JsonEntryStoreStats;
+
+/**
+ * HTTP Cache
+ *
+ * Keeps GitHub API responses on disk together with their ETag and
+ * Last-Modified headers so repeat requests can be made conditional. GitHub
+ * doesn't count 304 Not Modified responses against the rate limit.
+ */
+export class HttpCache extends JsonEntryStore<HttpCacheEntry> {
+  constructor(cacheDir?: string) {
+    super(
+      cacheDir ||
+        path.join(os.homedir(), ".github-issue-scraper", "http-cache"),
+      "HTTP cache"
+    );
+  }
+
+  /**
+   * Compute the cache key of a request from its URL and query parameters
+   */
+  static computeKey(url: string, params: Record<string, unknown> = {}): string {
+    const sortedParams = Object.keys(params)
+      .sort()
+      .map((name) => [name, params[name]]);
+
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify({ url, params: sortedParams }))
+      .digest("hex");
+  }
+}
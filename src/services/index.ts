@@ -4,6 +4,8 @@ export { SetupService } from "./setup";
 export {
   GitHubClient,
   GitHubApiError,
+  DEFAULT_GITHUB_API_URL,
+  DEFAULT_GITHUB_WEB_URL,
   type RateLimitInfo,
   type PaginationOptions,
   type IssueFilters,
@@ -12,6 +14,8 @@ export {
 } from "./github-client";
 export {
   ReportGenerator,
+  REPORT_FORMATS,
+  JSON_REPORT_SCHEMA_VERSION,
   type ReportMetadata,
   type ReportGenerationOptions,
 } from "./report-generator";
@@ -26,10 +30,84 @@ export {
   GitHubIssueScraper,
   type ScrapingProgress,
   type ScrapingResult,
+  type ScrapeRunOptions,
 } from "./scraper";
+export {
+  RunStateManager,
+  type RunState,
+  type CompletedBatch,
+} from "./run-state";
+export {
+  HttpCache,
+  type HttpCacheEntry,
+  type HttpCacheStats,
+} from "./http-cache";
+export {
+  MockLLMServer,
+  MOCK_LLM_FAILURE_MODES,
+  type MockLLMFailureMode,
+  type MockLLMServerOptions,
+  type MockLLMServerStats,
+} from "./mock-llm-server";
+export {
+  TrafficRecorder,
+  type TrafficMode,
+  type TrafficKind,
+  type TrafficFixture,
+  type RecordedExchange,
+  type RecordedError,
+} from "./traffic-recorder";
+export {
+  AnalysisCache,
+  type AnalysisCacheEntry,
+  type AnalysisCacheStats,
+} from "./analysis-cache";
+export {
+  IssueStore,
+  type StoredIssue,
+  type IssueStoreData,
+} from "./issue-store";
+export {
+  createLLMProvider,
+  resolveLLMEndpoint,
+  LLM_PROVIDERS,
+  DEFAULT_LLM_ENDPOINTS,
+  type LLMProvider,
+} from "./llm-provider";
+export {
+  estimateTokens,
+  lookupContextWindow,
+  packBatches,
+  DEFAULT_CONTEXT_WINDOW,
+  type TokenBudget,
+  type ContextWindowSource,
+} from "./token-budget";
+export { ThreadCondenser } from "./thread-condenser";
+export { AdaptiveConcurrency, isOverloadError } from "./adaptive-concurrency";
+export { RequestScheduler } from "./request-scheduler";
+export { ResponseValidator } from "./response-validator";
+export {
+  Evaluator,
+  formatEvalTable,
+  type GoldenSet,
+  type EvalResult,
+} from "./evaluator";
 
 // JAN client implemented in task 2
 export { JANClient } from "./jan-client";
 
 // Prompt manager implemented in task 3
 export { PromptManager } from "./prompt-manager";
+export { PromptTemplates, type PromptManifest } from "./prompt-templates";
+export { Taxonomy, type TaxonomyDefinition } from "./taxonomy";
+export {
+  IssueClusterer,
+  LLMEmbedder,
+  TfIdfEmbedder,
+  type Embedder,
+} from "./issue-clusterer";
+export {
+  IssuePrefilter,
+  PREFILTER_METHODS,
+  type PrefilterResult,
+} from "./issue-prefilter";
@@ -0,0 +1,311 @@
+import { JANClient } from "./jan-client";
+import { issueText, tokenize } from "./issue-text";
+import {
+  ClusterMember,
+  ClusterWorkaround,
+  GitHubIssue,
+  IssueCluster,
+  LLMWorkaround,
+} from "../models";
+
+// Similarity at which issues are duplicates, per kind of vector: embedding
+// models place unrelated issues of one product area closer together than
+// word counts do
+const EMBEDDING_THRESHOLD = 0.85;
+const VECTORIZER_THRESHOLD = 0.5;
+
+// Texts per embeddings request
+const EMBEDDING_BATCH_SIZE = 32;
+
+// Characters of the description included in an issue's text, enough for the
+// problem statement without logs and stack traces
+const DESCRIPTION_LENGTH = 1000;
+
+// Share of keywords two workarounds must have in common to be merged
+const WORKAROUND_MERGE_THRESHOLD = 0.6;
+
+const EFFECTIVENESS_RANK: Record<ClusterWorkaround["effectiveness"], number> = {
+  confirmed: 2,
+  partial: 1,
+  suggested: 0,
+};
+
+/**
+ * Turns texts into vectors for comparing issues
+ */
+export interface Embedder {
+  readonly name: string; // Shown in logs, e.g. "nomic-embed-text"
+  readonly defaultThreshold: number;
+
+  /**
+   * Embed texts as unit vectors, so that dot products are cosine similarities
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embeddings from an embedding model of the LLM server
+ */
+export class LLMEmbedder implements Embedder {
+  readonly defaultThreshold = EMBEDDING_THRESHOLD;
+
+  constructor(private janClient: JANClient, readonly name: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+      vectors.push(
+        ...(await this.janClient.createEmbeddings(this.name, batch))
+      );
+    }
+    return vectors.map(normalize);
+  }
+}
+
+/**
+ * Bundled vectorizer weighting words by TF-IDF, for servers without an
+ * embedding model. Words found in a single issue add nothing to the
+ * similarity of two issues and are left out of the vectors to keep them small.
+ */
+export class TfIdfEmbedder implements Embedder {
+  readonly name = "tf-idf";
+  readonly defaultThreshold = VECTORIZER_THRESHOLD;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const documents = texts.map(countWords);
+    const documentFrequency = new Map<string, number>();
+    for (const counts of documents) {
+      for (const word of counts.keys()) {
+        documentFrequency.set(word, (documentFrequency.get(word) || 0) + 1);
+      }
+    }
+    const vocabulary = Array.from(documentFrequency.keys()).filter(
+      (word) => documentFrequency.get(word)! >= 2
+    );
+
+    return documents.map((counts) => {
+      const weight = (word: string) =>
+        counts.has(word)
+          ? (1 + Math.log(counts.get(word)!)) *
+            (1 +
+              Math.log((texts.length + 1) / (documentFrequency.get(word)! + 1)))
+          : 0;
+      // Normalized by all of the issue's words, so that an issue sharing a
+      // few words with another but otherwise unrelated stays dissimilar
+      const norm = Math.sqrt(
+        Array.from(counts.keys()).reduce(
+          (sum, word) => sum + weight(word) ** 2,
+          0
+        )
+      );
+      return vocabulary.map((word) => (norm > 0 ? weight(word) / norm : 0));
+    });
+  }
+}
+
+/**
+ * Issue Clusterer
+ *
+ * Groups analyzed issues that describe the same problem. Issues are taken
+ * oldest first and join the cluster whose canonical issue they are most
+ * similar to, or start a cluster of their own; comparing with the canonical
+ * issue only keeps clusters from drifting through chains of similar issues.
+ * Issues the LLM found closed as a duplicate of an earlier issue join that
+ * issue's cluster regardless of their similarity.
+ */
+export class IssueClusterer {
+  /**
+   * @param embedder Embedder for the issues
+   * @param fallback Embedder used if the embedder fails, e.g. the bundled
+   *   vectorizer when the server has no embedding model
+   * @param threshold Similarity at which issues are duplicates; defaults to
+   *   the threshold of the embedder in use
+   */
+  constructor(
+    private embedder: Embedder,
+    private fallback?: Embedder,
+    private threshold?: number
+  ) {}
+
+  /**
+   * Find the clusters of two or more issues
+   *
+   * @returns Clusters, largest first
+   */
+  async cluster(issues: GitHubIssue[]): Promise<IssueCluster[]> {
+    if (issues.length < 2) {
+      return [];
+    }
+
+    const ordered = [...issues].sort(
+      (a, b) =>
+        a.createdAt.getTime() - b.createdAt.getTime() || a.number - b.number
+    );
+    const texts = ordered.map((issue) =>
+      issueText(
+        {
+          title: issue.title,
+          details: issue.summary,
+          description: issue.description,
+        },
+        DESCRIPTION_LENGTH
+      )
+    );
+
+    let embedder = this.embedder;
+    let vectors: number[][];
+    try {
+      vectors = await embedder.embed(texts);
+    } catch (error: any) {
+      if (!this.fallback) {
+        throw error;
+      }
+      console.warn(
+        `⚠️  Embedding issues with ${embedder.name} failed (${error.message}), using ${this.fallback.name} instead`
+      );
+      embedder = this.fallback;
+      vectors = await embedder.embed(texts);
+    }
+    const threshold = this.threshold ?? embedder.defaultThreshold;
+
+    // Indexes of each cluster's issues, the canonical issue first
+    const groups: number[][] = [];
+    const groupOf = new Map<number, number[]>(); // Issue number to its group
+
+    ordered.forEach((issue, index) => {
+      const duplicateOf =
+        issue.resolution?.type === "duplicate"
+          ? groupOf.get(issue.resolution.duplicateOf ?? NaN)
+          : undefined;
+
+      let best = duplicateOf;
+      if (!best) {
+        let bestSimilarity = threshold;
+        for (const group of groups) {
+          const similarity = dot(vectors[index], vectors[group[0]]);
+          if (similarity >= bestSimilarity) {
+            best = group;
+            bestSimilarity = similarity;
+          }
+        }
+      }
+
+      const group = best || [];
+      if (!best) {
+        groups.push(group);
+      }
+      group.push(index);
+      groupOf.set(issue.number, group);
+    });
+
+    return groups
+      .filter((group) => group.length >= 2)
+      .map((group) => {
+        const [canonical, ...members] = group.map((index) =>
+          toMember(ordered[index], dot(vectors[index], vectors[group[0]]))
+        );
+        return {
+          canonical: { ...canonical, similarity: 1 },
+          members: members.sort((a, b) => b.similarity - a.similarity),
+          workarounds: mergeWorkarounds(group.map((index) => ordered[index])),
+        };
+      })
+      .sort((a, b) => b.members.length - a.members.length);
+  }
+}
+
+/**
+ * Merge the workarounds of issues, combining workarounds that share most of
+ * their keywords. A merged workaround keeps the wording of its most
+ * effective, then most confident, variant.
+ *
+ * @returns Workarounds, most effective first
+ */
+export function mergeWorkarounds(issues: GitHubIssue[]): ClusterWorkaround[] {
+  const merged: { workaround: ClusterWorkaround; words: Set<string> }[] = [];
+
+  for (const issue of issues) {
+    for (const workaround of issue.workarounds) {
+      const words = new Set(tokenize(workaround.description));
+      const match = merged.find(
+        (entry) => jaccard(entry.words, words) >= WORKAROUND_MERGE_THRESHOLD
+      );
+
+      if (!match) {
+        merged.push({
+          workaround: { ...workaround, issueNumbers: [issue.number] },
+          words,
+        });
+        continue;
+      }
+
+      if (!match.workaround.issueNumbers.includes(issue.number)) {
+        match.workaround.issueNumbers.push(issue.number);
+      }
+      if (compareWorkarounds(workaround, match.workaround) < 0) {
+        match.workaround = {
+          ...workaround,
+          issueNumbers: match.workaround.issueNumbers,
+        };
+        match.words = words;
+      }
+    }
+  }
+
+  return merged
+    .map((entry) => entry.workaround)
+    .sort(
+      (a, b) =>
+        compareWorkarounds(a, b) ||
+        b.issueNumbers.length - a.issueNumbers.length
+    );
+}
+
+// Negative if a is the more effective, then more confident, workaround
+function compareWorkarounds(a: LLMWorkaround, b: LLMWorkaround): number {
+  return (
+    EFFECTIVENESS_RANK[b.effectiveness] - EFFECTIVENESS_RANK[a.effectiveness] ||
+    b.confidence - a.confidence
+  );
+}
+
+function toMember(issue: GitHubIssue, similarity: number): ClusterMember {
+  return {
+    id: issue.id,
+    number: issue.number,
+    title: issue.title,
+    url: issue.url,
+    relevanceScore: issue.relevanceScore,
+    similarity: Math.round(similarity * 1000) / 1000,
+  };
+}
+
+function countWords(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of tokenize(text)) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return counts;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  const shared = Array.from(a).filter((word) => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
@@ -0,0 +1,199 @@
+import { Embedder } from "./issue-clusterer";
+import { issueText, tokenize } from "./issue-text";
+import {
+  PrefilterMethod,
+  PrefilterScore,
+  PrefilterStats,
+  RawGitHubIssue,
+} from "../models";
+
+export const PREFILTER_METHODS: PrefilterMethod[] = ["bm25", "embedding"];
+
+// Term frequency saturation and length normalization of BM25, the usual values
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Lowest score kept when neither a top N nor a minimum score is set. BM25
+// scores are relative to the best match, so 0.1 drops issues that share no
+// distinctive word with the product area; embedding models rarely place
+// unrelated issues above 0.4 from a product area description.
+const DEFAULT_MIN_SCORES: Record<PrefilterMethod, number> = {
+  bm25: 0.1,
+  embedding: 0.4,
+};
+
+// Characters of the description ranked; the rest is mostly logs and traces
+const DESCRIPTION_LENGTH = 2000;
+
+export interface PrefilterOptions {
+  method: PrefilterMethod;
+  topN?: number; // Most issues kept
+  minScore?: number; // Lowest score (0-1) kept
+  embedder?: Embedder; // Embeds issues for the embedding method
+}
+
+export interface PrefilterResult {
+  issues: RawGitHubIssue[]; // Kept issues, in their original order
+  stats: PrefilterStats;
+}
+
+/**
+ * Issue Prefilter
+ *
+ * Ranks fetched issues against the product area before the LLM analysis, so
+ * that issues unrelated to it don't take batches and comment requests. Issues
+ * are scored from 0 to 1, either by BM25 over their title, labels and
+ * description (relative to the best-scoring issue) or by the cosine
+ * similarity of their embeddings to the product area's. The top N issues, or
+ * those scoring at least the minimum score, are kept; with both set, issues
+ * must meet both.
+ */
+export class IssuePrefilter {
+  constructor(private options: PrefilterOptions) {}
+
+  /**
+   * Rank issues against the product area and keep the best ones
+   */
+  async filter(
+    issues: RawGitHubIssue[],
+    productArea: string
+  ): Promise<PrefilterResult> {
+    let method = this.options.method;
+    let scores: number[];
+    if (method === "embedding") {
+      try {
+        scores = await this.embeddingScores(issues, productArea);
+      } catch (error: any) {
+        console.warn(
+          `⚠️  Embedding issues for the pre-filter failed (${error.message}), using bm25 instead`
+        );
+        method = "bm25";
+        scores = bm25Scores(issues, productArea);
+      }
+    } else {
+      scores = bm25Scores(issues, productArea);
+    }
+
+    const { topN } = this.options;
+    const minScore =
+      this.options.minScore ??
+      (topN === undefined ? DEFAULT_MIN_SCORES[method] : undefined);
+
+    const ranked = issues
+      .map((issue, index) => ({
+        issue,
+        score: Math.round(scores[index] * 1000) / 1000,
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    // Without a single matching word BM25 can't tell issues apart, so none
+    // are dropped rather than all of them
+    const uninformative =
+      method === "bm25" && ranked.length > 0 && ranked[0].score === 0;
+    if (uninformative) {
+      console.warn(
+        `⚠️  No issue mentions "${productArea}", so the pre-filter keeps all ${issues.length} issues`
+      );
+    }
+
+    const kept = new Set(
+      ranked
+        .filter(
+          (entry, rank) =>
+            uninformative ||
+            ((topN === undefined || rank < topN) &&
+              (minScore === undefined || entry.score >= minScore))
+        )
+        .map((entry) => entry.issue)
+    );
+    const scoresByRank: PrefilterScore[] = ranked.map((entry) => ({
+      number: entry.issue.number,
+      title: entry.issue.title,
+      score: entry.score,
+      kept: kept.has(entry.issue),
+    }));
+    const keptScores = scoresByRank.filter((entry) => entry.kept);
+
+    return {
+      issues: issues.filter((issue) => kept.has(issue)),
+      stats: {
+        method,
+        topN,
+        minScore,
+        candidates: issues.length,
+        kept: kept.size,
+        cutoffScore:
+          keptScores.length > 0
+            ? keptScores[keptScores.length - 1].score
+            : null,
+        scores: scoresByRank,
+      },
+    };
+  }
+
+  private async embeddingScores(
+    issues: RawGitHubIssue[],
+    productArea: string
+  ): Promise<number[]> {
+    if (!this.options.embedder) {
+      throw new Error("no embedding model is configured");
+    }
+
+    const [query, ...vectors] = await this.options.embedder.embed([
+      productArea,
+      ...issues.map(prefilterText),
+    ]);
+    return vectors.map((vector) =>
+      Math.max(
+        0,
+        vector.reduce((sum, value, index) => sum + value * query[index], 0)
+      )
+    );
+  }
+}
+
+function bm25Scores(issues: RawGitHubIssue[], productArea: string): number[] {
+  const queryTerms = Array.from(new Set(tokenize(productArea)));
+  const documents = issues.map((issue) => tokenize(prefilterText(issue)));
+  const averageLength =
+    documents.reduce((total, terms) => total + terms.length, 0) /
+    Math.max(documents.length, 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const scores = documents.map((terms) =>
+    queryTerms.reduce((score, term) => {
+      const frequency = terms.filter((found) => found === term).length;
+      if (frequency === 0) {
+        return score;
+      }
+      const df = documentFrequency.get(term)!;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      return (
+        score +
+        (idf * frequency * (BM25_K1 + 1)) /
+          (frequency +
+            BM25_K1 * (1 - BM25_B + (BM25_B * terms.length) / averageLength))
+      );
+    }, 0)
+  );
+
+  const best = scores.reduce((max, score) => Math.max(max, score), 0);
+  return scores.map((score) => (best > 0 ? score / best : 0));
+}
+
+function prefilterText(issue: RawGitHubIssue): string {
+  return issueText(
+    {
+      title: issue.title,
+      details: issue.labels.map((label) => label.name).join(" "),
+      description: issue.body,
+    },
+    DESCRIPTION_LENGTH
+  );
+}
@@ -0,0 +1,132 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import * as crypto from "crypto";
+import { RawGitHubIssue, RawComment, AnalyzedIssue } from "../models";
+import { ErrorHandler, ErrorContext } from "./error-handler";
+
+export interface StoredIssue {
+  issue: RawGitHubIssue;
+  comments: RawComment[];
+  contentHash: string;
+  analyzed: boolean; // Whether the LLM analyzed this exact content
+  analysis?: AnalyzedIssue; // Undefined when the LLM found the issue not relevant
+  analysisModel?: string;
+  promptVersion?: string; // See PromptManager.getPromptVersion
+}
+
+export interface IssueStoreData {
+  repository: string;
+  productArea: string;
+  lastRunAt?: string;
+  issues: Record<number, StoredIssue>;
+}
+
+/**
+ * Issue Store
+ *
+ * Keeps previously fetched and analyzed issues per repository and product area
+ * so incremental runs only fetch updated issues and only re-analyze issues
+ * whose content changed.
+ */
+export class IssueStore {
+  private storeDir: string;
+
+  constructor(storeDir?: string) {
+    this.storeDir =
+      storeDir || path.join(os.homedir(), ".github-issue-scraper", "store");
+  }
+
+  /**
+   * Load the store for a repository and product area (empty if none exists)
+   */
+  async load(repository: string, productArea: string): Promise<IssueStoreData> {
+    const filePath = this.getStorePath(repository, productArea);
+    const context: ErrorContext = {
+      operation: "loading issue store",
+      repository,
+      productArea,
+      filePath,
+    };
+
+    try {
+      if (!(await fs.pathExists(filePath))) {
+        return { repository, productArea, issues: {} };
+      }
+
+      return (await fs.readJson(filePath)) as IssueStoreData;
+    } catch (error: any) {
+      // A corrupt store only costs a full refresh, so don't fail the run
+      const scraperError = ErrorHandler.convertToScraperError(error, context);
+      console.warn(
+        `Warning: Could not read issue store (${scraperError.message}), running a full refresh`
+      );
+      return { repository, productArea, issues: {} };
+    }
+  }
+
+  /**
+   * Save the store atomically (write to temp file, then move)
+   */
+  async save(data: IssueStoreData): Promise<void> {
+    const filePath = this.getStorePath(data.repository, data.productArea);
+    const context: ErrorContext = {
+      operation: "saving issue store",
+      repository: data.repository,
+      productArea: data.productArea,
+      filePath,
+    };
+
+    try {
+      await fs.ensureDir(this.storeDir);
+
+      const tempPath = filePath + ".tmp";
+      await fs.writeJson(tempPath, data);
+      await fs.move(tempPath, filePath, { overwrite: true });
+    } catch (error: any) {
+      throw ErrorHandler.convertToScraperError(error, context);
+    }
+  }
+
+  /**
+   * Hash the parts of an issue that affect LLM analysis
+   */
+  computeContentHash(issue: RawGitHubIssue, comments: RawComment[]): string {
+    const content = JSON.stringify({
+      title: issue.title,
+      body: issue.body || "",
+      state: issue.state,
+      labels: issue.labels.map((label) => label.name).sort(),
+      comments: comments.map((comment) => [
+        comment.id,
+        comment.user.login,
+        comment.body,
+      ]),
+    });
+
+    return crypto.createHash("sha256").update(content).digest("hex");
+  }
+
+  /**
+   * Get the store file path for a repository and product area
+   */
+  getStorePath(repository: string, productArea: string): string {
+    const repoName = repository.toLowerCase().replace(/[^a-z0-9]/g, "-");
+    const areaName = productArea
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, "-")
+      .substring(0, 30); // Limit length, like report filenames
+
+    // Short hashes of the exact names keep apart repositories and product
+    // areas that read the same once sanitized or truncated, e.g. a-b/c and a/b-c
+    const shortHash = (value: string) =>
+      crypto.createHash("sha256").update(value).digest("hex").substring(0, 8);
+
+    return path.join(
+      this.storeDir,
+      `${repoName}-${shortHash(repository)}-${areaName}-${shortHash(
+        productArea
+      )}.json`
+    );
+  }
+}
@@ -0,0 +1,69 @@
+// Words that don't tell issues or workarounds apart
+export const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "with",
+  "you",
+  "your",
+  "use",
+  "this",
+  "that",
+  "from",
+  "into",
+  "when",
+  "then",
+  "are",
+  "was",
+  "but",
+  "not",
+  "have",
+  "has",
+  "can",
+  "after",
+  "its",
+  "also",
+  "instead",
+]);
+
+export interface IssueTextParts {
+  title: string;
+  details?: string; // E.g. the LLM's summary or the labels
+  description?: string;
+}
+
+/**
+ * Text of an issue for comparing and ranking issues: the title twice, since
+ * it states the problem most densely, then the details and the start of the
+ * description
+ *
+ * @param descriptionLength Characters of the description included
+ */
+export function issueText(
+  { title, details, description }: IssueTextParts,
+  descriptionLength: number
+): string {
+  return [
+    title,
+    title,
+    details,
+    (description || "").slice(0, descriptionLength),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Keywords of a text for comparing texts: lowercase words of three or more
+ * characters without stop words, plurals as their singular
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+    .map((word) =>
+      // Plurals count as their singular, e.g. "lines" and "line"
+      word.length > 4 && word.endsWith("s") && !word.endsWith("ss")
+        ? word.slice(0, -1)
+        : word
+    );
+}
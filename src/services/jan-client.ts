@@ -1,5 +1,3 @@
-import { OpenAI } from "openai";
-import axios from "axios";
 import {
   JANClientOptions,
   JANPromptOptions,
@@ -10,6 +8,7 @@ import {
   RawGitHubIssue,
   RawComment,
   AnalyzedIssue,
+  AnalyzeIssuesOptions,
 } from "../models";
 import {
   ErrorHandler,
@@ -18,38 +17,75 @@ import {
   ErrorType,
   ErrorSuggestion,
 } from "./error-handler";
+import { TrafficRecorder } from "./traffic-recorder";
+import {
+  LLMProvider,
+  createLLMProvider,
+  DEFAULT_LLM_ENDPOINTS,
+} from "./llm-provider";
+import {
+  TokenBudget,
+  DEFAULT_CONTEXT_WINDOW,
+  estimateMessageTokens,
+  lookupContextWindow,
+  parseContextWindowError,
+  responseTokenLimit,
+} from "./token-budget";
+import { AdaptiveConcurrency, isOverloadError } from "./adaptive-concurrency";
+import { ResponseValidator } from "./response-validator";
+
+// A batch waiting to be analyzed
+interface PendingBatch {
+  prompt: JANMessage[];
+  issues: RawGitHubIssue[];
+  order: number; // Position of the batch's first issue
+  packedFor: TokenBudget;
+}
+
+// A batch analyzed, or given up on
+interface CompletedBatchResult {
+  order: number;
+  result: LLMAnalysisResponse;
+  failed: boolean;
+}
 
 /**
  * JAN Client Service
  *
- * Handles communication with JAN's OpenAI-compatible API for LLM analysis.
+ * Handles communication with the local LLM server for analysis: JAN by
+ * default, or another server through its LLMProvider (see the provider option).
  * Provides connection validation, model validation, and error handling.
  */
 export class JANClient {
-  private client: OpenAI;
+  private provider: LLMProvider;
   private options: JANClientOptions;
+  private trafficRecorder?: TrafficRecorder;
+  private tokenBudget?: TokenBudget; // Resolved on first use
 
   /**
    * Creates a new JAN client with the specified options
    *
    * @param options Configuration options for the JAN client
+   * @param trafficRecorder Records completions, or replays them without JAN
    */
-  constructor(options: Partial<JANClientOptions> = {}) {
+  constructor(
+    options: Partial<JANClientOptions> = {},
+    trafficRecorder?: TrafficRecorder
+  ) {
+    this.trafficRecorder = trafficRecorder;
     this.options = {
-      endpoint: options.endpoint || "http://localhost:1337",
+      provider: options.provider,
+      endpoint:
+        options.endpoint || DEFAULT_LLM_ENDPOINTS[options.provider || "jan"],
       model: options.model || "llama2",
-      apiKey: options.apiKey || "not-needed", // JAN typically doesn't require an API key
+      apiKey: options.apiKey || "not-needed", // Local servers typically don't require an API key
       maxRetries: options.maxRetries || 3,
       timeout: options.timeout || 60000,
+      contextWindow: options.contextWindow,
+      concurrency: options.concurrency,
     };
 
-    // Initialize OpenAI client with JAN's endpoint
-    this.client = new OpenAI({
-      baseURL: this.options.endpoint,
-      apiKey: this.options.apiKey,
-      timeout: this.options.timeout,
-      maxRetries: this.options.maxRetries,
-    });
+    this.provider = createLLMProvider(this.options);
   }
 
   /**
@@ -64,29 +100,29 @@ export class JANClient {
       additionalInfo: { endpoint: this.options.endpoint },
     };
 
-    try {
-      // Try to connect to JAN's health endpoint
-      const response = await axios.get(`${this.options.endpoint}/health`, {
-        timeout: 5000, // Short timeout for quick validation
-      });
+    // Replayed runs don't need a JAN server
+    if (this.trafficRecorder?.mode === "replay") {
+      return true;
+    }
 
-      if (response.status === 200) {
-        return true;
-      }
+    const { displayName } = this.provider;
 
-      throw new Error(`JAN server returned status code: ${response.status}`);
+    try {
+      // Probe the server's health route
+      await this.provider.checkHealth();
+      return true;
     } catch (error: any) {
       // Handle specific connection errors
       if (error.code === "ECONNREFUSED" || error.code === "ENOTFOUND") {
         const suggestions: ErrorSuggestion[] = [
           {
-            action: "Start JAN server",
-            description: "Ensure JAN is running on your machine",
+            action: `Start ${displayName} server`,
+            description: `Ensure ${displayName} is running on your machine`,
             priority: "high",
           },
           {
             action: "Check endpoint configuration",
-            description: `Verify the JAN endpoint (${this.options.endpoint}) is correct`,
+            description: `Verify the ${displayName} endpoint (${this.options.endpoint}) is correct`,
             priority: "high",
           },
           {
@@ -99,7 +135,7 @@ export class JANClient {
 
         throw new ScraperError(
           ErrorType.NETWORK,
-          `Cannot connect to JAN server at ${this.options.endpoint}. Is JAN running?`,
+          `Cannot connect to ${displayName} server at ${this.options.endpoint}. Is it running?`,
           context,
           suggestions,
           true, // Retryable
@@ -125,30 +161,26 @@ export class JANClient {
       additionalInfo: { model, endpoint: this.options.endpoint },
     };
 
+    if (this.trafficRecorder?.mode === "replay") {
+      return true;
+    }
+
+    const { displayName } = this.provider;
+
     try {
-      // First ensure we can connect to JAN
+      // First ensure we can connect to the server
       await this.validateConnection();
 
       // Check if the model is available by listing models
-      const response = await axios.get(`${this.options.endpoint}/v1/models`, {
-        timeout: this.options.timeout,
-      });
+      const models = await this.provider.listModels();
 
-      if (response.status !== 200) {
-        throw new Error(`Failed to list models: ${response.status}`);
-      }
-
-      // Check if the requested model is in the list
-      const models = response.data.data || [];
-      const modelExists = models.some((m: any) => m.id === model);
-
-      if (!modelExists) {
-        const availableModels = models.map((m: any) => m.id).join(", ");
+      if (!this.provider.hasModel(model, models)) {
+        const availableModels = models.join(", ");
 
         const suggestions: ErrorSuggestion[] = [
           {
-            action: "Load the model in JAN",
-            description: `Open JAN interface and load the '${model}' model`,
+            action: `Load the model in ${displayName}`,
+            description: this.provider.loadModelHint(model),
             priority: "high",
           },
           {
@@ -160,15 +192,14 @@ export class JANClient {
           },
           {
             action: "Check model name",
-            description:
-              "Verify the model name is correct and matches exactly what's in JAN",
+            description: `Verify the model name is correct and matches exactly what's in ${displayName}`,
             priority: "medium",
           },
         ];
 
         throw new ScraperError(
           ErrorType.VALIDATION,
-          `Model '${model}' is not loaded in JAN. Available models: ${
+          `Model '${model}' is not loaded in ${displayName}. Available models: ${
             availableModels || "None"
           }`,
           context,
@@ -188,21 +219,20 @@ export class JANClient {
       if (error.response?.status === 404) {
         const suggestions: ErrorSuggestion[] = [
           {
-            action: "Check JAN version",
-            description:
-              "Ensure you're using a JAN version with OpenAI-compatible API",
+            action: `Check ${displayName} version`,
+            description: `Ensure you're using a ${displayName} version with the API this tool expects`,
             priority: "high",
           },
           {
-            action: "Check endpoint URL",
-            description: "Verify the JAN endpoint URL is correct",
+            action: "Check endpoint URL and provider",
+            description: `Verify the endpoint URL is correct and --llm-provider matches the server (currently ${this.provider.name})`,
             priority: "high",
           },
         ];
 
         throw new ScraperError(
           ErrorType.VALIDATION,
-          "JAN API endpoint not found. JAN may not support the OpenAI-compatible API.",
+          `${displayName} API endpoint not found at ${this.options.endpoint}.`,
           context,
           suggestions,
           false,
@@ -214,7 +244,7 @@ export class JANClient {
       if (error.status === 404) {
         throw new ScraperError(
           ErrorType.VALIDATION,
-          `JAN API endpoint not found at ${this.options.endpoint}`,
+          `${displayName} API endpoint not found at ${this.options.endpoint}`,
           context,
           [],
           false,
@@ -230,17 +260,128 @@ export class JANClient {
     }
   }
 
+  /**
+   * Lists the models available on the LLM server
+   *
+   * @returns Promise resolving to the model names
+   * @throws ScraperError if the models can't be listed
+   */
+  async listModels(): Promise<string[]> {
+    const context: ErrorContext = {
+      operation: "listing JAN models",
+      additionalInfo: { endpoint: this.options.endpoint },
+    };
+
+    try {
+      return await this.provider.listModels();
+    } catch (error: any) {
+      throw ErrorHandler.handleNetworkError(error, context);
+    }
+  }
+
+  /**
+   * Resolves the token budget of the model: its configured context window,
+   * else the one the server reports, else the known window of the model
+   *
+   * @returns Promise resolving to the token budget
+   */
+  async getTokenBudget(): Promise<TokenBudget> {
+    if (this.tokenBudget) {
+      return this.tokenBudget;
+    }
+
+    const { model, contextWindow } = this.options;
+    const discovered = contextWindow
+      ? undefined
+      : await this.discoverContextWindow(model);
+    const known = lookupContextWindow(model);
+
+    this.tokenBudget = contextWindow
+      ? { contextWindow, source: "configured" }
+      : discovered
+      ? { contextWindow: discovered, source: "discovered" }
+      : known
+      ? { contextWindow: known, source: "known" }
+      : { contextWindow: DEFAULT_CONTEXT_WINDOW, source: "default" };
+
+    return this.tokenBudget;
+  }
+
+  /**
+   * Asks the server for the context window of a model
+   *
+   * @returns Tokens, or undefined if the server doesn't report it
+   */
+  private async discoverContextWindow(
+    model: string
+  ): Promise<number | undefined> {
+    // Replayed runs must pack batches like the recorded run
+    const recorder = this.trafficRecorder;
+    const recordedRequest = { model, contextWindow: "discover" };
+
+    if (recorder?.mode === "replay") {
+      try {
+        return (
+          (await recorder.replay<number | null>("llm", recordedRequest)) ??
+          undefined
+        );
+      } catch (error) {
+        return undefined;
+      }
+    }
+
+    let discovered: number | undefined;
+    try {
+      discovered = await this.provider.getContextWindow(model);
+    } catch (error) {
+      // Servers that can't report it fall back to the known window
+      discovered = undefined;
+    }
+
+    await recorder?.record("llm", recordedRequest, {
+      response: discovered ?? null,
+    });
+    return discovered;
+  }
+
+  /**
+   * Shrinks the token budget to the context window stated in a context
+   * length error, if it's smaller than the budget assumed
+   *
+   * @returns The new budget, or undefined if it didn't change
+   */
+  private learnContextWindow(error: any): TokenBudget | undefined {
+    // Errors from createCompletion wrap the server's error
+    const contextWindow = parseContextWindowError(
+      error?.originalError?.message || error?.message || ""
+    );
+
+    if (
+      !contextWindow ||
+      !this.tokenBudget ||
+      contextWindow >= this.tokenBudget.contextWindow
+    ) {
+      return undefined;
+    }
+
+    this.tokenBudget = { contextWindow, source: "discovered" };
+    return this.tokenBudget;
+  }
+
   /**
    * Sends a completion request to JAN with retry logic
    *
    * @param messages Array of messages for the completion request
    * @param options Additional options for the completion request
+   * @param onRequestError Called with the server's error of each failed
+   *   attempt, including attempts that are retried
    * @returns Promise resolving to the completion response
    * @throws ScraperError if the request fails after all retries
    */
   async createCompletion(
     messages: JANMessage[],
-    options: JANPromptOptions = {}
+    options: JANPromptOptions = {},
+    onRequestError?: (error: any) => void
   ): Promise<JANCompletionResponse> {
     const context: ErrorContext = {
       operation: "creating JAN completion",
@@ -250,62 +391,63 @@ export class JANClient {
       },
     };
 
+    const recorder = this.trafficRecorder;
+    const recordedRequest = { model: this.options.model, messages, options };
+
     // Use executeWithRetry for automatic retry handling
     return ErrorHandler.executeWithRetry(
       async () => {
         try {
+          if (recorder?.mode === "replay") {
+            return await recorder.replay<JANCompletionResponse>(
+              "llm",
+              recordedRequest
+            );
+          }
+
           // Validate connection and model before sending request
           await this.validateModel();
 
           // Create the completion request
-          const response = await this.client.chat.completions.create({
-            model: this.options.model,
-            messages: messages,
-            temperature: options.temperature,
-            max_tokens: options.maxTokens,
-            top_p: options.topP,
-            frequency_penalty: options.frequencyPenalty,
-            presence_penalty: options.presencePenalty,
-            response_format: options.responseFormat,
+          let completion: JANCompletionResponse;
+          try {
+            completion = await this.provider.createChatCompletion({
+              model: this.options.model,
+              messages: messages,
+              temperature: options.temperature,
+              max_tokens: options.maxTokens,
+              top_p: options.topP,
+              frequency_penalty: options.frequencyPenalty,
+              presence_penalty: options.presencePenalty,
+              response_format: options.responseFormat,
+            });
+          } catch (error: any) {
+            onRequestError?.(error);
+            await recorder?.recordError("llm", recordedRequest, error);
+            throw error;
+          }
+
+          await recorder?.record("llm", recordedRequest, {
+            response: completion,
           });
 
-          // Convert the response to the expected format
-          return {
-            id: response.id,
-            object: response.object,
-            created: response.created,
-            model: response.model,
-            choices: response.choices.map((choice) => ({
-              index: choice.index,
-              message: {
-                role: choice.message.role,
-                content: choice.message.content || "",
-              },
-              finish_reason: choice.finish_reason,
-            })),
-            usage: {
-              prompt_tokens: response.usage?.prompt_tokens || 0,
-              completion_tokens: response.usage?.completion_tokens || 0,
-              total_tokens: response.usage?.total_tokens || 0,
-            },
-          };
+          return completion;
         } catch (error: any) {
           // Handle specific OpenAI client errors
           if (error.status === 404) {
             throw new ScraperError(
               ErrorType.LLM_SERVICE,
-              `Model '${this.options.model}' not found in JAN`,
+              `Model '${this.options.model}' not found in ${this.provider.displayName}`,
               context,
               [
                 {
                   action: "Check model name",
-                  description: `Verify that '${this.options.model}' is correctly loaded in JAN`,
+                  description: `Verify that '${this.options.model}' is correctly loaded in ${this.provider.displayName}`,
                   priority: "high",
                 },
                 {
                   action: "List available models",
-                  description:
-                    "Use JAN's interface to see which models are available",
+                  description: `Use ${this.provider.displayName} to see which models are available`,
                   priority: "high",
                 },
               ],
@@ -315,18 +457,17 @@ export class JANClient {
           } else if (error.status === 429) {
             throw new ScraperError(
               ErrorType.LLM_SERVICE,
-              "JAN rate limit exceeded or insufficient resources",
+              `${this.provider.displayName} rate limit exceeded or insufficient resources`,
               context,
               [
                 {
                   action: "Wait and retry",
-                  description:
-                    "JAN is processing too many requests, wait and try again",
+                  description: `${this.provider.displayName} is processing too many requests, wait and try again`,
                   priority: "high",
                 },
                 {
-                  action: "Check JAN resources",
-                  description: "Ensure JAN has sufficient system resources",
+                  action: `Check ${this.provider.displayName} resources`,
+                  description: `Ensure ${this.provider.displayName} has sufficient system resources`,
                   priority: "medium",
                 },
               ],
@@ -344,7 +485,7 @@ export class JANClient {
 
             throw new ScraperError(
               ErrorType.LLM_SERVICE,
-              `Invalid request to JAN: ${error.message}`,
+              `Invalid request to ${this.provider.displayName}: ${error.message}`,
               context,
               [
                 {
@@ -380,7 +521,9 @@ export class JANClient {
    * @param comments Map of issue ID to comments
    * @param productArea Product area for relevance filtering
    * @param promptManager PromptManager instance for creating prompts
-   * @param batchSize Number of issues per batch (default: 5)
+   * @param batchSize Maximum number of issues per batch (default: 5); batches are
+   *   packed to fit the model's context window
+   * @param options Additional analysis options such as batch completion callbacks
    * @returns Promise resolving to LLM analysis response
    * @throws ScraperError if analysis fails after all retries
    */
@@ -389,7 +532,8 @@ export class JANClient {
     comments: Map<number, RawComment[]>,
     productArea: string,
     promptManager: any,
-    batchSize: number = 5
+    batchSize: number = 5,
+    options: AnalyzeIssuesOptions = {}
   ): Promise<LLMAnalysisResponse> {
     const context: ErrorContext = {
       operation: "analyzing issues with LLM",
@@ -406,55 +550,160 @@ export class JANClient {
       // Validate connection and model before starting analysis
       await this.validateModel();
 
+      // Pack batches to fit the model's context window
+      let budget = await this.getTokenBudget();
+      promptManager.setTokenBudget(budget);
+      console.log(
+        `Context window: ${budget.contextWindow} tokens (${budget.source})`
+      );
+
+      // Responses are checked against the schema and taxonomy the prompts
+      // ask for
+      const validator = new ResponseValidator(
+        promptManager.createResponseSchema(),
+        promptManager.getTaxonomy()
+      );
+
       // Create batches of issues to process within context limits
-      const batches = promptManager.createBatchPrompts(
+      const issueBatches: RawGitHubIssue[][] = promptManager.packIssueBatches(
+        issues,
+        comments,
+        productArea,
+        batchSize
+      );
+      const batches: JANMessage[][] = promptManager.createBatchPrompts(
         issues,
         comments,
         productArea,
         batchSize
       );
 
+      const concurrency = new AdaptiveConcurrency(
+        this.options.concurrency || 1
+      );
       console.log(
-        `Processing ${issues.length} issues in ${batches.length} batches`
+        `Processing ${issues.length} issues in ${batches.length} batches${
+          concurrency.max > 1 ? `, up to ${concurrency.max} at once` : ""
+        }`
       );
 
-      // Process each batch and collect results
-      const batchResults: LLMAnalysisResponse[] = [];
-      const failedBatches: number[] = [];
+      // Batches are ordered by their first issue, so results merge the same
+      // way however many batches run at once
+      const issueOrder = new Map(
+        issues.map((issue, index) => [issue.id, index])
+      );
+      let unorderedBatches = issues.length;
+      const toPending = (
+        prompts: JANMessage[][],
+        issueGroups: RawGitHubIssue[][]
+      ): PendingBatch[] =>
+        prompts.map((prompt, index) => {
+          const batchIssues = issueGroups[index] || [];
+          return {
+            prompt,
+            issues: batchIssues,
+            order:
+              (batchIssues.length > 0
+                ? issueOrder.get(batchIssues[0].id)
+                : undefined) ?? unorderedBatches++,
+            packedFor: budget,
+          };
+        });
+
+      let queue = toPending(batches, issueBatches);
+      const completedBatches: CompletedBatchResult[] = [];
+      const running = new Set<Promise<void>>();
       let currentBatchSize = batchSize;
+      let totalTokensUsed = 0;
 
-      for (let i = 0; i < batches.length; i++) {
+      // Re-split a batch and all batches not started yet into smaller batches
+      const repack = (batch: PendingBatch, size: number): void => {
+        const remaining = [batch, ...queue].flatMap(
+          (pending) => pending.issues
+        );
+        currentBatchSize = size;
+        promptManager.setTokenBudget(budget);
+        const remainingIssueBatches = promptManager.packIssueBatches(
+          remaining,
+          comments,
+          productArea,
+          size
+        );
+        queue = toPending(
+          promptManager.createBatchPrompts(
+            remaining,
+            comments,
+            productArea,
+            size
+          ),
+          remainingIssueBatches
+        );
+      };
+
+      const completeBatch = (
+        batch: PendingBatch,
+        result: LLMAnalysisResponse,
+        failed: boolean = false
+      ): void => {
+        completedBatches.push({ order: batch.order, result, failed });
+      };
+
+      const processBatch = async (
+        batch: PendingBatch,
+        batchNumber: number,
+        totalBatches: number
+      ): Promise<void> => {
+        const batchIssues = batch.issues;
+        const batchLength = batchIssues.length || currentBatchSize;
+        const epoch = concurrency.epoch;
         const batchContext: ErrorContext = {
           ...context,
           additionalInfo: {
             ...context.additionalInfo,
-            batchNumber: i + 1,
-            totalBatches: batches.length,
+            batchNumber,
+            totalBatches,
             currentBatchSize,
           },
         };
 
         console.log(
-          `Processing batch ${i + 1}/${batches.length} (${Math.min(
-            currentBatchSize,
-            issues.length - i * currentBatchSize
-          )} issues)`
+          `Processing batch ${batchNumber}/${totalBatches} (${batchIssues.length} issues)`
         );
 
         try {
           // Create completion request with JSON response format using retry logic
           const response = await ErrorHandler.executeWithRetry(
             async () => {
-              return await this.createCompletion(batches[i], {
-                temperature: 0.2, // Lower temperature for more consistent analysis
-                responseFormat: { type: "json_object" },
-                maxTokens: 4000, // Adjust based on model capabilities
-              });
+              return await this.createCompletion(
+                batch.prompt,
+                {
+                  temperature: 0.2, // Lower temperature for more consistent analysis
+                  responseFormat: { type: "json_object" },
+                  maxTokens: responseTokenLimit(
+                    estimateMessageTokens(batch.prompt),
+                    budget
+                  ),
+                },
+                (error) => {
+                  // Send fewer batches at once while the server is overloaded
+                  if (
+                    isOverloadError(error) &&
+                    concurrency.recordOverload(epoch)
+                  ) {
+                    console.warn(
+                      `LLM server overloaded, sending up to ${concurrency.limit} batches at once`
+                    );
+                  }
+                }
+              );
             },
             batchContext,
             this.options.maxRetries
           );
 
+          concurrency.recordSuccess();
+          totalTokensUsed += response.usage?.total_tokens || 0;
+
           // Parse and validate the response
           const content = response.choices[0]?.message?.content || "";
 
@@ -465,41 +714,43 @@ export class JANClient {
             }
 
             // Try to parse the response
-            const parsedResponse =
-              promptManager.parseStructuredResponse(content);
+            const parsed = promptManager.parseStructuredResponse(content);
 
-            // Validate required fields in the response
-            if (!parsedResponse) {
+            if (!parsed) {
               throw new Error("Failed to parse LLM response as valid JSON");
             }
 
-            if (!Array.isArray(parsedResponse.relevantIssues)) {
+            // Validate the response against the schema, repairing fields
+            const parsedResponse = this.validateResponse(
+              validator,
+              parsed,
+              batchIssues,
+              batchNumber
+            );
+            if (!parsedResponse) {
               throw new Error(
                 "Missing or invalid 'relevantIssues' array in LLM response"
               );
             }
 
-            if (!parsedResponse.summary) {
-              throw new Error("Missing 'summary' object in LLM response");
-            }
-
             // Add the validated response to results
-            batchResults.push(parsedResponse);
+            completeBatch(batch, parsedResponse);
+
+            // Notify listeners (e.g. checkpointing) about the completed batch
+            await options.onBatchComplete?.(batchIssues, parsedResponse);
           } catch (parseError: any) {
             // Handle response parsing errors with fallback strategies
             console.warn(
-              `Batch ${i + 1} returned malformed response: ${
-                parseError.message
-              }`
+              `Batch ${batchNumber} returned malformed response: ${parseError.message}`
             );
 
             // If this is already a small batch (1-2 issues), try with different prompt formatting
-            if (currentBatchSize <= 2) {
+            if (batchLength <= 2) {
               console.log("Attempting fallback with simplified prompt...");
 
               // Try with a simpler prompt format as fallback
               const simplifiedPrompt = this.createSimplifiedPrompt(
-                issues.slice(i * currentBatchSize, (i + 1) * currentBatchSize),
+                batchIssues,
                 comments,
                 productArea,
                 promptManager
@@ -511,7 +762,10 @@ export class JANClient {
                     return await this.createCompletion(simplifiedPrompt, {
                       temperature: 0.1,
                       responseFormat: { type: "json_object" },
-                      maxTokens: 4000,
+                      maxTokens: responseTokenLimit(
+                        estimateMessageTokens(simplifiedPrompt),
+                        budget
+                      ),
                     });
                   },
                   {
@@ -521,76 +775,70 @@ export class JANClient {
                   this.options.maxRetries
                 );
 
+                totalTokensUsed += fallbackResponse.usage?.total_tokens || 0;
+
                 const fallbackContent =
                   fallbackResponse.choices[0]?.message?.content || "";
 
-                const fallbackParsed =
+                const fallbackJson =
                   promptManager.parseStructuredResponse(fallbackContent);
+                const fallbackParsed =
+                  fallbackJson &&
+                  this.validateResponse(
+                    validator,
+                    fallbackJson,
+                    batchIssues,
+                    batchNumber
+                  );
 
                 if (fallbackParsed) {
                   console.log("Fallback successful, using simplified response");
-                  batchResults.push(fallbackParsed);
+                  completeBatch(batch, fallbackParsed);
+                  await options.onBatchComplete?.(batchIssues, fallbackParsed);
                 } else {
                   console.warn(
-                    `Failed to parse response even with simplified prompt for batch ${
-                      i + 1
-                    }`
+                    `Failed to parse response even with simplified prompt for batch ${batchNumber}`
                   );
 
-                  // Add empty result with graceful degradation
-                  batchResults.push(
+                  // Add empty result with graceful degradation, recording
+                  // this batch as failed for reporting
+                  completeBatch(
+                    batch,
                     this.createEmptyBatchResult(
-                      issues.slice(
-                        i * currentBatchSize,
-                        (i + 1) * currentBatchSize
-                      ),
+                      batchIssues,
                       this.options.model
-                    )
+                    ),
+                    true
                   );
-
-                  // Record this batch as failed for reporting
-                  failedBatches.push(i + 1);
                 }
               } catch (fallbackError) {
                 console.error(
-                  `Fallback attempt failed for batch ${i + 1}: ${fallbackError}`
+                  `Fallback attempt failed for batch ${batchNumber}: ${fallbackError}`
                 );
 
-                // Add empty result with graceful degradation
-                batchResults.push(
-                  this.createEmptyBatchResult(
-                    issues.slice(
-                      i * currentBatchSize,
-                      (i + 1) * currentBatchSize
-                    ),
-                    this.options.model
-                  )
+                // Add empty result with graceful degradation, recording this
+                // batch as failed for reporting
+                completeBatch(
+                  batch,
+                  this.createEmptyBatchResult(batchIssues, this.options.model),
+                  true
                 );
-
-                // Record this batch as failed for reporting
-                failedBatches.push(i + 1);
               }
             } else {
               // Try processing the batch with smaller size
-              const smallerBatchSize = Math.max(
-                1,
-                Math.floor(currentBatchSize / 2)
-              );
+              const smallerBatchSize = Math.max(1, Math.floor(batchLength / 2));
               console.log(
                 `Retrying with smaller batch size: ${smallerBatchSize}`
               );
 
-              // Process this batch again with smaller size in next iteration
-              // Adjust i to reprocess the current batch
-              currentBatchSize = smallerBatchSize;
-              i--; // Reprocess this batch
-              continue;
+              // The smaller batches are processed next
+              repack(batch, smallerBatchSize);
             }
           }
         } catch (batchError: any) {
           // Handle batch processing errors
           console.error(
-            `Error processing batch ${i + 1}: ${batchError.message}`
+            `Error processing batch ${batchNumber}: ${batchError.message}`
           );
 
           // If this is a context length error, reduce batch size and retry
@@ -599,56 +847,74 @@ export class JANClient {
             batchError.message?.includes("token limit") ||
             batchError.type === ErrorType.LLM_CONTEXT
           ) {
-            if (currentBatchSize > 1) {
-              const smallerBatchSize = Math.max(
-                1,
-                Math.floor(currentBatchSize / 2)
+            // Repack with the window the server reported, if it's smaller
+            // than the one assumed, or with the window learned from a batch
+            // that failed while this one was running
+            const learnedBudget = this.learnContextWindow(batchError);
+            if (learnedBudget) {
+              budget = learnedBudget;
+            }
+            if (batch.packedFor !== budget) {
+              console.log(
+                `Context length exceeded, repacking for a ${budget.contextWindow}-token context window`
               );
+              repack(batch, currentBatchSize);
+              return;
+            }
+
+            if (batchLength > 1) {
+              const smallerBatchSize = Math.max(1, Math.floor(batchLength / 2));
               console.log(
                 `Context length exceeded, retrying with smaller batch size: ${smallerBatchSize}`
               );
-              currentBatchSize = smallerBatchSize;
-              i--; // Reprocess this batch
-              continue;
+              repack(batch, smallerBatchSize);
+              return;
             }
           }
 
-          // For other errors with small batches, use empty result and continue
-          if (currentBatchSize <= 2) {
-            console.warn(
-              `Using empty result for failed batch ${i + 1} and continuing`
-            );
-
-            // Add empty result with graceful degradation
-            batchResults.push(
-              this.createEmptyBatchResult(
-                issues.slice(i * currentBatchSize, (i + 1) * currentBatchSize),
-                this.options.model
-              )
-            );
+          // Batches already fit the context window, so other errors aren't
+          // fixed by smaller batches: use empty result and continue
+          console.warn(
+            `Using empty result for failed batch ${batchNumber} and continuing`
+          );
 
-            // Record this batch as failed for reporting
-            failedBatches.push(i + 1);
-          } else {
-            // For larger batches, reduce size and retry
-            const smallerBatchSize = Math.max(
-              1,
-              Math.floor(currentBatchSize / 2)
-            );
-            console.log(
-              `Error occurred, retrying with smaller batch size: ${smallerBatchSize}`
-            );
-            currentBatchSize = smallerBatchSize;
-            i--; // Reprocess this batch
-            continue;
-          }
+          // Add empty result with graceful degradation, recording this batch
+          // as failed for reporting
+          completeBatch(
+            batch,
+            this.createEmptyBatchResult(batchIssues, this.options.model),
+            true
+          );
+        }
+      };
+
+      // Start batches while the concurrency limit allows; repacked batches
+      // go back to the front of the queue
+      while (queue.length > 0 || running.size > 0) {
+        if (queue.length > 0 && running.size < concurrency.limit) {
+          const batch = queue.shift()!;
+          const batchNumber = completedBatches.length + running.size + 1;
+          const task: Promise<void> = processBatch(
+            batch,
+            batchNumber,
+            batchNumber + queue.length
+          ).finally(() => running.delete(task));
+          running.add(task);
+        } else {
+          await Promise.race(running);
         }
       }
 
+      completedBatches.sort((a, b) => a.order - b.order);
+      const batchResults = completedBatches.map((batch) => batch.result);
+      const failedBatches = completedBatches
+        .map((batch, index) => (batch.failed ? index + 1 : 0))
+        .filter((batchNumber) => batchNumber > 0);
+
       // Report on any failed batches
       if (failedBatches.length > 0) {
         console.warn(
-          `Warning: ${failedBatches.length} out of ${batches.length} batches failed to process properly. ` +
+          `Warning: ${failedBatches.length} out of ${completedBatches.length} batches failed to process properly. ` +
             `Failed batch numbers: ${failedBatches.join(", ")}`
         );
       }
@@ -659,10 +925,14 @@ export class JANClient {
         this.options.model
       );
 
+      if (totalTokensUsed > 0) {
+        mergedResult.summary.totalTokensUsed = totalTokensUsed;
+      }
+
       // Add metadata about processing failures
       if (failedBatches.length > 0) {
         mergedResult.summary.processingErrors = failedBatches.length;
-        mergedResult.summary.totalBatches = batches.length;
+        mergedResult.summary.totalBatches = completedBatches.length;
       }
 
       return mergedResult;
@@ -688,6 +958,34 @@ export class JANClient {
     }
   }
 
+  /**
+   * Validates a parsed response against the response schema, recording the
+   * repairs made in its summary
+   *
+   * @returns The repaired response, or null if it can't be repaired
+   */
+  private validateResponse(
+    validator: ResponseValidator,
+    parsed: LLMAnalysisResponse,
+    issues: RawGitHubIssue[],
+    batchNumber: number
+  ): LLMAnalysisResponse | null {
+    const { response, repairs } = validator.validate(
+      parsed,
+      issues,
+      this.options.model
+    );
+
+    if (response && repairs.length > 0) {
+      console.warn(
+        `Repaired ${repairs.length} field(s) in the response for batch ${batchNumber}`
+      );
+      response.summary.repairs = repairs;
+    }
+
+    return response;
+  }
+
   /**
    * Creates an empty batch result for graceful degradation
    * Used when LLM analysis fails but we want to continue processing
@@ -813,6 +1111,48 @@ Return a JSON object with this structure:
     };
   }
 
+  /**
+   * Embeds texts with an embedding model of the LLM server
+   *
+   * @param model Embedding model, e.g. "nomic-embed-text"
+   * @param input Texts to embed
+   * @returns Promise resolving to one vector per text
+   * @throws ScraperError if the request fails
+   */
+  async createEmbeddings(model: string, input: string[]): Promise<number[][]> {
+    const context: ErrorContext = {
+      operation: "creating embeddings",
+      additionalInfo: { model, endpoint: this.options.endpoint },
+    };
+
+    const recorder = this.trafficRecorder;
+    const recordedRequest = { embeddingModel: model, input };
+
+    try {
+      if (recorder?.mode === "replay") {
+        return await recorder.replay<number[][]>("llm", recordedRequest);
+      }
+
+      let embeddings: number[][];
+      try {
+        embeddings = await this.provider.createEmbeddings(model, input);
+      } catch (error: any) {
+        await recorder?.recordError("llm", recordedRequest, error);
+        throw error;
+      }
+      if (embeddings.length !== input.length) {
+        throw new Error(
+          `${this.provider.displayName} returned ${embeddings.length} embeddings for ${input.length} texts`
+        );
+      }
+
+      await recorder?.record("llm", recordedRequest, { response: embeddings });
+      return embeddings;
+    } catch (error: any) {
+      throw ErrorHandler.convertToScraperError(error, context);
+    }
+  }
+
   /**
    * Gets the current JAN client options
    *
@@ -833,12 +1173,8 @@ Return a JSON object with this structure:
       ...options,
     };
 
-    // Reinitialize the client with new options
-    this.client = new OpenAI({
-      baseURL: this.options.endpoint,
-      apiKey: this.options.apiKey,
-      timeout: this.options.timeout,
-      maxRetries: this.options.maxRetries,
-    });
+    // Recreate the provider with the new options
+    this.provider = createLLMProvider(this.options);
+    this.tokenBudget = undefined;
   }
 }
@@ -0,0 +1,147 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { ErrorHandler, ErrorContext } from "./error-handler";
+
+export interface JsonEntryStoreStats {
+  cacheDir: string;
+  entries: number;
+  totalBytes: number;
+  oldestEntry?: string;
+  newestEntry?: string;
+}
+
+/**
+ * JSON Entry Store
+ *
+ * Keeps entries as one JSON file per key in a directory. It is the storage
+ * behind the on-disk caches, which only add how keys are derived and what an
+ * entry holds. Caching is an optimization, so unreadable entries count as
+ * missing and failed writes only warn.
+ */
+export class JsonEntryStore<T> {
+  /**
+   * @param cacheDir Directory of the entry files
+   * @param name Name of the store in messages, e.g. "HTTP cache"
+   */
+  constructor(private cacheDir: string, private name: string) {}
+
+  /**
+   * Get an entry (undefined if missing or unreadable)
+   */
+  async get(key: string): Promise<T | undefined> {
+    const filePath = this.getEntryPath(key);
+
+    try {
+      if (!(await fs.pathExists(filePath))) {
+        return undefined;
+      }
+
+      return (await fs.readJson(filePath)) as T;
+    } catch (error) {
+      // A corrupt entry only costs recomputing it
+      return undefined;
+    }
+  }
+
+  /**
+   * Store an entry atomically (write to temp file, then move)
+   */
+  async set(key: string, entry: T): Promise<void> {
+    const filePath = this.getEntryPath(key);
+    const context: ErrorContext = {
+      operation: `saving ${this.name} entry`,
+      filePath,
+    };
+
+    try {
+      await fs.ensureDir(this.cacheDir);
+
+      const tempPath = filePath + ".tmp";
+      await fs.writeJson(tempPath, entry);
+      await fs.move(tempPath, filePath, { overwrite: true });
+    } catch (error: any) {
+      // A failed write must not fail the run
+      const scraperError = ErrorHandler.convertToScraperError(error, context);
+      console.warn(
+        `Warning: Could not write ${this.name} entry (${scraperError.message})`
+      );
+    }
+  }
+
+  /**
+   * Remove all entries
+   *
+   * @returns Number of removed entries
+   */
+  async clear(): Promise<number> {
+    const context: ErrorContext = {
+      operation: `clearing ${this.name}`,
+      filePath: this.cacheDir,
+    };
+
+    try {
+      const entries = await this.listEntryFiles();
+      await fs.remove(this.cacheDir);
+      return entries.length;
+    } catch (error: any) {
+      throw ErrorHandler.convertToScraperError(error, context);
+    }
+  }
+
+  /**
+   * Count entries and their size on disk
+   */
+  async stats(): Promise<JsonEntryStoreStats> {
+    const context: ErrorContext = {
+      operation: `reading ${this.name} statistics`,
+      filePath: this.cacheDir,
+    };
+
+    try {
+      const stats: JsonEntryStoreStats = {
+        cacheDir: this.cacheDir,
+        entries: 0,
+        totalBytes: 0,
+      };
+      let oldest: Date | undefined;
+      let newest: Date | undefined;
+
+      for (const fileName of await this.listEntryFiles()) {
+        const fileStats = await fs.stat(path.join(this.cacheDir, fileName));
+        stats.entries++;
+        stats.totalBytes += fileStats.size;
+
+        if (!oldest || fileStats.mtime < oldest) oldest = fileStats.mtime;
+        if (!newest || fileStats.mtime > newest) newest = fileStats.mtime;
+      }
+
+      if (oldest && newest) {
+        stats.oldestEntry = oldest.toISOString();
+        stats.newestEntry = newest.toISOString();
+      }
+
+      return stats;
+    } catch (error: any) {
+      throw ErrorHandler.convertToScraperError(error, context);
+    }
+  }
+
+  /**
+   * Get the file path of an entry
+   */
+  getEntryPath(key: string): string {
+    return path.join(this.cacheDir, `${key}.json`);
+  }
+
+  /**
+   * List the entry files in the directory
+   */
+  private async listEntryFiles(): Promise<string[]> {
+    if (!(await fs.pathExists(this.cacheDir))) {
+      return [];
+    }
+
+    const files = await fs.readdir(this.cacheDir);
+    return files.filter((file) => file.endsWith(".json"));
+  }
+}
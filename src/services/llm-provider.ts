@@ -0,0 +1,483 @@
+import { OpenAI } from "openai";
+import axios from "axios";
+import {
+  JANClientOptions,
+  JANCompletionRequest,
+  JANCompletionResponse,
+  LLMProviderName,
+} from "../models";
+
+export const LLM_PROVIDERS: LLMProviderName[] = [
+  "jan",
+  "ollama",
+  "llamacpp",
+  "openai",
+];
+
+export const DEFAULT_LLM_ENDPOINTS: Record<LLMProviderName, string> = {
+  jan: "http://localhost:1337",
+  ollama: "http://localhost:11434",
+  llamacpp: "http://localhost:8080",
+  openai: "http://localhost:8000", // vLLM; LM Studio uses 1234, LocalAI 8080
+};
+
+// Context size Ollama runs models with unless their Modelfile sets num_ctx
+const OLLAMA_DEFAULT_CONTEXT_WINDOW = 4096;
+
+/**
+ * A local LLM server the analysis runs against
+ *
+ * Health and model discovery differ between servers; completions are always
+ * exchanged in the OpenAI chat completion format.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly displayName: string; // Used in messages, e.g. "Cannot connect to Ollama server"
+
+  /**
+   * Check that the server is up
+   *
+   * @throws The underlying request error if it isn't
+   */
+  checkHealth(): Promise<void>;
+
+  /**
+   * List the models the server can use
+   */
+  listModels(): Promise<string[]>;
+
+  /**
+   * Whether a model can be used, given the listed models
+   */
+  hasModel(model: string, models: string[]): boolean;
+
+  /**
+   * Discover the context window the server runs a model with
+   *
+   * @returns Tokens, or undefined if the server doesn't report it
+   */
+  getContextWindow(model: string): Promise<number | undefined>;
+
+  /**
+   * Describe how to make a missing model available
+   */
+  loadModelHint(model: string): string;
+
+  /**
+   * Create a chat completion
+   *
+   * @throws Errors with an HTTP `status` like the OpenAI client's
+   */
+  createChatCompletion(
+    request: JANCompletionRequest
+  ): Promise<JANCompletionResponse>;
+
+  /**
+   * Embed texts with an embedding model
+   *
+   * @returns One vector per text, in the order of the texts
+   * @throws Errors with an HTTP `status` like the OpenAI client's
+   */
+  createEmbeddings(model: string, input: string[]): Promise<number[][]>;
+}
+
+/**
+ * Resolve the endpoint for a provider, replacing another provider's default
+ * endpoint (e.g. JAN's, saved in the config) with this provider's default
+ */
+export function resolveLLMEndpoint(
+  provider: LLMProviderName,
+  endpoint?: string
+): string {
+  const isOtherDefault = Object.entries(DEFAULT_LLM_ENDPOINTS).some(
+    ([name, url]) => name !== provider && url === endpoint
+  );
+
+  return !endpoint || isOtherDefault
+    ? DEFAULT_LLM_ENDPOINTS[provider]
+    : endpoint;
+}
+
+/**
+ * Create the provider selected in the client options (JAN by default)
+ */
+export function createLLMProvider(options: JANClientOptions): LLMProvider {
+  switch (options.provider || "jan") {
+    case "ollama":
+      return new OllamaProvider(options);
+    case "llamacpp":
+      return new LlamaCppProvider(options);
+    case "openai":
+      return new OpenAICompatibleProvider(options);
+    default:
+      return new JANProvider(options);
+  }
+}
+
+/**
+ * Base for servers with an OpenAI-compatible chat completions API
+ */
+abstract class OpenAIChatProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+  abstract readonly displayName: string;
+  protected options: JANClientOptions;
+  private client: OpenAI;
+
+  constructor(options: JANClientOptions, baseURL: string) {
+    this.options = options;
+    this.client = new OpenAI({
+      baseURL,
+      apiKey: options.apiKey || "not-needed",
+      timeout: options.timeout,
+      maxRetries: options.maxRetries,
+    });
+  }
+
+  abstract checkHealth(): Promise<void>;
+  abstract listModels(): Promise<string[]>;
+  abstract loadModelHint(model: string): string;
+
+  hasModel(model: string, models: string[]): boolean {
+    return models.includes(model);
+  }
+
+  async getContextWindow(model: string): Promise<number | undefined> {
+    const entry = (await this.fetchOpenAIModels()).find(
+      (info) => info.id === model
+    );
+    return entry && modelInfoContextWindow(entry);
+  }
+
+  async createChatCompletion(
+    request: JANCompletionRequest
+  ): Promise<JANCompletionResponse> {
+    const response = await this.client.chat.completions.create(request);
+
+    return {
+      id: response.id,
+      object: response.object,
+      created: response.created,
+      model: response.model,
+      choices: response.choices.map((choice) => ({
+        index: choice.index,
+        message: {
+          role: choice.message.role,
+          content: choice.message.content || "",
+        },
+        finish_reason: choice.finish_reason,
+      })),
+      usage: {
+        prompt_tokens: response.usage?.prompt_tokens || 0,
+        completion_tokens: response.usage?.completion_tokens || 0,
+        total_tokens: response.usage?.total_tokens || 0,
+      },
+    };
+  }
+
+  async createEmbeddings(model: string, input: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({ model, input });
+
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((entry) => entry.embedding);
+  }
+
+  /**
+   * Server root without a trailing slash or /v1, so either form is accepted
+   */
+  protected get rootUrl(): string {
+    return serverRoot(this.options.endpoint);
+  }
+
+  /**
+   * List models from an OpenAI-style /v1/models endpoint
+   */
+  protected async listOpenAIModels(timeout?: number): Promise<string[]> {
+    return (await this.fetchOpenAIModels(timeout)).map((model) => model.id);
+  }
+
+  /**
+   * Fetch the model entries of an OpenAI-style /v1/models endpoint
+   */
+  protected async fetchOpenAIModels(timeout?: number): Promise<any[]> {
+    const response = await axios.get(`${this.rootUrl}/v1/models`, {
+      timeout: timeout ?? this.options.timeout,
+      ...(this.options.apiKey &&
+        this.options.apiKey !== "not-needed" && {
+          headers: { Authorization: `Bearer ${this.options.apiKey}` },
+        }),
+    });
+
+    if (response.status !== 200) {
+      throw new Error(`Failed to list models: ${response.status}`);
+    }
+
+    return response.data.data || [];
+  }
+}
+
+/**
+ * JAN: /health probe and OpenAI-compatible API relative to the endpoint
+ */
+class JANProvider extends OpenAIChatProvider {
+  readonly name = "jan" as const;
+  readonly displayName = "JAN";
+
+  constructor(options: JANClientOptions) {
+    super(options, options.endpoint);
+  }
+
+  async checkHealth(): Promise<void> {
+    const response = await axios.get(`${this.options.endpoint}/health`, {
+      timeout: 5000, // Short timeout for quick validation
+    });
+
+    if (response.status !== 200) {
+      throw new Error(`JAN server returned status code: ${response.status}`);
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await axios.get(`${this.options.endpoint}/v1/models`, {
+      timeout: this.options.timeout,
+    });
+
+    if (response.status !== 200) {
+      throw new Error(`Failed to list models: ${response.status}`);
+    }
+
+    return (response.data.data || []).map((model: any) => model.id);
+  }
+
+  loadModelHint(model: string): string {
+    return `Open JAN interface and load the '${model}' model`;
+  }
+}
+
+/**
+ * llama.cpp server: serves the single model it was started with, whatever
+ * model name a request asks for
+ */
+class LlamaCppProvider extends OpenAIChatProvider {
+  readonly name = "llamacpp" as const;
+  readonly displayName = "llama.cpp";
+
+  constructor(options: JANClientOptions) {
+    super(options, `${serverRoot(options.endpoint)}/v1`);
+  }
+
+  async checkHealth(): Promise<void> {
+    // Answers 503 while the model is still loading
+    await axios.get(`${this.rootUrl}/health`, { timeout: 5000 });
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.listOpenAIModels();
+  }
+
+  hasModel(model: string, models: string[]): boolean {
+    return models.length > 0;
+  }
+
+  async getContextWindow(): Promise<number | undefined> {
+    // The context size the server was started with (-c), per slot
+    const response = await axios.get(`${this.rootUrl}/props`, {
+      timeout: 5000,
+    });
+    const contextWindow = response.data?.default_generation_settings?.n_ctx;
+    if (contextWindow) {
+      return contextWindow;
+    }
+
+    const [entry] = await this.fetchOpenAIModels();
+    return entry && modelInfoContextWindow(entry);
+  }
+
+  loadModelHint(model: string): string {
+    return `Start llama-server with the model file, e.g. 'llama-server -m ${model}.gguf'`;
+  }
+}
+
+/**
+ * Any OpenAI-compatible server (vLLM, LM Studio, LocalAI); there is no
+ * standard health route, so listing models doubles as the health check
+ */
+class OpenAICompatibleProvider extends OpenAIChatProvider {
+  readonly name = "openai" as const;
+  readonly displayName = "OpenAI-compatible API";
+
+  constructor(options: JANClientOptions) {
+    super(options, `${serverRoot(options.endpoint)}/v1`);
+  }
+
+  async checkHealth(): Promise<void> {
+    await this.listOpenAIModels(5000);
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.listOpenAIModels();
+  }
+
+  loadModelHint(model: string): string {
+    return `Start the server with the '${model}' model or load it in the server's UI`;
+  }
+}
+
+/**
+ * Ollama's native API (/api/tags, /api/chat)
+ */
+class OllamaProvider implements LLMProvider {
+  readonly name = "ollama" as const;
+  readonly displayName = "Ollama";
+  private options: JANClientOptions;
+  private discoveredContextWindow?: number;
+
+  constructor(options: JANClientOptions) {
+    this.options = options;
+  }
+
+  async checkHealth(): Promise<void> {
+    await axios.get(`${serverRoot(this.options.endpoint)}/api/version`, {
+      timeout: 5000,
+    });
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await axios.get(
+      `${serverRoot(this.options.endpoint)}/api/tags`,
+      { timeout: this.options.timeout }
+    );
+
+    return (response.data.models || []).map((model: any) => model.name);
+  }
+
+  hasModel(model: string, models: string[]): boolean {
+    // Ollama adds the default ":latest" tag to untagged names
+    return models.includes(model) || models.includes(`${model}:latest`);
+  }
+
+  async getContextWindow(model: string): Promise<number | undefined> {
+    const response = await axios.post(
+      `${serverRoot(this.options.endpoint)}/api/show`,
+      { model },
+      { timeout: 5000 }
+    );
+
+    // Modelfile parameters are one "name value" pair per line
+    const numCtx = String(response.data?.parameters || "").match(
+      /^num_ctx\s+(\d+)/m
+    );
+    this.discoveredContextWindow = numCtx
+      ? parseInt(numCtx[1], 10)
+      : OLLAMA_DEFAULT_CONTEXT_WINDOW;
+
+    return this.discoveredContextWindow;
+  }
+
+  loadModelHint(model: string): string {
+    return `Run 'ollama pull ${model}'`;
+  }
+
+  async createChatCompletion(
+    request: JANCompletionRequest
+  ): Promise<JANCompletionResponse> {
+    let data: any;
+    try {
+      const response = await axios.post(
+        `${serverRoot(this.options.endpoint)}/api/chat`,
+        {
+          model: request.model,
+          messages: request.messages,
+          stream: false,
+          ...(request.response_format?.type === "json_object" && {
+            format: "json",
+          }),
+          options: {
+            temperature: request.temperature,
+            top_p: request.top_p,
+            num_predict: request.max_tokens,
+            // Sent explicitly, since Ollama silently truncates longer prompts
+            num_ctx: this.options.contextWindow || this.discoveredContextWindow,
+            frequency_penalty: request.frequency_penalty,
+            presence_penalty: request.presence_penalty,
+          },
+        },
+        { timeout: this.options.timeout }
+      );
+      data = response.data;
+    } catch (error: any) {
+      // Expose the HTTP status and Ollama's message like OpenAI client errors
+      if (error.response) {
+        throw Object.assign(
+          new Error(error.response.data?.error || error.message),
+          { status: error.response.status, code: error.code }
+        );
+      }
+      throw error;
+    }
+
+    const created = Math.floor(
+      (Date.parse(data.created_at) || Date.now()) / 1000
+    );
+    const promptTokens = data.prompt_eval_count || 0;
+    const completionTokens = data.eval_count || 0;
+
+    return {
+      id: `ollama-${created}`,
+      object: "chat.completion",
+      created,
+      model: data.model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: data.message?.role || "assistant",
+            content: data.message?.content || "",
+          },
+          finish_reason: data.done_reason || "stop",
+        },
+      ],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  async createEmbeddings(model: string, input: string[]): Promise<number[][]> {
+    try {
+      const response = await axios.post(
+        `${serverRoot(this.options.endpoint)}/api/embed`,
+        { model, input },
+        { timeout: this.options.timeout }
+      );
+      return response.data.embeddings || [];
+    } catch (error: any) {
+      if (error.response) {
+        throw Object.assign(
+          new Error(error.response.data?.error || error.message),
+          { status: error.response.status, code: error.code }
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Context window from a /v1/models entry; servers report it differently
+ */
+function modelInfoContextWindow(info: any): number | undefined {
+  return (
+    info.max_model_len || // vLLM
+    info.context_length || // LM Studio, OpenRouter
+    info.settings?.ctx_len || // JAN
+    info.meta?.n_ctx_train || // llama.cpp
+    undefined
+  );
+}
+
+function serverRoot(endpoint: string): string {
+  return endpoint.replace(/\/+$/, "").replace(/\/v1$/, "");
+}
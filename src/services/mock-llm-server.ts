@@ -0,0 +1,327 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  AnalyzedIssue,
+  LLMAnalysisResponse,
+  JANCompletionResponse,
+  JANMessage,
+} from "../models";
+
+export const MOCK_LLM_FAILURE_MODES = [
+  "none",
+  "malformed",
+  "timeout",
+  "rate-limit",
+  "context-length",
+] as const;
+
+export type MockLLMFailureMode = (typeof MOCK_LLM_FAILURE_MODES)[number];
+
+export interface MockLLMServerOptions {
+  port: number; // 0 picks a free port
+  host: string;
+  models: string[];
+  failureMode: MockLLMFailureMode;
+  failureCount?: number; // Fail only the first N completions (default: all)
+}
+
+export interface MockLLMServerStats {
+  completions: number;
+  failures: number;
+}
+
+// Matches the issue header written by PromptManager.formatIssueData
+const ISSUE_HEADER_PATTERN =
+  /^(?:ISSUE|PULL REQUEST) #(\d+) \(ID: (\d+)\)\r?\nTITLE: (.*)$/gm;
+
+const CATEGORIES = ["Performance", "Bug", "Usability", "Compatibility"];
+const PRIORITIES: AnalyzedIssue["priority"][] = ["high", "medium", "low"];
+
+/**
+ * Mock LLM Server
+ *
+ * A local OpenAI-compatible server with the endpoints JANClient uses, so the
+ * pipeline can run end-to-end without JAN. Completions are schema-valid
+ * analyses of the issues found in the prompt, derived deterministically from
+ * their IDs. Failure modes reproduce malformed JSON, hanging requests, rate
+ * limiting and context length errors to exercise JANClient's fallbacks.
+ */
+export class MockLLMServer {
+  private options: MockLLMServerOptions;
+  private server?: http.Server;
+  private stats: MockLLMServerStats = { completions: 0, failures: 0 };
+
+  constructor(options: Partial<MockLLMServerOptions> = {}) {
+    this.options = {
+      port: options.port ?? 1337, // JAN's default port
+      host: options.host || "127.0.0.1",
+      models: options.models?.length ? options.models : ["llama2"],
+      failureMode: options.failureMode || "none",
+      failureCount: options.failureCount,
+    };
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns Base URL of the server, to be used as the JAN endpoint
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.sendJson(res, 500, { error: { message: String(error) } });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    this.server = server;
+    return this.getUrl();
+  }
+
+  /**
+   * Stop listening and drop open connections, including hanging requests
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Get the base URL of the running server
+   */
+  getUrl(): string {
+    if (!this.server) {
+      throw new Error("Mock LLM server is not running");
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  /**
+   * Get the number of completions served and failed so far
+   */
+  getStats(): MockLLMServerStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Route a request to its endpoint
+   */
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    // JANClient lists models under /v1 but the OpenAI client posts
+    // completions relative to the endpoint, so accept both forms
+    const route = `${req.method} ${(req.url || "").replace(/^\/v1(?=\/)/, "")}`;
+
+    switch (route) {
+      case "GET /health":
+        this.sendJson(res, 200, { status: "ok" });
+        return;
+      case "GET /models":
+        this.sendJson(res, 200, {
+          object: "list",
+          data: this.options.models.map((id) => ({
+            id,
+            object: "model",
+            owned_by: "mock-llm",
+          })),
+        });
+        return;
+      case "POST /chat/completions":
+        await this.handleCompletion(req, res);
+        return;
+      default:
+        this.sendJson(res, 404, {
+          error: { message: `Unknown endpoint: ${req.method} ${req.url}` },
+        });
+    }
+  }
+
+  /**
+   * Answer a chat completion request, failing it if a failure mode is active
+   */
+  private async handleCompletion(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    let body: { model?: string; messages?: JANMessage[] };
+    try {
+      body = JSON.parse(await this.readBody(req));
+    } catch (error) {
+      this.sendJson(res, 400, {
+        error: { message: "Request body is not valid JSON" },
+      });
+      return;
+    }
+
+    const model = body.model || this.options.models[0];
+    const prompt = (body.messages || [])
+      .map((message) => message.content)
+      .join("\n");
+
+    this.stats.completions++;
+    const { failureMode, failureCount } = this.options;
+    const failing =
+      failureMode !== "none" &&
+      (failureCount === undefined || this.stats.failures < failureCount);
+
+    if (!failing) {
+      const analysis = this.createAnalysis(prompt, model);
+      this.sendJson(res, 200, this.createCompletion(model, prompt, analysis));
+      return;
+    }
+
+    this.stats.failures++;
+    switch (failureMode) {
+      case "malformed":
+        this.sendJson(
+          res,
+          200,
+          this.createCompletion(model, prompt, '{"relevantIssues": [{"id": ')
+        );
+        return;
+      case "timeout":
+        // Never answer; the client gives up after its timeout
+        return;
+      case "rate-limit":
+        res.setHeader("Retry-After", "1");
+        this.sendJson(res, 429, {
+          error: {
+            message: "Rate limit exceeded, retry after 1 second",
+            type: "rate_limit_error",
+          },
+        });
+        return;
+      case "context-length":
+        this.sendJson(res, 400, {
+          error: {
+            message: `This model's maximum context length is 4096 tokens, but the messages resulted in ${Math.max(
+              this.countTokens(prompt),
+              4097
+            )} tokens`,
+            type: "invalid_request_error",
+            code: "context_length_exceeded",
+          },
+        });
+        return;
+    }
+  }
+
+  /**
+   * Build an analysis of every issue in the prompt, varying scores and
+   * categories by issue ID so results are deterministic
+   */
+  private createAnalysis(prompt: string, model: string): string {
+    const issues = new Map<number, AnalyzedIssue>();
+
+    for (const match of prompt.matchAll(ISSUE_HEADER_PATTERN)) {
+      const id = parseInt(match[2], 10);
+      issues.set(id, {
+        id,
+        title: match[3].trim(),
+        relevanceScore: 55 + (id % 46),
+        category: CATEGORIES[id % CATEGORIES.length],
+        priority: PRIORITIES[id % PRIORITIES.length],
+        summary: `Mock analysis of issue #${match[1]}.`,
+        workarounds:
+          id % 2 === 0
+            ? [
+                {
+                  description: `Mock workaround for issue #${match[1]}`,
+                  author: "mock-maintainer",
+                  authorType: "maintainer",
+                  effectiveness: "suggested",
+                  confidence: 70,
+                },
+              ]
+            : [],
+        tags: ["mock"],
+        sentiment: "neutral",
+      });
+    }
+
+    const relevantIssues = [...issues.values()];
+    const response: LLMAnalysisResponse = {
+      relevantIssues,
+      summary: {
+        totalAnalyzed: relevantIssues.length,
+        relevantFound: relevantIssues.length,
+        topCategories: [
+          ...new Set(relevantIssues.map((issue) => issue.category)),
+        ],
+        analysisModel: model,
+      },
+    };
+
+    return JSON.stringify(response);
+  }
+
+  /**
+   * Wrap content in an OpenAI chat completion response
+   */
+  private createCompletion(
+    model: string,
+    prompt: string,
+    content: string
+  ): JANCompletionResponse {
+    const promptTokens = this.countTokens(prompt);
+    const completionTokens = this.countTokens(content);
+
+    return {
+      id: `chatcmpl-mock-${this.stats.completions}`,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content },
+          finish_reason: "stop",
+        },
+      ],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  /**
+   * Rough token estimate (about 4 characters per token)
+   */
+  private countTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+      req.on("error", reject);
+    });
+  }
+
+  private sendJson(
+    res: http.ServerResponse,
+    status: number,
+    body: unknown
+  ): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
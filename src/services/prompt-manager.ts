@@ -1,46 +1,24 @@
+import * as crypto from "crypto";
 import {
   JANMessage,
   RawGitHubIssue,
   RawComment,
+  RawReactions,
   LLMAnalysisResponse,
   AnalyzedIssue,
   LLMWorkaround,
 } from "../models";
-
-/**
- * Prompt Manager Service
- *
- * Handles creation and management of prompts for LLM analysis of GitHub issues.
- * Provides templates, schema specifications, and few-shot examples.
- */
-export class PromptManager {
-  /**
-   * Creates a system prompt for GitHub issue analysis
-   *
-   * @returns System prompt message
-   */
-  createSystemPrompt(): JANMessage {
-    return {
-      role: "system",
-      content: `You are an expert GitHub issue analyst specializing in identifying relevant issues, extracting workarounds, and providing structured analysis. 
-Your task is to analyze GitHub issues and their comments to:
-1. Determine relevance to a specified product area
-2. Extract and summarize key information
-3. Identify workarounds mentioned in comments
-4. Categorize and prioritize issues
-5. Provide sentiment analysis
-
-Respond with structured JSON following the exact schema provided. Be precise, thorough, and focus on extracting actionable insights.`,
-    };
-  }
-
-  /**
-   * Creates a JSON schema specification for LLM responses
-   *
-   * @returns JSON schema as a string
-   */
-  createResponseSchema(): string {
-    return `{
+import {
+  TokenBudget,
+  estimateTokens,
+  estimateMessageTokens,
+  packBatches,
+} from "./token-budget";
+import { PromptTemplates } from "./prompt-templates";
+import { Taxonomy } from "./taxonomy";
+
+// Schema of analysis responses, shown to the LLM as-is
+const RESPONSE_SCHEMA = `{
   "type": "object",
   "required": ["relevantIssues", "summary"],
   "properties": {
@@ -71,7 +49,18 @@ Respond with structured JSON following the exact schema provided. Be precise, th
             }
           },
           "tags": { "type": "array", "items": { "type": "string" } },
-          "sentiment": { "type": "string", "enum": ["positive", "neutral", "negative"] }
+          "sentiment": { "type": "string", "enum": ["positive", "neutral", "negative"] },
+          "resolution": {
+            "type": "object",
+            "description": "Only for closed issues: how the issue was resolved",
+            "required": ["type", "description"],
+            "properties": {
+              "type": { "type": "string", "enum": ["fixed", "duplicate", "wont_fix", "not_reproducible", "by_design", "stale", "other"] },
+              "description": { "type": "string" },
+              "version": { "type": "string", "description": "Release containing the fix, if mentioned" },
+              "duplicateOf": { "type": "number", "description": "Issue number this issue duplicates" }
+            }
+          }
         }
       }
     },
@@ -87,6 +76,127 @@ Respond with structured JSON following the exact schema provided. Be precise, th
     }
   }
 }`;
+
+/**
+ * Prompt Manager Service
+ *
+ * Handles creation and management of prompts for LLM analysis of GitHub issues.
+ * Renders the analysis prompts from templates (see prompts/), and provides
+ * schema specifications and few-shot examples.
+ */
+export class PromptManager {
+  private tokenBudget?: TokenBudget;
+  private templates: PromptTemplates = PromptTemplates.builtIn();
+  private taxonomy?: Taxonomy;
+
+  /**
+   * Sets the token budget batch prompts are packed into; without one,
+   * batches are split by issue count only
+   *
+   * @param budget Token budget of one analysis request
+   */
+  setTokenBudget(budget?: TokenBudget): void {
+    this.tokenBudget = budget;
+  }
+
+  /**
+   * Sets the taxonomy issues are categorized and tagged with; without one,
+   * categories and tags are free-form
+   *
+   * @param taxonomy Allowed categories and tag vocabulary
+   */
+  setTaxonomy(taxonomy?: Taxonomy): void {
+    this.taxonomy = taxonomy;
+  }
+
+  getTaxonomy(): Taxonomy | undefined {
+    return this.taxonomy;
+  }
+
+  /**
+   * Loads a project's prompt directory over the built-in templates
+   *
+   * @param dir Directory with a manifest.json and any template files to override
+   */
+  async loadTemplates(dir: string): Promise<void> {
+    this.templates = await PromptTemplates.load(dir);
+  }
+
+  /**
+   * Version declared by the active prompt templates' manifest.json
+   */
+  getTemplateVersion(): string {
+    return this.templates.version;
+  }
+
+  /**
+   * Creates a system prompt for GitHub issue analysis
+   *
+   * @returns System prompt message
+   */
+  createSystemPrompt(): JANMessage {
+    return {
+      role: "system",
+      content: this.templates.render("system"),
+    };
+  }
+
+  /**
+   * Derives a version from the prompt templates, response schema and
+   * few-shot example, so cached analyses are invalidated when the prompt
+   * changes even if its declared version doesn't
+   *
+   * @returns Short hash identifying the prompt version
+   */
+  getPromptVersion(): string {
+    return crypto
+      .createHash("sha256")
+      .update(
+        JSON.stringify([
+          this.createSystemPrompt().content,
+          this.createResponseSchema(),
+          this.createFewShotExample().content,
+          this.templates.sources.analysis,
+          this.templates.sources.pullRequests,
+          this.templates.sources.resolutions,
+          this.templates.sources.taxonomy,
+          this.taxonomy,
+        ])
+      )
+      .digest("hex")
+      .substring(0, 12);
+  }
+
+  /**
+   * Labels the active prompt for reports and evaluations: the declared
+   * version plus the hash of what was actually sent, e.g. "1.0.0+0c727d72fdf9"
+   */
+  getPromptVersionLabel(): string {
+    return `${this.getTemplateVersion()}+${this.getPromptVersion()}`;
+  }
+
+  /**
+   * Creates a JSON schema specification for LLM responses, restricting
+   * categories and tags to the taxonomy if there is one
+   *
+   * @returns JSON schema as a string
+   */
+  createResponseSchema(): string {
+    if (!this.taxonomy) {
+      return RESPONSE_SCHEMA;
+    }
+
+    const schema = JSON.parse(RESPONSE_SCHEMA);
+    const issueProperties = schema.properties.relevantIssues.items.properties;
+    const categories = this.taxonomy.categories.map(
+      (category) => category.name
+    );
+    issueProperties.category.enum = categories;
+    schema.properties.summary.properties.topCategories.items.enum = categories;
+    if (this.taxonomy.tags) {
+      issueProperties.tags.items.enum = this.taxonomy.tags;
+    }
+    return JSON.stringify(schema, null, 2);
   }
 
   /**
@@ -98,31 +208,52 @@ Respond with structured JSON following the exact schema provided. Be precise, th
    */
   formatIssueData(issue: RawGitHubIssue, comments: RawComment[] = []): string {
     const formattedComments = comments
-      .map((comment) => {
-        return `
-COMMENT BY: ${comment.user.login} (${comment.author_association})
-DATE: ${comment.created_at}
-${comment.body}
-`;
-      })
+      .map((comment) => this.formatComment(comment))
       .join("\n---\n");
+    // Summaries of condensed threads stand in for several comments
+    const commentCount = comments.reduce(
+      (count, comment) => count + (comment.summaryOf || 1),
+      0
+    );
+
+    const pullRequest = issue.pull_request;
+    const pullRequestInfo = pullRequest
+      ? `PULL REQUEST STATUS: ${pullRequest.merged_at ? "merged" : issue.state}
+LINKED ISSUES: ${
+          pullRequest.linked_issues?.length
+            ? pullRequest.linked_issues.map((number) => `#${number}`).join(", ")
+            : "none"
+        }
+`
+      : "";
+
+    const closedInfo =
+      issue.state === "closed" && issue.closed_at
+        ? `CLOSED: ${issue.closed_at}${
+            issue.state_reason ? ` (reason: ${issue.state_reason})` : ""
+          }\n`
+        : "";
+
+    const reactionsInfo = issue.reactions?.total_count
+      ? `REACTIONS: ${this.formatReactions(issue.reactions)}\n`
+      : "";
 
     return `
-ISSUE #${issue.number} (ID: ${issue.id})
+${pullRequest ? "PULL REQUEST" : "ISSUE"} #${issue.number} (ID: ${issue.id})
 TITLE: ${issue.title}
 AUTHOR: ${issue.user.login}
 STATE: ${issue.state}
-CREATED: ${issue.created_at}
+${closedInfo}${pullRequestInfo}CREATED: ${issue.created_at}
 UPDATED: ${issue.updated_at}
 URL: ${issue.html_url}
 LABELS: ${issue.labels.map((label) => label.name).join(", ")}
-
+${reactionsInfo}
 DESCRIPTION:
 ${issue.body || "No description provided"}
 
 ${
   comments.length > 0
-    ? `COMMENTS (${comments.length}):
+    ? `COMMENTS (${commentCount}):
 ---
 ${formattedComments}`
     : "NO COMMENTS"
@@ -130,6 +261,42 @@ ${formattedComments}`
 `;
   }
 
+  /**
+   * Formats a single comment of an issue thread
+   *
+   * @param comment Comment, or summary of condensed comments
+   * @returns Formatted comment as a string
+   */
+  formatComment(comment: RawComment): string {
+    if (comment.summaryOf) {
+      return `
+SUMMARY OF ${comment.summaryOf} COMMENTS
+FROM: ${comment.created_at}
+${comment.body}
+`;
+    }
+
+    const reviewPath = comment.path
+      ? `REVIEW COMMENT ON: ${comment.path}\n`
+      : "";
+    // Reactions on a comment often confirm that a workaround works
+    const reactions = comment.reactions?.total_count
+      ? `REACTIONS: ${this.formatReactions(comment.reactions)}\n`
+      : "";
+    return `
+${reviewPath}COMMENT BY: ${comment.user.login} (${comment.author_association})
+DATE: ${comment.created_at}
+${reactions}${comment.body}
+`;
+  }
+
+  /**
+   * Formats reaction counts, e.g. "12 (9 thumbs up)"
+   */
+  private formatReactions(reactions: RawReactions): string {
+    return `${reactions.total_count} (${reactions["+1"]} thumbs up)`;
+  }
+
   /**
    * Creates a prompt for analyzing a batch of GitHub issues
    *
@@ -146,38 +313,79 @@ ${formattedComments}`
     // Start with the system prompt
     const messages: JANMessage[] = [this.createSystemPrompt()];
 
+    // Extra instructions only when the batch contains pull requests or closed issues
+    const pullRequestInstructions = issues.some((issue) => issue.pull_request)
+      ? this.createPullRequestInstructions(productArea)
+      : "";
+    const resolutionInstructions = issues.some(
+      (issue) => issue.state === "closed" && !issue.pull_request
+    )
+      ? this.createResolutionInstructions(productArea)
+      : "";
+
     // Add the user prompt with context and instructions
     const userPrompt = {
       role: "user" as const,
-      content: `I need you to analyze the following GitHub issues for the product area: "${productArea}".
-
-For each issue, determine:
-1. If it's relevant to the product area "${productArea}" (score 0-100)
-2. A concise summary of the issue
-3. Any workarounds mentioned in comments
-4. The appropriate category and priority
-5. Sentiment analysis (positive, neutral, negative)
-
-Only include issues with a relevance score above 50 in your response.
+      content: this.templates.render("analysis", {
+        productArea,
+        taxonomyInstructions: this.createTaxonomyInstructions(productArea),
+        pullRequestInstructions,
+        resolutionInstructions,
+        issues: issues
+          .map((issue) => {
+            const issueComments = comments.get(issue.id) || [];
+            return this.formatIssueData(issue, issueComments);
+          })
+          .join("\n\n==========\n\n"),
+        schema: this.createResponseSchema(),
+      }),
+    };
 
-Here are the issues to analyze:
+    messages.push(userPrompt);
 
-${issues
-  .map((issue) => {
-    const issueComments = comments.get(issue.id) || [];
-    return this.formatIssueData(issue, issueComments);
-  })
-  .join("\n\n==========\n\n")}
+    return messages;
+  }
 
-Respond with a JSON object that strictly follows this schema:
-${this.createResponseSchema()}
+  /**
+   * Instructions for analyzing pull requests as candidate fixes
+   *
+   * @param productArea Product area for relevance filtering
+   * @returns Prompt section
+   */
+  private createPullRequestInstructions(productArea: string): string {
+    return this.templates.render("pullRequests", { productArea });
+  }
 
-Include only the JSON in your response, with no additional text or explanations.`,
-    };
+  /**
+   * Lists the taxonomy's categories and tag vocabulary
+   *
+   * @param productArea Product area for relevance filtering
+   * @returns Prompt section, empty without a taxonomy
+   */
+  private createTaxonomyInstructions(productArea: string): string {
+    if (!this.taxonomy) {
+      return "";
+    }
 
-    messages.push(userPrompt);
+    return this.templates.render("taxonomy", {
+      productArea,
+      categories: this.taxonomy.categories.map((category) => ({
+        name: category.name,
+        description: category.description || "",
+      })),
+      tags: this.taxonomy.tags || [],
+      fallbackCategory: this.taxonomy.fallbackCategory,
+    });
+  }
 
-    return messages;
+  /**
+   * Instructions for extracting how closed issues were resolved
+   *
+   * @param productArea Product area for relevance filtering
+   * @returns Prompt section
+   */
+  private createResolutionInstructions(productArea: string): string {
+    return this.templates.render("resolutions", { productArea });
   }
 
   /**
@@ -292,6 +500,40 @@ The summary should be 1-3 sentences that capture the core problem, any key conte
     ];
   }
 
+  /**
+   * Creates a prompt for summarizing part of a long comment thread, or
+   * earlier summaries of it
+   *
+   * @param issue Raw GitHub issue the comments belong to
+   * @param comments Consecutive comments of the thread
+   * @param productArea Product area the later analysis is for
+   * @returns Array of messages for the LLM
+   */
+  buildThreadSummaryPrompt(
+    issue: RawGitHubIssue,
+    comments: RawComment[],
+    productArea: string
+  ): JANMessage[] {
+    return [
+      {
+        role: "system",
+        content: `You are an expert at condensing long GitHub discussions. Summarize comments so that a later analysis can still tell what the problem is, who is affected, and which fixes or workarounds were tried and whether they worked.`,
+      },
+      {
+        role: "user",
+        content: `The following comments are part of the discussion of GitHub issue #${
+          issue.number
+        }: "${
+          issue.title
+        }". The discussion will be analyzed for the product area "${productArea}".
+
+${comments.map((comment) => this.formatComment(comment)).join("\n---\n")}
+
+Summarize these comments in one short paragraph of plain text. Keep versions, error messages, affected platforms and any workaround with the username of who suggested it and whether others confirmed it. Leave out thanks, "+1" comments and off-topic discussion. Respond with the summary only.`,
+      },
+    ];
+  }
+
   /**
    * Creates a few-shot example for issue analysis
    *
@@ -300,49 +542,7 @@ The summary should be 1-3 sentences that capture the core problem, any key conte
   createFewShotExample(): JANMessage {
     return {
       role: "assistant",
-      content: JSON.stringify(
-        {
-          relevantIssues: [
-            {
-              id: 12345,
-              title: "App crashes when uploading large images",
-              relevanceScore: 85,
-              category: "Performance",
-              priority: "high",
-              summary:
-                "The application crashes when users attempt to upload images larger than 10MB due to memory allocation issues in the image processing module.",
-              workarounds: [
-                {
-                  description:
-                    "Resize images to under 10MB before uploading using an external tool",
-                  author: "user123",
-                  authorType: "user",
-                  effectiveness: "confirmed",
-                  confidence: 90,
-                },
-                {
-                  description:
-                    "Use the desktop app instead of the web interface for large uploads",
-                  author: "maintainer42",
-                  authorType: "maintainer",
-                  effectiveness: "suggested",
-                  confidence: 75,
-                },
-              ],
-              tags: ["crash", "upload", "images", "memory-issue"],
-              sentiment: "negative",
-            },
-          ],
-          summary: {
-            totalAnalyzed: 1,
-            relevantFound: 1,
-            topCategories: ["Performance"],
-            analysisModel: "llama2",
-          },
-        },
-        null,
-        2
-      ),
+      content: JSON.stringify(this.templates.fewShotExample, null, 2),
     };
   }
 
@@ -352,7 +552,7 @@ The summary should be 1-3 sentences that capture the core problem, any key conte
    * @param issues Array of raw GitHub issues
    * @param comments Map of issue ID to comments
    * @param productArea Product area for relevance filtering
-   * @param batchSize Number of issues per batch
+   * @param batchSize Maximum number of issues per batch
    * @returns Array of batch prompts, each containing a subset of issues
    */
   createBatchPrompts(
@@ -361,17 +561,87 @@ The summary should be 1-3 sentences that capture the core problem, any key conte
     productArea: string,
     batchSize: number = 5
   ): JANMessage[][] {
-    const batches: JANMessage[][] = [];
-
-    // Split issues into batches
-    for (let i = 0; i < issues.length; i += batchSize) {
-      const batchIssues = issues.slice(i, i + batchSize);
-      batches.push(
+    return this.packIssueBatches(issues, comments, productArea, batchSize).map(
+      (batchIssues) =>
         this.buildAnalysisPrompt(batchIssues, comments, productArea)
-      );
+    );
+  }
+
+  /**
+   * Splits issues into the batches createBatchPrompts builds prompts for
+   *
+   * With a token budget, each batch holds as many issues as fit next to the
+   * fixed prompt and their expected analyses, up to batchSize.
+   *
+   * @param issues Array of raw GitHub issues
+   * @param comments Map of issue ID to comments
+   * @param productArea Product area for relevance filtering
+   * @param batchSize Maximum number of issues per batch
+   * @returns Issues of each batch, in order
+   */
+  packIssueBatches(
+    issues: RawGitHubIssue[],
+    comments: Map<number, RawComment[]>,
+    productArea: string,
+    batchSize: number = 5
+  ): RawGitHubIssue[][] {
+    if (!this.tokenBudget) {
+      const batches: RawGitHubIssue[][] = [];
+      for (let i = 0; i < issues.length; i += batchSize) {
+        batches.push(issues.slice(i, i + batchSize));
+      }
+      return batches;
     }
 
-    return batches;
+    return packBatches(
+      issues,
+      (issue) => this.estimateIssueTokens(issue, comments.get(issue.id)),
+      this.estimatePromptOverheadTokens(productArea),
+      this.tokenBudget,
+      batchSize
+    );
+  }
+
+  /**
+   * Estimates the tokens an issue adds to a batch: its data in the prompt
+   * plus its analysis in the response, sized like the few-shot example
+   * without indentation
+   *
+   * @param issue Raw GitHub issue
+   * @param comments Comments for the issue
+   * @returns Estimated token count
+   */
+  estimateIssueTokens(
+    issue: RawGitHubIssue,
+    comments: RawComment[] = []
+  ): number {
+    return (
+      estimateTokens(this.formatIssueData(issue, comments)) +
+      estimateTokens(
+        JSON.stringify(JSON.parse(this.createFewShotExample().content))
+      )
+    );
+  }
+
+  /**
+   * Estimates the tokens every analysis prompt needs regardless of its
+   * issues: system prompt, instructions and response schema
+   *
+   * @param productArea Product area for relevance filtering
+   * @returns Estimated token count
+   */
+  estimatePromptOverheadTokens(productArea: string): number {
+    // Pull request and resolution instructions depend on the batch, so
+    // count them in case a batch needs them
+    return (
+      estimateMessageTokens(
+        this.buildAnalysisPrompt([], new Map(), productArea)
+      ) +
+      estimateTokens(
+        this.createPullRequestInstructions(productArea) +
+          this.createResolutionInstructions(productArea)
+      )
+    );
   }
 
   /**
@@ -0,0 +1,214 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import Handlebars from "handlebars";
+import { ErrorHandler, ErrorContext, ScraperError } from "./error-handler";
+
+// Prompts shipped with the scraper; the same path from src/ and dist/
+export const BUILT_IN_PROMPT_DIR = path.join(__dirname, "..", "..", "prompts");
+
+const MANIFEST_FILE = "manifest.json";
+const FEW_SHOT_EXAMPLE_FILE = "few-shot-example.json";
+
+export type PromptTemplateName =
+  | "system"
+  | "analysis"
+  | "pullRequests"
+  | "resolutions"
+  | "taxonomy";
+
+// Template files of a prompt directory and sample values of the variables
+// each is rendered with, used to check templates when they are loaded
+const TEMPLATE_FILES: Record<
+  PromptTemplateName,
+  { file: string; variables: Record<string, unknown> }
+> = {
+  system: { file: "system.hbs", variables: {} },
+  analysis: {
+    file: "analysis.hbs",
+    variables: {
+      productArea: "productArea",
+      taxonomyInstructions: "taxonomyInstructions",
+      pullRequestInstructions: "pullRequestInstructions",
+      resolutionInstructions: "resolutionInstructions",
+      issues: "issues",
+      schema: "schema",
+    },
+  },
+  pullRequests: {
+    file: "pull-requests.hbs",
+    variables: { productArea: "productArea" },
+  },
+  resolutions: {
+    file: "resolutions.hbs",
+    variables: { productArea: "productArea" },
+  },
+  taxonomy: {
+    file: "taxonomy.hbs",
+    variables: {
+      productArea: "productArea",
+      categories: [{ name: "name", description: "description" }],
+      tags: ["tag"],
+      fallbackCategory: "fallbackCategory",
+    },
+  },
+};
+
+// Declares the version of a prompt directory
+export interface PromptManifest {
+  version: string;
+  description?: string;
+}
+
+let builtIn: PromptTemplates | undefined;
+
+/**
+ * Prompt Templates
+ *
+ * The analysis prompts as Handlebars templates plus the few-shot example,
+ * loaded from the built-in prompt directory. A project's prompt directory
+ * overrides the built-in files it contains and declares its own version in
+ * a manifest.json.
+ */
+export class PromptTemplates {
+  readonly version: string;
+  readonly sources: Record<PromptTemplateName, string>;
+  readonly fewShotExample: unknown;
+  private compiled: Record<PromptTemplateName, HandlebarsTemplateDelegate>;
+
+  private constructor(
+    manifest: PromptManifest,
+    sources: Record<PromptTemplateName, string>,
+    fewShotExample: unknown
+  ) {
+    this.version = manifest.version;
+    this.sources = sources;
+    this.fewShotExample = fewShotExample;
+
+    // Values are inserted as-is, and misspelled variables fail instead of
+    // rendering as empty text
+    const engine = Handlebars.create();
+    this.compiled = {} as Record<
+      PromptTemplateName,
+      HandlebarsTemplateDelegate
+    >;
+    for (const name of Object.keys(sources) as PromptTemplateName[]) {
+      this.compiled[name] = engine.compile(sources[name], {
+        noEscape: true,
+        strict: true,
+      });
+    }
+  }
+
+  /**
+   * The built-in templates, read once per process
+   */
+  static builtIn(): PromptTemplates {
+    if (!builtIn) {
+      // Read synchronously so that PromptManager works without a load step
+      const read = (file: string) =>
+        fs.readFileSync(path.join(BUILT_IN_PROMPT_DIR, file), "utf8");
+      builtIn = new PromptTemplates(
+        JSON.parse(read(MANIFEST_FILE)),
+        mapTemplates((file) => trimFinalNewline(read(file))),
+        JSON.parse(read(FEW_SHOT_EXAMPLE_FILE))
+      );
+    }
+    return builtIn;
+  }
+
+  /**
+   * Load a project's prompt directory over the built-in templates
+   *
+   * @param dir Directory with a manifest.json and any of the template files
+   * @throws ScraperError if the directory, its manifest or a template is invalid
+   */
+  static async load(dir: string): Promise<PromptTemplates> {
+    const context: ErrorContext = {
+      operation: "loading prompt templates",
+      filePath: dir,
+    };
+    const invalid = (message: string, description: string): ScraperError =>
+      ErrorHandler.handleValidationError(message, context, [
+        { action: "Fix the prompt directory", description, priority: "high" },
+      ]);
+
+    if (!(await fs.pathExists(path.join(dir, MANIFEST_FILE)))) {
+      throw invalid(
+        `Prompt directory has no ${MANIFEST_FILE}: ${dir}`,
+        `Pass a directory containing a ${MANIFEST_FILE} with a "version" to --prompt-dir`
+      );
+    }
+
+    const defaults = PromptTemplates.builtIn();
+    let manifest: PromptManifest;
+    const sources = { ...defaults.sources };
+    let fewShotExample = defaults.fewShotExample;
+    try {
+      manifest = await fs.readJson(path.join(dir, MANIFEST_FILE));
+      for (const name of Object.keys(TEMPLATE_FILES) as PromptTemplateName[]) {
+        const filePath = path.join(dir, TEMPLATE_FILES[name].file);
+        if (await fs.pathExists(filePath)) {
+          sources[name] = trimFinalNewline(await fs.readFile(filePath, "utf8"));
+        }
+      }
+      const examplePath = path.join(dir, FEW_SHOT_EXAMPLE_FILE);
+      if (await fs.pathExists(examplePath)) {
+        fewShotExample = await fs.readJson(examplePath);
+      }
+    } catch (error: any) {
+      throw ErrorHandler.convertToScraperError(error, context);
+    }
+
+    if (typeof manifest?.version !== "string" || !manifest.version.trim()) {
+      throw invalid(
+        `${MANIFEST_FILE} in ${dir} doesn't declare a version`,
+        `Add a "version" such as "1.0.0" and change it whenever the prompts change`
+      );
+    }
+
+    const templates = new PromptTemplates(manifest, sources, fewShotExample);
+
+    // Handlebars compiles on first use, so render every template once to
+    // catch syntax errors and unknown variables before any issues are fetched
+    for (const name of Object.keys(TEMPLATE_FILES) as PromptTemplateName[]) {
+      const { file, variables } = TEMPLATE_FILES[name];
+      try {
+        templates.render(name, variables);
+      } catch (error: any) {
+        throw invalid(
+          `Invalid prompt template ${file}: ${error.message}`,
+          Object.keys(variables).length > 0
+            ? `Check for unbalanced braces; ${file} can use the variables ${Object.keys(
+                variables
+              ).join(", ")}`
+            : `Check for unbalanced braces; ${file} can't use variables`
+        );
+      }
+    }
+
+    return templates;
+  }
+
+  /**
+   * Render a template with its variables
+   */
+  render(
+    name: PromptTemplateName,
+    variables: Record<string, unknown> = {}
+  ): string {
+    return this.compiled[name](variables);
+  }
+}
+
+function mapTemplates(
+  read: (file: string) => string
+): Record<PromptTemplateName, string> {
+  return Object.fromEntries(
+    Object.entries(TEMPLATE_FILES).map(([name, { file }]) => [name, read(file)])
+  ) as Record<PromptTemplateName, string>;
+}
+
+// Editors end files with a newline that isn't part of the prompt
+function trimFinalNewline(source: string): string {
+  return source.replace(/\r?\n$/, "");
+}
@@ -4,10 +4,18 @@ import {
   LLMAnalysisResponse,
   AnalyzedIssue,
   LLMWorkaround,
+  IssueResolution,
+  ProcessingStats,
+  ReportFormat,
+  IssueCluster,
+  PrefilterStats,
 } from "../models";
 import * as fs from "fs-extra";
 import * as path from "path";
+import Handlebars from "handlebars";
 import { ErrorHandler, ErrorContext } from "./error-handler";
+import { HTML_REPORT_STYLES, HTML_REPORT_SCRIPT } from "./html-report-assets";
+import { GitHubClient } from "./github-client";
 
 export interface ReportMetadata {
   repositoryName: string;
@@ -19,21 +27,56 @@ export interface ReportMetadata {
   minRelevanceScore: number;
   generatedBy: string;
   analysisModel?: string;
-  processingStats?: {
-    batchCount?: number;
-    totalTokensUsed?: number;
-    analysisTime?: number;
-  };
+  promptVersion?: string; // Declared prompt template version plus content hash
+  processingStats?: ProcessingStats;
+  clusters?: IssueCluster[]; // Near-duplicate issues, see IssueClusterer
+  prefilter?: PrefilterStats; // Ranking of issues before the LLM analysis
 }
 
 export interface ReportGenerationOptions {
   includeTableOfContents?: boolean;
   sortByRelevance?: boolean;
   includeMetadata?: boolean;
-  customTemplate?: string;
+  customTemplate?: string; // Handlebars template source, see loadTemplate
 }
 
+// Version of the JSON report document; bump the major version on breaking changes
+export const JSON_REPORT_SCHEMA_VERSION = "1.7.0";
+
+export const REPORT_FORMATS: ReportFormat[] = [
+  "markdown",
+  "json",
+  "csv",
+  "html",
+];
+
+const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  csv: "csv",
+  html: "html",
+};
+
+const RESOLUTION_LABELS: Record<IssueResolution["type"], string> = {
+  fixed: "Fixed",
+  duplicate: "Duplicate",
+  wont_fix: "Won't fix",
+  not_reproducible: "Not reproducible",
+  by_design: "By design",
+  stale: "Closed as stale",
+  other: "Closed",
+};
+
+// Strongest first, used to pick the best workaround of an issue
+const EFFECTIVENESS_RANK: Array<LLMWorkaround["effectiveness"]> = [
+  "confirmed",
+  "partial",
+  "suggested",
+];
+
 export class ReportGenerator {
+  private templateEngine?: typeof Handlebars;
+
   private readonly defaultOptions: Required<ReportGenerationOptions> = {
     includeTableOfContents: true,
     sortByRelevance: true,
@@ -53,6 +96,17 @@ export class ReportGenerator {
   ): Promise<string> {
     const opts = { ...this.defaultOptions, ...options };
 
+    // A user-supplied template replaces the built-in layout entirely
+    if (opts.customTemplate) {
+      return this.renderCustomTemplate(
+        opts.customTemplate,
+        issues,
+        metadata,
+        config,
+        opts
+      );
+    }
+
     // If LLM analysis is provided, use it instead of raw issues
     if (llmAnalysis) {
       return this.generateLLMDrivenReport(llmAnalysis, metadata, config, opts);
@@ -78,6 +132,10 @@ export class ReportGenerator {
       report += this.generateTableOfContents(sortedIssues);
     }
 
+    if (metadata.clusters?.length) {
+      report += this.generateClustersSection(metadata.clusters);
+    }
+
     // Generate issues section
     report += this.generateIssuesSection(sortedIssues);
 
@@ -124,15 +182,322 @@ export class ReportGenerator {
     return report;
   }
 
+  /**
+   * Load and syntax-check a Handlebars report template from a file
+   */
+  async loadTemplate(templatePath: string): Promise<string> {
+    const context: ErrorContext = {
+      operation: "loading report template",
+      filePath: templatePath,
+    };
+
+    if (!(await fs.pathExists(templatePath))) {
+      throw ErrorHandler.handleValidationError(
+        `Report template not found: ${templatePath}`,
+        context,
+        [
+          {
+            action: "Check template path",
+            description:
+              "Pass the path of an existing Handlebars file to --template",
+            priority: "high",
+          },
+        ]
+      );
+    }
+
+    let template: string;
+    try {
+      template = await fs.readFile(templatePath, "utf8");
+    } catch (error: any) {
+      throw ErrorHandler.convertToScraperError(error, context);
+    }
+
+    // Compile now so syntax errors surface before any issues are fetched
+    try {
+      this.getTemplateEngine().precompile(template);
+    } catch (error: any) {
+      throw ErrorHandler.handleValidationError(
+        `Invalid report template: ${error.message}`,
+        context,
+        [
+          {
+            action: "Fix template syntax",
+            description:
+              "Check for unclosed {{#each}}/{{#if}} blocks and unbalanced braces",
+            priority: "high",
+          },
+        ]
+      );
+    }
+
+    return template;
+  }
+
+  /**
+   * Generate a versioned JSON report document (see docs/report-schema.json)
+   */
+  generateJsonReport(issues: GitHubIssue[], metadata: ReportMetadata): string {
+    const { processingStats, clusters, ...reportMetadata } = metadata;
+
+    const document = {
+      schema: "github-issue-scraper/report",
+      schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      metadata: {
+        ...reportMetadata,
+        scrapeDate: metadata.scrapeDate.toISOString(),
+      },
+      processingStats: processingStats || null,
+      clusters: clusters || null,
+      issues: this.sortIssuesByRelevance(issues).map((issue) => ({
+        ...issue,
+        createdAt: issue.createdAt.toISOString(),
+        updatedAt: issue.updatedAt.toISOString(),
+        comments: issue.comments.map((comment) => ({
+          ...comment,
+          createdAt: comment.createdAt.toISOString(),
+        })),
+      })),
+    };
+
+    return JSON.stringify(document, null, 2) + "\n";
+  }
+
+  /**
+   * Generate CSV exports: one row per issue and one row per workaround
+   */
+  generateCsvReports(issues: GitHubIssue[]): {
+    issues: string;
+    workarounds: string;
+  } {
+    const sortedIssues = this.sortIssuesByRelevance(issues);
+
+    const issueRows: Array<Array<string | number>> = [
+      [
+        "number",
+        "title",
+        "url",
+        "relevanceScore",
+        "category",
+        "priority",
+        "sentiment",
+        "tags",
+        "summary",
+        "workaroundCount",
+        "bestWorkaroundEffectiveness",
+        "kind",
+        "linkedPullRequests",
+        "state",
+        "resolution",
+      ],
+      ...sortedIssues.map((issue) => [
+        issue.number,
+        issue.title,
+        issue.url,
+        issue.relevanceScore,
+        issue.category,
+        issue.priority,
+        issue.sentiment,
+        issue.tags.join("; "),
+        issue.summary,
+        issue.workarounds.length,
+        this.getBestEffectiveness(issue.workarounds),
+        issue.pullRequest ? "pull request" : "issue",
+        (issue.linkedPullRequests || [])
+          .map((pullRequest) => `#${pullRequest.number} (${pullRequest.state})`)
+          .join("; "),
+        issue.state,
+        issue.resolution ? this.formatResolution(issue.resolution) : "",
+      ]),
+    ];
+
+    const workaroundRows: Array<Array<string | number>> = [
+      [
+        "issueNumber",
+        "issueTitle",
+        "issueUrl",
+        "description",
+        "author",
+        "authorType",
+        "effectiveness",
+        "confidence",
+      ],
+      ...sortedIssues.flatMap((issue) =>
+        issue.workarounds.map((workaround) => [
+          issue.number,
+          issue.title,
+          issue.url,
+          workaround.description,
+          workaround.author,
+          workaround.authorType,
+          workaround.effectiveness,
+          workaround.confidence,
+        ])
+      ),
+    ];
+
+    return {
+      issues: this.toCsv(issueRows),
+      workarounds: this.toCsv(workaroundRows),
+    };
+  }
+
+  /**
+   * Generate a self-contained HTML report with client-side filtering and sorting
+   */
+  generateHtmlReport(issues: GitHubIssue[], metadata: ReportMetadata): string {
+    const sortedIssues = this.sortIssuesByRelevance(issues);
+    const title = `GitHub Issues Report: ${metadata.repositoryName} - ${metadata.productArea}`;
+    const workaroundCount = issues.reduce(
+      (total, issue) => total + issue.workarounds.length,
+      0
+    );
+
+    const options = (values: string[]) =>
+      Array.from(new Set(values))
+        .sort((a, b) => a.localeCompare(b))
+        .map(
+          (value) =>
+            `<option value="${this.escapeHtml(value)}">${this.escapeHtml(
+              value
+            )}</option>`
+        )
+        .join("");
+
+    const rows = sortedIssues
+      .map((issue) => this.formatHtmlIssueRow(issue))
+      .join("\n");
+    const clusters = metadata.clusters?.length
+      ? this.formatHtmlClusters(metadata.clusters)
+      : "";
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${this.escapeHtml(title)}</title>
+<style>${HTML_REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${this.escapeHtml(title)}</h1>
+<div class="meta">
+  <a href="${this.escapeHtml(metadata.repositoryUrl)}">${this.escapeHtml(
+      metadata.repositoryUrl
+    )}</a>
+  &middot; Generated ${this.escapeHtml(metadata.scrapeDate.toISOString())}
+  &middot; ${this.escapeHtml(metadata.generatedBy)}${
+      metadata.analysisModel
+        ? ` &middot; Model: ${this.escapeHtml(metadata.analysisModel)}`
+        : ""
+    }${
+      metadata.promptVersion
+        ? ` &middot; Prompt: ${this.escapeHtml(metadata.promptVersion)}`
+        : ""
+    }${
+      metadata.prefilter
+        ? ` &middot; Pre-filter: ${this.escapeHtml(
+            this.formatPrefilter(metadata.prefilter)
+          )}`
+        : ""
+    }
+</div>
+<div class="stats">
+  <div class="stat"><strong>${
+    metadata.totalIssuesAnalyzed
+  }</strong>Issues analyzed</div>
+  <div class="stat"><strong>${issues.length}</strong>Relevant issues</div>
+  <div class="stat"><strong>${workaroundCount}</strong>Workarounds</div>
+  <div class="stat"><strong><span id="visible-count">${
+    issues.length
+  }</span></strong>Shown</div>
+</div>
+<div class="filters">
+  <label>Search <input type="search" id="filter-search" placeholder="Title, summary, workaround..."></label>
+  <label>Category <select id="filter-category"><option value="">All</option>${options(
+    issues.map((issue) => issue.category)
+  )}</select></label>
+  <label>Priority <select id="filter-priority"><option value="">All</option><option value="high">High</option><option value="medium">Medium</option><option value="low">Low</option></select></label>
+  <label>Sentiment <select id="filter-sentiment"><option value="">All</option><option value="negative">Negative</option><option value="neutral">Neutral</option><option value="positive">Positive</option></select></label>
+  <label>Tag <select id="filter-tag"><option value="">All</option>${options(
+    issues.flatMap((issue) => issue.tags)
+  )}</select></label>
+  <label>Min relevance <input type="range" id="filter-score" min="0" max="100" value="${
+    metadata.minRelevanceScore
+  }"> <span id="filter-score-value">${metadata.minRelevanceScore}</span></label>
+  <button type="button" id="toggle-details">Expand/collapse all</button>
+</div>
+${clusters}<table>
+<thead>
+<tr>
+  <th data-sort="number" data-type="number">#</th>
+  <th data-sort="title">Issue</th>
+  <th data-sort="score" data-type="number" aria-sort="descending">Relevance</th>
+  <th data-sort="category">Category</th>
+  <th data-sort="priority-rank" data-type="number">Priority</th>
+  <th data-sort="sentiment">Sentiment</th>
+  <th>Tags</th>
+  <th data-sort="workarounds" data-type="number">Workarounds</th>
+</tr>
+</thead>
+<tbody id="issues-body">
+${rows}
+<tr id="no-matches" hidden><td colspan="8" class="empty">No issues match the current filters.</td></tr>
+</tbody>
+</table>
+<script>${HTML_REPORT_SCRIPT}</script>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Parse a comma-separated format list ("both" = markdown and json, "all" = every format)
+   */
+  static parseFormats(value: string): {
+    formats: ReportFormat[];
+    invalid: string[];
+  } {
+    const formats: ReportFormat[] = [];
+    const invalid: string[] = [];
+
+    for (const entry of value.split(",")) {
+      const name = entry.trim().toLowerCase();
+      if (!name) continue;
+
+      const expanded: string[] =
+        name === "all"
+          ? REPORT_FORMATS
+          : name === "both"
+          ? ["markdown", "json"]
+          : name === "md"
+          ? ["markdown"]
+          : [name];
+
+      for (const format of expanded) {
+        if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+          invalid.push(entry.trim());
+        } else if (!formats.includes(format as ReportFormat)) {
+          formats.push(format as ReportFormat);
+        }
+      }
+    }
+
+    return { formats, invalid };
+  }
+
   /**
    * Save report to file with proper naming convention and comprehensive error handling
    */
   async saveReport(
     report: string,
     metadata: ReportMetadata,
-    outputPath: string
+    outputPath: string,
+    format: ReportFormat = "markdown",
+    fileSuffix?: string
   ): Promise<string> {
-    const filename = this.generateFilename(metadata);
+    const filename = this.generateFilename(metadata, format, fileSuffix);
     const fullPath = path.join(outputPath, filename);
 
     const context: ErrorContext = {
@@ -271,7 +636,11 @@ export class ReportGenerator {
   /**
    * Generate filename based on repository and product area
    */
-  private generateFilename(metadata: ReportMetadata): string {
+  private generateFilename(
+    metadata: ReportMetadata,
+    format: ReportFormat = "markdown",
+    fileSuffix?: string
+  ): string {
     const repoName = metadata.repositoryName
       .toLowerCase()
       .replace(/[^a-z0-9]/g, "-");
@@ -283,7 +652,347 @@ export class ReportGenerator {
 
     const timestamp = metadata.scrapeDate.toISOString().split("T")[0]; // YYYY-MM-DD format
 
-    return `github-issues-${repoName}-${productArea}-${timestamp}.md`;
+    const suffix = fileSuffix ? `-${fileSuffix}` : "";
+
+    return `github-issues-${repoName}-${productArea}-${timestamp}${suffix}.${REPORT_FILE_EXTENSIONS[format]}`;
+  }
+
+  /**
+   * Render a user-supplied Handlebars template with report data and helpers
+   */
+  private renderCustomTemplate(
+    template: string,
+    issues: GitHubIssue[],
+    metadata: ReportMetadata,
+    config: Config,
+    options: Required<ReportGenerationOptions>
+  ): string {
+    const sortedIssues = options.sortByRelevance
+      ? this.sortIssuesByRelevance(issues)
+      : issues;
+
+    const categories = Array.from(
+      new Set(sortedIssues.map((issue) => issue.category))
+    ).map((name) => {
+      const categoryIssues = sortedIssues.filter(
+        (issue) => issue.category === name
+      );
+      return { name, count: categoryIssues.length, issues: categoryIssues };
+    });
+
+    const workarounds = sortedIssues.flatMap((issue) =>
+      issue.workarounds.map((workaround) => ({ ...workaround, issue }))
+    );
+
+    const averageRelevanceScore =
+      sortedIssues.length > 0
+        ? Math.round(
+            sortedIssues.reduce((sum, issue) => sum + issue.relevanceScore, 0) /
+              sortedIssues.length
+          )
+        : 0;
+
+    try {
+      return this.getTemplateEngine().compile(template, {
+        // Reports are Markdown, so {{value}} must not HTML-escape text
+        noEscape: true,
+      })({
+        metadata,
+        config: {
+          repository: config.repository,
+          productArea: config.productArea,
+          minRelevanceScore: config.minRelevanceScore,
+        },
+        issues: sortedIssues,
+        workarounds,
+        categories,
+        clusters: metadata.clusters || [],
+        stats: {
+          issueCount: sortedIssues.length,
+          workaroundCount: workarounds.length,
+          averageRelevanceScore,
+        },
+      });
+    } catch (error: any) {
+      throw ErrorHandler.handleValidationError(
+        `Failed to render report template: ${error.message}`,
+        {
+          operation: "rendering report template",
+          repository: metadata.repositoryName,
+          productArea: metadata.productArea,
+        },
+        [
+          {
+            action: "Check template helpers",
+            description:
+              "Only use the helpers and fields listed in the README template section",
+            priority: "high",
+          },
+        ]
+      );
+    }
+  }
+
+  /**
+   * Create an isolated Handlebars instance with the report helpers registered
+   */
+  private getTemplateEngine(): typeof Handlebars {
+    if (this.templateEngine) {
+      return this.templateEngine;
+    }
+
+    const engine = Handlebars.create();
+
+    engine.registerHelper("truncate", (text: string, maxLength: number) =>
+      this.truncateText(text || "", maxLength)
+    );
+    engine.registerHelper("anchor", (text: string) =>
+      this.generateAnchor(text || "")
+    );
+    engine.registerHelper("priorityEmoji", (priority: string) =>
+      this.getPriorityEmoji(priority)
+    );
+    engine.registerHelper("sentimentEmoji", (sentiment: string) =>
+      this.getSentimentEmoji(sentiment)
+    );
+    engine.registerHelper("effectivenessIcon", (effectiveness: string) =>
+      this.getEffectivenessIcon(effectiveness)
+    );
+    engine.registerHelper("authorTypeIcon", (authorType: string) =>
+      this.getAuthorTypeIcon(authorType)
+    );
+    engine.registerHelper("confidenceBar", (confidence: number) =>
+      this.getConfidenceBar(confidence)
+    );
+    engine.registerHelper(
+      "formatDate",
+      (date: Date | string) => new Date(date).toISOString().split("T")[0]
+    );
+    engine.registerHelper("join", (values: string[], separator: unknown) =>
+      (values || []).join(typeof separator === "string" ? separator : ", ")
+    );
+    engine.registerHelper("resolution", (resolution?: IssueResolution) =>
+      resolution ? this.formatResolution(resolution) : ""
+    );
+    engine.registerHelper(
+      "eq",
+      (left: unknown, right: unknown) => left === right
+    );
+
+    this.templateEngine = engine;
+    return engine;
+  }
+
+  /**
+   * Format clusters of near-duplicate issues for the HTML report
+   */
+  private formatHtmlClusters(clusters: IssueCluster[]): string {
+    const link = (member: IssueCluster["canonical"]) =>
+      `<a href="${this.escapeHtml(member.url)}">#${
+        member.number
+      }</a> ${this.escapeHtml(member.title)}`;
+
+    const items = clusters
+      .map(
+        (cluster) => `<details class="cluster">
+  <summary>${link(cluster.canonical)} &middot; ${
+          cluster.members.length
+        } duplicate${cluster.members.length === 1 ? "" : "s"}</summary>
+  <ul>${cluster.members
+    .map(
+      (member) =>
+        `<li>${link(member)} (${Math.round(
+          member.similarity * 100
+        )}% similar)</li>`
+    )
+    .join("")}</ul>${cluster.workarounds
+          .map(
+            (workaround) =>
+              `<div class="workaround workaround-${
+                workaround.effectiveness
+              }">${this.escapeHtml(
+                workaround.description
+              )} (${workaround.issueNumbers
+                .map((number) => `#${number}`)
+                .join(", ")})</div>`
+          )
+          .join("")}
+</details>`
+      )
+      .join("\n");
+
+    return `<section class="clusters">
+<h2>Duplicate clusters (${clusters.length})</h2>
+${items}
+</section>
+`;
+  }
+
+  /**
+   * Format one issue as an HTML table row with data attributes for filtering
+   */
+  private formatHtmlIssueRow(issue: GitHubIssue): string {
+    const escape = (value: string | number) => this.escapeHtml(String(value));
+    const priorityRank = { high: 3, medium: 2, low: 1 }[issue.priority] || 0;
+
+    const dataAttributes = Object.entries({
+      number: issue.number,
+      title: issue.title,
+      score: issue.relevanceScore,
+      category: issue.category,
+      priority: issue.priority,
+      "priority-rank": priorityRank,
+      sentiment: issue.sentiment,
+      tags: issue.tags.join("\n"),
+      workarounds: issue.workarounds.length,
+    })
+      .map(([name, value]) => `data-${name}="${escape(value)}"`)
+      .join(" ");
+
+    const workarounds = issue.workarounds
+      .map(
+        (workaround) =>
+          `<div class="workaround workaround-${escape(
+            workaround.effectiveness
+          )}"><strong>${escape(workaround.author)}</strong> (${escape(
+            workaround.authorType
+          )}, ${escape(workaround.effectiveness)}, ${escape(
+            workaround.confidence
+          )}% confidence)\n${escape(workaround.description)}</div>`
+      )
+      .join("");
+
+    const detailsLabel =
+      issue.workarounds.length > 0
+        ? `Summary and ${issue.workarounds.length} workaround${
+            issue.workarounds.length === 1 ? "" : "s"
+          }`
+        : "Summary";
+
+    const tags = issue.tags
+      .map((tag) => `<span class="tag">${escape(tag)}</span>`)
+      .join("");
+
+    const resolution = issue.resolution
+      ? `<div class="summary-text"><strong>Resolution:</strong> ${escape(
+          this.formatResolution(issue.resolution)
+        )}</div>`
+      : "";
+
+    return [
+      `<tr class="issue" ${dataAttributes}>`,
+      `  <td class="num"><a href="${escape(issue.url)}">#${
+        issue.number
+      }</a></td>`,
+      `  <td>${
+        issue.pullRequest ? '<span class="badge">PR</span> ' : ""
+      }<a href="${escape(issue.url)}">${escape(
+        issue.title
+      )}</a>${this.formatHtmlPullRequestLinks(issue)}`,
+      `    <details><summary>${detailsLabel}</summary><div class="summary-text">${escape(
+        issue.summary
+      )}</div>${resolution}${workarounds}</details></td>`,
+      `  <td class="num">${issue.relevanceScore}</td>`,
+      `  <td>${escape(issue.category)}</td>`,
+      `  <td><span class="badge priority-${escape(issue.priority)}">${escape(
+        issue.priority
+      )}</span></td>`,
+      `  <td>${this.getSentimentEmoji(issue.sentiment)} ${escape(
+        issue.sentiment
+      )}</td>`,
+      `  <td>${tags}</td>`,
+      `  <td class="num">${issue.workarounds.length}</td>`,
+      `</tr>`,
+    ].join("\n");
+  }
+
+  /**
+   * Format linked issues of a pull request, or pull requests fixing an issue
+   */
+  private formatHtmlPullRequestLinks(issue: GitHubIssue): string {
+    const links: string[] = [];
+
+    if (issue.pullRequest && issue.pullRequest.linkedIssues.length > 0) {
+      links.push(
+        `Fixes ${issue.pullRequest.linkedIssues
+          .map((number) => `#${number}`)
+          .join(", ")}`
+      );
+    }
+
+    for (const pullRequest of issue.linkedPullRequests || []) {
+      const label =
+        pullRequest.state === "open"
+          ? "Fix in flight"
+          : pullRequest.state === "merged"
+          ? "Fixed by"
+          : "Closed fix";
+      links.push(
+        `${label}: <a href="${this.escapeHtml(pullRequest.url)}">#${
+          pullRequest.number
+        }</a>`
+      );
+    }
+
+    return links.length > 0
+      ? `<div class="meta">${links.join(" · ")}</div>`
+      : "";
+  }
+
+  /**
+   * Escape text for HTML element content and attribute values
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+  }
+
+  /**
+   * Build RFC 4180 CSV (CRLF line endings, BOM so spreadsheets detect UTF-8)
+   */
+  private toCsv(rows: Array<Array<string | number>>): string {
+    return (
+      "\uFEFF" +
+      rows
+        .map((row) => row.map((value) => this.escapeCsvField(value)).join(","))
+        .join("\r\n") +
+      "\r\n"
+    );
+  }
+
+  /**
+   * Escape a CSV field, quoting values with commas, quotes or line breaks
+   */
+  private escapeCsvField(value: string | number): string {
+    if (typeof value === "number") {
+      return String(value);
+    }
+
+    // Keep spreadsheets from evaluating LLM or user text as formulas
+    let field = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+    if (/[",\r\n]/.test(field)) {
+      field = `"${field.replace(/"/g, '""')}"`;
+    }
+
+    return field;
+  }
+
+  /**
+   * Get the strongest effectiveness rating among an issue's workarounds
+   */
+  private getBestEffectiveness(workarounds: LLMWorkaround[]): string {
+    return (
+      EFFECTIVENESS_RANK.find((effectiveness) =>
+        workarounds.some(
+          (workaround) => workaround.effectiveness === effectiveness
+        )
+      ) || ""
+    );
   }
 
   /**
@@ -319,11 +1028,32 @@ ${
   metadata.analysisModel
     ? `- **Analysis Model**: ${metadata.analysisModel}`
     : ""
-}
+}${
+      metadata.promptVersion
+        ? `\n- **Prompt Version**: ${metadata.promptVersion}`
+        : ""
+    }${
+      metadata.prefilter
+        ? `\n- **Pre-filter**: ${this.formatPrefilter(metadata.prefilter)}`
+        : ""
+    }
 
 `;
   }
 
+  /**
+   * Format pre-filter statistics as "bm25 kept 40 of 200 issues (cut-off score 0.23)"
+   */
+  private formatPrefilter(prefilter: PrefilterStats): string {
+    return `${prefilter.method} kept ${prefilter.kept} of ${
+      prefilter.candidates
+    } issues${
+      prefilter.cutoffScore !== null
+        ? ` (cut-off score ${prefilter.cutoffScore})`
+        : ""
+    }`;
+  }
+
   /**
    * Generate LLM-enhanced metadata section
    */
@@ -350,6 +1080,10 @@ ${
                 2
               )} seconds`
             : "N/A"
+        }${
+          metadata.processingStats.responseRepairs?.length
+            ? `\n- **Repaired LLM Response Fields**: ${metadata.processingStats.responseRepairs.length}`
+            : ""
         }
 `
       : "";
@@ -366,7 +1100,11 @@ ${
 - **Analysis Model**: ${
       metadata.analysisModel || llmAnalysis.summary.analysisModel || "Unknown"
     }
-${topCategories}
+${
+  metadata.promptVersion
+    ? `- **Prompt Version**: ${metadata.promptVersion}\n`
+    : ""
+}${topCategories}
 ${processingStats}
 `;
   }
@@ -454,6 +1192,53 @@ ${processingStats}
     return toc;
   }
 
+  /**
+   * Generate the section listing clusters of near-duplicate issues
+   */
+  private generateClustersSection(clusters: IssueCluster[]): string {
+    const issueCount = clusters.reduce(
+      (total, cluster) => total + cluster.members.length + 1,
+      0
+    );
+    let section = `## Duplicate Clusters
+
+${clusters.length} cluster${
+      clusters.length === 1 ? " groups" : "s group"
+    } ${issueCount} issues that describe the same problem.
+
+`;
+
+    clusters.forEach((cluster, index) => {
+      const { canonical } = cluster;
+      section += `### ${index + 1}. #${canonical.number}: ${canonical.title}
+
+- **Canonical Issue**: [#${canonical.number}](${canonical.url}) (${
+        canonical.relevanceScore
+      }% relevance)
+- **Duplicates**:
+`;
+      cluster.members.forEach((member) => {
+        section += `  - [#${member.number}](${member.url}) ${
+          member.title
+        } (${Math.round(member.similarity * 100)}% similar)\n`;
+      });
+
+      if (cluster.workarounds.length > 0) {
+        section += `\n#### Merged Workarounds\n\n`;
+        cluster.workarounds.forEach((workaround, idx) => {
+          section += `${idx + 1}. ${this.getEffectivenessIcon(
+            workaround.effectiveness
+          )} ${workaround.description} (${workaround.issueNumbers
+            .map((number) => `#${number}`)
+            .join(", ")})\n`;
+        });
+      }
+      section += "\n";
+    });
+
+    return section;
+  }
+
   /**
    * Generate issues section
    */
@@ -535,7 +1320,9 @@ ${processingStats}
    * Format individual issue
    */
   private formatIssue(issue: GitHubIssue, index: number): string {
-    let formatted = `### ${index}. Issue #${issue.id}: ${issue.title}
+    let formatted = `### ${index}. ${
+      issue.pullRequest ? "Pull Request" : "Issue"
+    } #${issue.id}: ${issue.title}
 
 `;
 
@@ -548,7 +1335,20 @@ ${processingStats}
     }\n`;
     formatted += `**Last Updated**: ${issue.updatedAt.toLocaleDateString()}\n`;
     formatted += `**Relevance Score**: ${issue.relevanceScore}/100\n`;
+    if (issue.reactions?.totalCount) {
+      formatted += `**Reactions**: 👍 ${issue.reactions.thumbsUp} (${issue.reactions.totalCount} total)\n`;
+    }
     formatted += `**URL**: [View on GitHub](${issue.url})\n`;
+    formatted += this.formatPullRequestLinks(issue);
+
+    if (issue.closedAt) {
+      formatted += `**Closed**: ${issue.closedAt.toLocaleDateString()}\n`;
+    }
+    if (issue.resolution) {
+      formatted += `**Resolution**: ${this.formatResolution(
+        issue.resolution
+      )}\n`;
+    }
 
     // Labels
     if (issue.labels.length > 0) {
@@ -592,6 +1392,63 @@ ${processingStats}
     return formatted;
   }
 
+  /**
+   * Format a resolution as "Fixed in 1.8.2: description"
+   */
+  private formatResolution(resolution: IssueResolution): string {
+    let label = RESOLUTION_LABELS[resolution.type] || "Closed";
+
+    if (resolution.version) {
+      label += ` in ${resolution.version}`;
+    }
+    if (resolution.duplicateOf) {
+      label += ` of #${resolution.duplicateOf}`;
+    }
+
+    return resolution.description
+      ? `${label}: ${resolution.description}`
+      : label;
+  }
+
+  /**
+   * Format the "Fixes" line of a pull request or the "Fix in flight" line of
+   * an issue with linked pull requests
+   */
+  private formatPullRequestLinks(issue: GitHubIssue): string {
+    let formatted = "";
+
+    if (issue.pullRequest) {
+      if (issue.pullRequest.mergedAt) {
+        formatted += `**Merged**: ${issue.pullRequest.mergedAt.toLocaleDateString()}\n`;
+      }
+      if (issue.pullRequest.linkedIssues.length > 0) {
+        formatted += `**Fixes**: ${issue.pullRequest.linkedIssues
+          .map((number) => `#${number}`)
+          .join(", ")}\n`;
+      }
+    }
+
+    const inFlight = (issue.linkedPullRequests || []).filter(
+      (pullRequest) => pullRequest.state === "open"
+    );
+    const merged = (issue.linkedPullRequests || []).filter(
+      (pullRequest) => pullRequest.state === "merged"
+    );
+
+    if (inFlight.length > 0) {
+      formatted += `**Fix in flight**: ${inFlight
+        .map((pullRequest) => `[#${pullRequest.number}](${pullRequest.url})`)
+        .join(", ")}\n`;
+    }
+    if (merged.length > 0) {
+      formatted += `**Fixed by**: ${merged
+        .map((pullRequest) => `[#${pullRequest.number}](${pullRequest.url})`)
+        .join(", ")} (merged)\n`;
+    }
+
+    return formatted;
+  }
+
   /**
    * Format individual LLM-analyzed issue
    */
@@ -774,15 +1631,12 @@ ${processingStats}
     issues: GitHubIssue[],
     totalAnalyzed: number,
     llmAnalysis?: LLMAnalysisResponse,
-    processingStats?: {
-      batchCount?: number;
-      totalTokensUsed?: number;
-      analysisTime?: number;
-    }
+    processingStats?: ProcessingStats,
+    promptVersion?: string
   ): ReportMetadata {
     const repoUrl = config.repository.startsWith("http")
       ? config.repository
-      : `https://github.com/${config.repository}`;
+      : `${GitHubClient.resolveUrls(config).webUrl}/${config.repository}`;
 
     const repoName = config.repository.includes("/")
       ? config.repository.split("/").pop() || config.repository
@@ -798,6 +1652,7 @@ ${processingStats}
       minRelevanceScore: config.minRelevanceScore,
       generatedBy: "GitHub Issue Scraper v1.0.0",
       analysisModel: llmAnalysis?.summary.analysisModel || config.janModel,
+      promptVersion,
       processingStats: processingStats,
     };
   }
@@ -0,0 +1,187 @@
+import { AxiosResponse } from "axios";
+
+// Requests kept in reserve when the primary rate limit runs low
+const RATE_LIMIT_RESERVE = 1;
+
+// Longest wait for the primary rate limit to reset
+const MAX_RESET_WAIT = 3600000;
+
+// GitHub asks to wait at least a minute after a secondary rate limit without
+// a Retry-After header
+const SECONDARY_RATE_LIMIT_WAIT = 60000;
+
+// Retries of a request rejected by a secondary rate limit
+const MAX_SECONDARY_RATE_LIMIT_RETRIES = 3;
+
+/**
+ * Request Scheduler
+ *
+ * Runs GitHub API requests with bounded concurrency, shared by every request
+ * of a client. Tracks the primary rate limit from `x-ratelimit-*` headers,
+ * counting requests still in flight, and holds requests back until the limit
+ * resets instead of running into it. Secondary rate limits and `Retry-After`
+ * headers pause all requests, after which the rejected request is retried.
+ */
+export class RequestScheduler {
+  readonly concurrency: number;
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private remaining?: number; // Minus requests in flight
+  private resetAt?: number; // Epoch milliseconds
+  private pausedUntil = 0;
+
+  constructor(concurrency: number = 1) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+  }
+
+  /**
+   * Run a request once a slot is free and the rate limits allow it
+   *
+   * @param request Sends the request
+   * @returns The response
+   * @throws The request's error, once retries for secondary rate limits are
+   *   exhausted
+   */
+  async schedule<T>(
+    request: () => Promise<AxiosResponse<T>>
+  ): Promise<AxiosResponse<T>> {
+    await this.acquireSlot();
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await this.reserveRequest();
+
+        try {
+          const response = await request();
+          this.updateRateLimit(response?.headers);
+          return response;
+        } catch (error: any) {
+          this.updateRateLimit(error?.response?.headers);
+
+          const wait = this.secondaryRateLimitWait(error);
+          if (
+            wait === undefined ||
+            attempt >= MAX_SECONDARY_RATE_LIMIT_RETRIES
+          ) {
+            throw error;
+          }
+
+          console.warn(
+            `GitHub secondary rate limit hit, pausing requests for ${Math.ceil(
+              wait / 1000
+            )} seconds...`
+          );
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + wait);
+        }
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return;
+    }
+
+    // The releasing request hands its slot over
+    await new Promise<void>((resolve) => this.queue.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Wait out a secondary rate limit pause and, when the primary rate limit
+   * has no requests left, its reset, then count the request against the limit
+   */
+  private async reserveRequest(): Promise<void> {
+    const pause = this.pausedUntil - Date.now();
+    if (pause > 0) {
+      await this.sleep(pause);
+    }
+
+    if (
+      this.remaining === undefined ||
+      this.resetAt === undefined ||
+      this.remaining > RATE_LIMIT_RESERVE
+    ) {
+      // Counted before yielding, so concurrent requests see each other
+      if (this.remaining !== undefined) {
+        this.remaining--;
+      }
+      return;
+    }
+
+    const wait = this.resetAt - Date.now();
+    if (wait > 0 && wait < MAX_RESET_WAIT) {
+      console.log(
+        `GitHub rate limit nearly used up. Waiting ${Math.ceil(
+          wait / 1000
+        )} seconds until reset...`
+      );
+      await this.sleep(wait);
+    }
+
+    // The next response reports the new limit
+    this.remaining = undefined;
+    this.resetAt = undefined;
+  }
+
+  /**
+   * Track the primary rate limit from response headers
+   */
+  private updateRateLimit(headers?: Record<string, any>): void {
+    const remaining = parseInt(headers?.["x-ratelimit-remaining"], 10);
+    const reset = parseInt(headers?.["x-ratelimit-reset"], 10);
+    if (isNaN(remaining) || isNaN(reset)) {
+      return;
+    }
+
+    const resetAt = reset * 1000;
+    // Responses of the same window can arrive out of order; the lowest
+    // count is the latest
+    this.remaining =
+      resetAt === this.resetAt && this.remaining !== undefined
+        ? Math.min(this.remaining, remaining)
+        : remaining;
+    this.resetAt = resetAt;
+  }
+
+  /**
+   * How long to pause after a secondary rate limit, or undefined for other
+   * errors (including the primary rate limit, which reserveRequest covers)
+   */
+  private secondaryRateLimitWait(error: any): number | undefined {
+    const response = error?.response;
+    if (!response || (response.status !== 403 && response.status !== 429)) {
+      return undefined;
+    }
+
+    const retryAfter = parseInt(response.headers?.["retry-after"], 10);
+    if (!isNaN(retryAfter)) {
+      return retryAfter * 1000;
+    }
+
+    const message = String(response.data?.message || "").toLowerCase();
+    if (
+      message.includes("secondary rate limit") ||
+      message.includes("abuse detection")
+    ) {
+      return SECONDARY_RATE_LIMIT_WAIT;
+    }
+
+    return undefined;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
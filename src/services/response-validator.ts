@@ -0,0 +1,484 @@
+import { LLMAnalysisResponse, RawGitHubIssue, ResponseRepair } from "../models";
+import { Taxonomy } from "./taxonomy";
+
+// The subset of JSON Schema used by the response schema
+interface SchemaNode {
+  type?: "object" | "array" | "string" | "number";
+  required?: string[];
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+}
+
+interface RepairContext {
+  issues: RawGitHubIssue[];
+  model: string;
+  repairs: ResponseRepair[];
+  root: any; // The response being repaired
+}
+
+// Marks a value that can't be repaired
+const INVALID = Symbol("invalid");
+type Checked = unknown | typeof INVALID;
+
+// Values LLMs commonly use instead of the schema's enums, after normalizing
+// to lower case with underscores
+const ENUM_SYNONYMS: Record<string, string[]> = {
+  high: ["critical", "urgent", "blocker", "highest", "severe", "p0", "p1"],
+  medium: ["normal", "moderate", "med", "mid", "p2"],
+  low: ["minor", "trivial", "lowest", "p3", "p4"],
+  maintainer: ["owner", "member", "collaborator", "core", "core_team"],
+  contributor: ["first_time_contributor", "first_timer"],
+  user: ["reporter", "author", "community", "none", "customer"],
+  confirmed: ["verified", "works", "working", "tested", "effective"],
+  suggested: ["proposed", "possible", "untested", "unverified", "potential"],
+  partial: ["partially", "limited", "incomplete", "partially_effective"],
+  positive: ["happy", "satisfied", "grateful"],
+  neutral: ["mixed", "informational", "unknown"],
+  negative: ["frustrated", "angry", "annoyed", "critical"],
+  fixed: ["completed", "resolved", "implemented", "merged"],
+  duplicate: ["dup", "duplicated"],
+  wont_fix: ["wontfix", "not_planned", "will_not_fix", "declined", "rejected"],
+  not_reproducible: [
+    "cannot_reproduce",
+    "cant_reproduce",
+    "unable_to_reproduce",
+    "works_for_me",
+  ],
+  by_design: ["intended", "working_as_intended", "expected_behavior"],
+  stale: ["inactive", "abandoned", "outdated"],
+};
+
+// Values for required fields an LLM left out, by path without indexes;
+// fields without a default make their issue or workaround invalid
+const FIELD_DEFAULTS: Record<
+  string,
+  (parent: any, context: RepairContext) => unknown
+> = {
+  "relevantIssues[].title": (issue, context) =>
+    findIssue(context.issues, issue.id)?.title,
+  "relevantIssues[].category": () => "uncategorized",
+  "relevantIssues[].priority": () => "medium",
+  "relevantIssues[].summary": () => "",
+  "relevantIssues[].workarounds": () => [],
+  "relevantIssues[].tags": () => [],
+  "relevantIssues[].sentiment": () => "neutral",
+  "relevantIssues[].workarounds[].author": () => "unknown",
+  "relevantIssues[].workarounds[].authorType": () => "user",
+  "relevantIssues[].workarounds[].effectiveness": () => "suggested",
+  "relevantIssues[].workarounds[].confidence": () => 50,
+  summary: () => ({}),
+  "summary.totalAnalyzed": (_summary, context) => context.issues.length,
+  "summary.relevantFound": (_summary, context) =>
+    Array.isArray(context.root.relevantIssues)
+      ? context.root.relevantIssues.length
+      : 0,
+  "summary.topCategories": (_summary, context) =>
+    Array.isArray(context.root.relevantIssues)
+      ? Array.from(
+          new Set(
+            context.root.relevantIssues.map((issue: any) => issue.category)
+          )
+        )
+      : [],
+  "summary.analysisModel": (_summary, context) => context.model,
+};
+
+// Fields restricted to the taxonomy, by path without indexes
+const TAXONOMY_FIELDS: Record<string, "category" | "tag"> = {
+  "relevantIssues[].category": "category",
+  "relevantIssues[].tags[]": "tag",
+  "summary.topCategories[]": "category",
+};
+
+function findIssue(
+  issues: RawGitHubIssue[],
+  id: unknown
+): RawGitHubIssue | undefined {
+  // LLMs sometimes answer with the issue number instead of the ID
+  return (
+    issues.find((issue) => issue.id === id) ||
+    issues.find((issue) => issue.number === id)
+  );
+}
+
+function normalizeEnum(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[\s-]+/g, "_");
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+}
+
+/**
+ * Response Validator
+ *
+ * Validates parsed LLM responses against the response schema from
+ * `PromptManager.createResponseSchema` and repairs what it can field by field:
+ * numbers are converted and clamped to their range, enum synonyms are mapped
+ * to schema values, missing optional details get defaults, and issues that
+ * aren't in the analyzed batch are dropped. With a taxonomy, categories and
+ * tags outside it are mapped to the closest ones. Every repair is recorded.
+ */
+export class ResponseValidator {
+  private schema: SchemaNode;
+  private taxonomy?: Taxonomy;
+
+  constructor(schema: string, taxonomy?: Taxonomy) {
+    this.schema = JSON.parse(schema);
+    this.taxonomy = taxonomy;
+  }
+
+  /**
+   * Validate and repair a parsed response
+   *
+   * @param parsed Response as parsed from the LLM's JSON
+   * @param issues Issues of the batch the response is for; issue IDs aren't
+   *   checked if empty
+   * @param model Model that produced the response
+   * @returns The repaired response, or null if it can't be repaired, and the
+   *   repairs made
+   */
+  validate(
+    parsed: unknown,
+    issues: RawGitHubIssue[],
+    model: string
+  ): { response: LLMAnalysisResponse | null; repairs: ResponseRepair[] } {
+    const relevantIssues = (parsed as any)?.relevantIssues;
+    if (!Array.isArray(relevantIssues)) {
+      return { response: null, repairs: [] };
+    }
+
+    const context: RepairContext = { issues, model, repairs: [], root: {} };
+    // Issue IDs come first so that defaults can look up the batch's issues
+    const root = {
+      ...(parsed as object),
+      relevantIssues:
+        issues.length > 0
+          ? this.repairIssueIds(relevantIssues, context)
+          : relevantIssues,
+    };
+
+    const response = this.check(root, this.schema, "", context);
+    if (response === INVALID) {
+      return { response: null, repairs: context.repairs };
+    }
+
+    return {
+      response: response as LLMAnalysisResponse,
+      repairs: context.repairs,
+    };
+  }
+
+  /**
+   * Map issue numbers to IDs and drop issues that aren't in the batch or
+   * appear twice
+   */
+  private repairIssueIds(relevantIssues: any[], context: RepairContext): any[] {
+    const seen = new Set<number>();
+    const repaired: any[] = [];
+
+    relevantIssues.forEach((issue, index) => {
+      const path = `relevantIssues[${index}].id`;
+      const id = typeof issue?.id === "string" ? Number(issue.id) : issue?.id;
+      const batchIssue = findIssue(context.issues, id);
+
+      if (!batchIssue) {
+        this.record(
+          context,
+          path,
+          `dropped issue ${formatValue(issue?.id)} not in the batch`
+        );
+        return;
+      }
+      if (seen.has(batchIssue.id)) {
+        this.record(
+          context,
+          path,
+          `dropped duplicate of issue ${batchIssue.id}`,
+          batchIssue.id
+        );
+        return;
+      }
+      seen.add(batchIssue.id);
+
+      if (issue.id !== batchIssue.id) {
+        this.record(
+          context,
+          path,
+          `mapped ${formatValue(issue.id)} to issue ID ${batchIssue.id}`,
+          batchIssue.id
+        );
+      }
+      repaired.push({ ...issue, id: batchIssue.id });
+    });
+
+    return repaired;
+  }
+
+  private check(
+    value: unknown,
+    schema: SchemaNode,
+    path: string,
+    context: RepairContext,
+    issueId?: number
+  ): Checked {
+    switch (schema.type) {
+      case "number":
+        return this.checkNumber(value, schema, path, context, issueId);
+      case "string":
+        return this.checkString(value, schema, path, context, issueId);
+      case "array":
+        return this.checkArray(value, schema, path, context, issueId);
+      case "object":
+        return this.checkObject(value, schema, path, context, issueId);
+      default:
+        return value;
+    }
+  }
+
+  private checkNumber(
+    value: unknown,
+    schema: SchemaNode,
+    path: string,
+    context: RepairContext,
+    issueId?: number
+  ): Checked {
+    let number = value;
+    if (typeof value === "string" && value.trim() !== "") {
+      number = Number(value.trim().replace(/%$/, ""));
+      if (Number.isFinite(number)) {
+        this.record(
+          context,
+          path,
+          `converted ${formatValue(value)} to a number`,
+          issueId
+        );
+      }
+    }
+    if (typeof number !== "number" || !Number.isFinite(number)) {
+      return INVALID;
+    }
+
+    const clamped = Math.min(
+      schema.maximum ?? Infinity,
+      Math.max(schema.minimum ?? -Infinity, number)
+    );
+    if (clamped !== number) {
+      this.record(context, path, `clamped ${number} to ${clamped}`, issueId);
+    }
+    return clamped;
+  }
+
+  private checkString(
+    value: unknown,
+    schema: SchemaNode,
+    path: string,
+    context: RepairContext,
+    issueId?: number
+  ): Checked {
+    let string = value;
+    if (typeof value === "number" || typeof value === "boolean") {
+      string = String(value);
+      this.record(context, path, `converted ${value} to a string`, issueId);
+    }
+    if (typeof string !== "string") {
+      return INVALID;
+    }
+    if (!schema.enum || schema.enum.includes(string)) {
+      return string;
+    }
+
+    const normalized = normalizeEnum(string);
+    const mapped =
+      schema.enum.find(
+        (option) =>
+          option === normalized || ENUM_SYNONYMS[option]?.includes(normalized)
+      ) || this.mapToTaxonomy(path, string);
+    if (!mapped) {
+      return INVALID;
+    }
+
+    this.record(
+      context,
+      path,
+      `mapped ${formatValue(string)} to "${mapped}"`,
+      issueId
+    );
+    return mapped;
+  }
+
+  private checkArray(
+    value: unknown,
+    schema: SchemaNode,
+    path: string,
+    context: RepairContext,
+    issueId?: number
+  ): Checked {
+    if (!Array.isArray(value)) {
+      return INVALID;
+    }
+    if (!schema.items) {
+      return value;
+    }
+
+    const items: unknown[] = [];
+    value.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`;
+      // Items of relevantIssues are the issues repairs are recorded for
+      const itemIssueId =
+        path === "relevantIssues" && typeof item?.id === "number"
+          ? item.id
+          : issueId;
+      const checked = this.check(
+        item,
+        schema.items!,
+        itemPath,
+        context,
+        itemIssueId
+      );
+
+      if (checked === INVALID) {
+        this.record(context, itemPath, "dropped invalid item", itemIssueId);
+      } else if (schema.items!.enum && items.includes(checked)) {
+        // Mapping can turn different values into the same one
+        this.record(
+          context,
+          itemPath,
+          `dropped duplicate ${formatValue(checked)}`,
+          itemIssueId
+        );
+      } else {
+        items.push(checked);
+      }
+    });
+    return items;
+  }
+
+  private checkObject(
+    value: unknown,
+    schema: SchemaNode,
+    path: string,
+    context: RepairContext,
+    issueId?: number
+  ): Checked {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return INVALID;
+    }
+
+    const object: Record<string, unknown> = { ...(value as object) };
+    if (!path) {
+      // Defaults of later fields see the fields repaired before them
+      context.root = object;
+    }
+    for (const [key, propertySchema] of Object.entries(
+      schema.properties || {}
+    )) {
+      const propertyPath = path ? `${path}.${key}` : key;
+      const required = schema.required?.includes(key) ?? false;
+
+      if (object[key] === undefined || object[key] === null) {
+        if (!required) {
+          delete object[key];
+          continue;
+        }
+
+        const fallback = this.defaultValue(propertyPath, object, context);
+        if (fallback === undefined) {
+          return INVALID;
+        }
+        this.record(
+          context,
+          propertyPath,
+          `filled in missing field with ${formatValue(fallback)}`,
+          issueId
+        );
+        object[key] = fallback;
+      }
+
+      const checked = this.check(
+        object[key],
+        propertySchema,
+        propertyPath,
+        context,
+        issueId
+      );
+      if (checked !== INVALID) {
+        object[key] = checked;
+        continue;
+      }
+
+      if (!required) {
+        this.record(
+          context,
+          propertyPath,
+          `removed invalid ${formatValue(object[key])}`,
+          issueId
+        );
+        delete object[key];
+        continue;
+      }
+
+      const fallback = this.defaultValue(propertyPath, object, context);
+      if (fallback === undefined) {
+        return INVALID;
+      }
+      this.record(
+        context,
+        propertyPath,
+        `replaced invalid ${formatValue(object[key])} with ${formatValue(
+          fallback
+        )}`,
+        issueId
+      );
+      object[key] = this.check(
+        fallback,
+        propertySchema,
+        propertyPath,
+        context,
+        issueId
+      );
+    }
+
+    return object;
+  }
+
+  /**
+   * Map a value of a taxonomy field to the closest category or tag
+   */
+  private mapToTaxonomy(path: string, value: string): string | undefined {
+    const field = TAXONOMY_FIELDS[path.replace(/\[\d+\]/g, "[]")];
+    if (!this.taxonomy || !field) {
+      return undefined;
+    }
+
+    return field === "category"
+      ? this.taxonomy.mapCategory(value)
+      : this.taxonomy.mapTag(value);
+  }
+
+  private defaultValue(
+    path: string,
+    parent: any,
+    context: RepairContext
+  ): unknown {
+    return FIELD_DEFAULTS[path.replace(/\[\d+\]/g, "[]")]?.(parent, context);
+  }
+
+  private record(
+    context: RepairContext,
+    path: string,
+    action: string,
+    issueId?: number
+  ): void {
+    context.repairs.push(
+      issueId === undefined ? { path, action } : { path, issueId, action }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as os from "os";
+import * as crypto from "crypto";
+import {
+  RawGitHubIssue,
+  RawComment,
+  LLMAnalysisResponse,
+  ProcessingStats,
+} from "../models";
+import { ErrorHandler, ErrorContext } from "./error-handler";
+
+export interface CompletedBatch {
+  issueIds: number[];
+  result: LLMAnalysisResponse;
+  completedAt: string;
+}
+
+export interface RunState {
+  runId: string;
+  repository: string;
+  productArea: string;
+  status: "in_progress" | "completed";
+  createdAt: string;
+  updatedAt: string;
+  issues?: RawGitHubIssue[];
+  comments: Record<number, RawComment[]>;
+  completedBatches: CompletedBatch[];
+  processingStats?: ProcessingStats;
+  reportPath?: string;
+}
+
+/**
+ * Run State Manager
+ *
+ * Persists the progress of a scrape run (fetched issues, fetched comments and
+ * completed LLM batches) so an interrupted run can be resumed with --resume.
+ */
+export class RunStateManager {
+  private runsDir: string;
+
+  constructor(runsDir?: string) {
+    // Store run state next to the user's configuration by default
+    this.runsDir =
+      runsDir || path.join(os.homedir(), ".github-issue-scraper", "runs");
+  }
+
+  /**
+   * Create a fresh run state for a repository and product area
+   */
+  createRun(repository: string, productArea: string): RunState {
+    const now = new Date();
+    const timestamp = now
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace("T", "-")
+      .substring(0, 15); // YYYYMMDD-HHMMSS
+
+    return {
+      runId: `${timestamp}-${crypto.randomBytes(3).toString("hex")}`,
+      repository,
+      productArea,
+      status: "in_progress",
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      comments: {},
+      completedBatches: [],
+    };
+  }
+
+  /**
+   * Load a previously saved run state
+   */
+  async loadRun(runId: string): Promise<RunState> {
+    const filePath = this.getRunPath(runId);
+    const context: ErrorContext = {
+      operation: "loading run state",
+      filePath,
+      additionalInfo: { runId },
+    };
+
+    if (!(await fs.pathExists(filePath))) {
+      throw ErrorHandler.handleValidationError(
+        `No saved run found with ID '${runId}'`,
+        context,
+        [
+          {
+            action: "Check the run ID",
+            description:
+              "Use the run ID printed when the interrupted run started",
+            priority: "high",
+          },
+          {
+            action: "Start a new run",
+            description: "Omit --resume to start scraping from scratch",
+            priority: "medium",
+          },
+        ]
+      );
+    }
+
+    try {
+      return (await fs.readJson(filePath)) as RunState;
+    } catch (error: any) {
+      throw ErrorHandler.convertToScraperError(error, context);
+    }
+  }
+
+  /**
+   * Persist run state atomically (write to temp file, then move)
+   */
+  async saveRun(state: RunState): Promise<void> {
+    const filePath = this.getRunPath(state.runId);
+    const context: ErrorContext = {
+      operation: "saving run state",
+      filePath,
+      additionalInfo: { runId: state.runId },
+    };
+
+    try {
+      state.updatedAt = new Date().toISOString();
+      await fs.ensureDir(this.runsDir);
+
+      const tempPath = filePath + ".tmp";
+      await fs.writeJson(tempPath, state);
+      await fs.move(tempPath, filePath, { overwrite: true });
+    } catch (error: any) {
+      throw ErrorHandler.convertToScraperError(error, context);
+    }
+  }
+
+  /**
+   * Get IDs of issues already covered by completed batches
+   */
+  getAnalyzedIssueIds(state: RunState): Set<number> {
+    const ids = new Set<number>();
+    for (const batch of state.completedBatches) {
+      batch.issueIds.forEach((id) => ids.add(id));
+    }
+    return ids;
+  }
+
+  /**
+   * Get the path of the state file for a run
+   */
+  getRunPath(runId: string): string {
+    // Run IDs are generated by createRun, but guard against path traversal
+    const safeId = runId.replace(/[^a-zA-Z0-9_-]/g, "");
+    return path.join(this.runsDir, `${safeId}.json`);
+  }
+}
@@ -1,13 +1,31 @@
-import { GitHubClient } from "./github-client";
-import { ReportGenerator } from "./report-generator";
+import { GitHubClient, IssueFilters } from "./github-client";
+import { ReportGenerator, ReportMetadata } from "./report-generator";
 import { JANClient } from "./jan-client";
 import { PromptManager } from "./prompt-manager";
+import { Taxonomy } from "./taxonomy";
+import { RunStateManager, RunState } from "./run-state";
+import { IssueStore, IssueStoreData } from "./issue-store";
+import { AnalysisCache } from "./analysis-cache";
+import { ThreadCondenser } from "./thread-condenser";
+import { IssueClusterer, LLMEmbedder, TfIdfEmbedder } from "./issue-clusterer";
+import { IssuePrefilter, PrefilterResult } from "./issue-prefilter";
+import { TrafficRecorder } from "./traffic-recorder";
+import { HttpCache } from "./http-cache";
+import { MAX_BATCH_SIZE } from "./token-budget";
 import {
   GitHubIssue,
+  Comment,
   Config,
   RawGitHubIssue,
   RawComment,
   LLMAnalysisResponse,
+  AnalyzedIssue,
+  LinkedPullRequest,
+  ProcessingStats,
+  RawReactions,
+  Reactions,
+  ReportFormat,
+  IssueCluster,
 } from "../models";
 import {
   ErrorHandler,
@@ -16,16 +34,38 @@ import {
   ErrorType,
 } from "./error-handler";
 
+// Issues per GraphQL page; each page also carries up to 100 comments per issue
+const GRAPHQL_PAGE_SIZE = 50;
+
 export interface ScrapingProgress {
-  phase: "fetching" | "analyzing" | "generating" | "complete";
+  phase:
+    | "fetching"
+    | "prefiltering"
+    | "analyzing"
+    | "clustering"
+    | "generating"
+    | "complete";
   current: number;
   total: number;
   message: string;
 }
 
+export interface ScrapeRunOptions {
+  resumeRunId?: string;
+  incremental?: boolean;
+  templatePath?: string; // Handlebars template for the Markdown report
+  promptDir?: string; // Prompt templates overriding the built-in ones
+  taxonomyPath?: string; // Allowed categories and tags, see Taxonomy
+  analysisCache?: boolean; // false to always re-analyze issues with the LLM
+  condenseThreads?: boolean; // false to analyze long comment threads verbatim
+  clusterDuplicates?: boolean; // false to list near-duplicate issues separately
+}
+
 export interface ScrapingResult {
+  runId: string;
   issues: GitHubIssue[];
-  reportPath: string;
+  reportPath: string; // Path of the first requested format
+  reportPaths: string[];
   metadata: {
     totalIssuesAnalyzed: number;
     relevantIssuesFound: number;
@@ -39,15 +79,38 @@ export class GitHubIssueScraper {
   private reportGenerator: ReportGenerator;
   private janClient: JANClient;
   private promptManager: PromptManager;
+  private runStateManager: RunStateManager;
+  private issueStore: IssueStore;
+  private analysisCache: AnalysisCache;
+  private threadCondenser: ThreadCondenser;
 
   constructor(
     githubToken: string,
-    janOptions?: { endpoint?: string; model?: string }
+    janOptions?: { endpoint?: string; model?: string },
+    githubOptions?: {
+      apiUrl?: string;
+      httpCache?: boolean;
+      concurrency?: number;
+    },
+    trafficRecorder?: TrafficRecorder
   ) {
-    this.githubClient = new GitHubClient(githubToken);
+    this.githubClient = new GitHubClient(
+      githubToken,
+      githubOptions?.apiUrl,
+      githubOptions?.httpCache ? new HttpCache() : undefined,
+      trafficRecorder,
+      githubOptions?.concurrency
+    );
     this.reportGenerator = new ReportGenerator();
-    this.janClient = new JANClient(janOptions);
+    this.janClient = new JANClient(janOptions, trafficRecorder);
     this.promptManager = new PromptManager();
+    this.runStateManager = new RunStateManager();
+    this.issueStore = new IssueStore();
+    this.analysisCache = new AnalysisCache();
+    this.threadCondenser = new ThreadCondenser(
+      this.janClient,
+      this.promptManager
+    );
   }
 
   /**
@@ -56,7 +119,8 @@ export class GitHubIssueScraper {
    */
   async scrapeRepository(
     config: Config,
-    onProgress?: (progress: ScrapingProgress) => void
+    onProgress?: (progress: ScrapingProgress) => void,
+    runOptions: ScrapeRunOptions = {}
   ): Promise<ScrapingResult> {
     const context: ErrorContext = {
       operation: "scraping repository",
@@ -64,12 +128,78 @@ export class GitHubIssueScraper {
       productArea: config.productArea,
     };
 
+    // Load or create the run state outside the retry loop so that retries
+    // continue from the last checkpoint instead of starting over
+    const runState = runOptions.resumeRunId
+      ? await this.loadRunForResume(runOptions.resumeRunId, config)
+      : this.runStateManager.createRun(config.repository, config.productArea);
+
+    console.log(
+      runOptions.resumeRunId
+        ? `Resuming run ${runState.runId}`
+        : `Run ID: ${runState.runId} (use --resume ${runState.runId} to continue if interrupted)`
+    );
+
+    try {
+      return await this.executeRun(
+        config,
+        runState,
+        runOptions,
+        context,
+        onProgress
+      );
+    } catch (error) {
+      // Make sure the latest progress is on disk before giving up
+      await this.saveRunState(runState);
+      console.error(
+        `Run ${runState.runId} was interrupted. Resume it with --resume ${runState.runId}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Execute all scraping phases for a run, skipping work recorded in the run state
+   */
+  private async executeRun(
+    config: Config,
+    runState: RunState,
+    runOptions: ScrapeRunOptions,
+    context: ErrorContext,
+    onProgress?: (progress: ScrapingProgress) => void
+  ): Promise<ScrapingResult> {
     return ErrorHandler.executeWithRetry(async () => {
+      // Load the report template first so a broken template fails fast
+      const customTemplate = runOptions.templatePath
+        ? await this.reportGenerator.loadTemplate(runOptions.templatePath)
+        : undefined;
+      if (runOptions.promptDir) {
+        await this.promptManager.loadTemplates(runOptions.promptDir);
+        console.log(
+          `Using prompt templates from ${
+            runOptions.promptDir
+          } (version ${this.promptManager.getTemplateVersion()})`
+        );
+      }
+      this.promptManager.setTaxonomy(
+        runOptions.taxonomyPath
+          ? await Taxonomy.load(runOptions.taxonomyPath)
+          : undefined
+      );
+
+      // Incremental runs reuse issues, comments and analyses from earlier runs
+      const storeData = runOptions.incremental
+        ? await this.issueStore.load(config.repository, config.productArea)
+        : undefined;
+
       // Configure JAN client with settings from config
       if (config.janEndpoint) {
         this.janClient.updateOptions({
+          provider: config.llmProvider,
           endpoint: config.janEndpoint,
           model: config.janModel || "llama2",
+          contextWindow: config.contextWindows?.[config.janModel || "llama2"],
+          concurrency: config.llmConcurrency,
         });
       }
 
@@ -90,22 +220,64 @@ export class GitHubIssueScraper {
         message: `Fetching all issues from ${config.repository}...`,
       });
 
-      const rawIssues = await this.fetchAllIssues(config, onProgress);
+      let rawIssues: RawGitHubIssue[];
+      if (runState.issues) {
+        rawIssues = runState.issues;
+        onProgress?.({
+          phase: "fetching",
+          current: rawIssues.length,
+          total: rawIssues.length,
+          message: `Using ${rawIssues.length} issues fetched earlier in run ${runState.runId}`,
+        });
+      } else {
+        rawIssues = storeData
+          ? await this.fetchIncrementalIssues(
+              config,
+              storeData,
+              runState,
+              onProgress
+            )
+          : await this.fetchAllIssues(config, runState, onProgress);
+        runState.issues = rawIssues;
+        await this.saveRunState(runState);
+      }
+
+      // Only the issues ranked closest to the product area are analyzed
+      const prefilter = config.prefilter
+        ? await this.prefilterIssues(rawIssues, config, onProgress)
+        : undefined;
+      const candidateIssues = prefilter?.issues || rawIssues;
 
       // Phase 2: LLM Analysis with JAN
       onProgress?.({
         phase: "analyzing",
         current: 0,
-        total: rawIssues.length,
+        total: candidateIssues.length,
         message: "Starting LLM analysis with JAN...",
       });
 
       const analyzedIssues = await this.prepareLLMAnalysis(
-        rawIssues,
+        candidateIssues,
         config,
-        onProgress
+        runState,
+        onProgress,
+        storeData,
+        runOptions.analysisCache === false ? undefined : this.analysisCache,
+        runOptions.condenseThreads !== false
       );
 
+      // Record the run start time so the next incremental run doesn't miss
+      // issues updated while this one was running
+      if (storeData) {
+        storeData.lastRunAt = runState.createdAt;
+        await this.issueStore.save(storeData);
+      }
+
+      const clusters =
+        runOptions.clusterDuplicates === false
+          ? undefined
+          : await this.clusterDuplicates(analyzedIssues, config, onProgress);
+
       // Phase 3: Generate report from LLM results
       onProgress?.({
         phase: "generating",
@@ -114,13 +286,25 @@ export class GitHubIssueScraper {
         message: "Generating report from LLM analysis...",
       });
 
-      const reportPath = await this.generateReport(analyzedIssues, config);
+      const reportPaths = await this.generateReport(
+        analyzedIssues,
+        config,
+        candidateIssues.length,
+        runState.processingStats,
+        customTemplate,
+        { clusters, prefilter: prefilter?.stats }
+      );
+      const reportPath = reportPaths[0];
+
+      runState.status = "completed";
+      runState.reportPath = reportPath;
+      await this.saveRunState(runState);
 
       onProgress?.({
         phase: "complete",
         current: 1,
         total: 1,
-        message: `Report saved to ${reportPath}`,
+        message: `Report saved to ${reportPaths.join(", ")}`,
       });
 
       // Calculate metadata
@@ -138,10 +322,12 @@ export class GitHubIssueScraper {
           : 0;
 
       return {
+        runId: runState.runId,
         issues: analyzedIssues,
         reportPath,
+        reportPaths,
         metadata: {
-          totalIssuesAnalyzed: rawIssues.length,
+          totalIssuesAnalyzed: candidateIssues.length,
           relevantIssuesFound: analyzedIssues.length,
           averageRelevanceScore: Math.round(averageRelevanceScore * 100) / 100,
           workaroundsFound,
@@ -156,22 +342,39 @@ export class GitHubIssueScraper {
    */
   private async fetchAllIssues(
     config: Config,
-    onProgress?: (progress: ScrapingProgress) => void
+    runState: RunState,
+    onProgress?: (progress: ScrapingProgress) => void,
+    since?: string
   ): Promise<RawGitHubIssue[]> {
-    // Fetch all issues from repository - LLM will determine relevance
-    const issues = await this.githubClient.getRepositoryIssues(
-      config.repository,
-      {
-        state: "open",
-        sort: "updated",
-        direction: "desc",
-      },
-      {
-        maxPages: Math.ceil(config.maxIssues / 100), // Fetch enough pages to get maxIssues
-      }
-    );
+    const filters: IssueFilters = {
+      // Updates since the last run include issues whose state changed meanwhile
+      state: since ? "all" : config.issueState || "open",
+      sort: "updated",
+      direction: "desc",
+      since,
+      kind: config.itemKind || "issues",
+    };
+
+    // Fetch all issues from repository - LLM will determine relevance.
+    // GraphQL returns comments along with the issues.
+    const useGraphQL = config.githubApiMode === "graphql";
+    const issues = useGraphQL
+      ? await this.githubClient.getRepositoryIssuesWithComments(
+          config.repository,
+          filters,
+          {
+            perPage: GRAPHQL_PAGE_SIZE,
+            maxPages: Math.ceil(config.maxIssues / GRAPHQL_PAGE_SIZE),
+          }
+        )
+      : await this.githubClient.getRepositoryIssues(
+          config.repository,
+          filters,
+          { maxItems: config.maxIssues }
+        );
 
     // Convert to raw format for LLM processing
+    const { apiUrl } = GitHubClient.resolveUrls(config);
     const rawIssues: RawGitHubIssue[] = issues.map((issue) => ({
       id: issue.id,
       number: issue.number,
@@ -183,18 +386,114 @@ export class GitHubIssueScraper {
       updated_at: issue.updatedAt.toISOString(),
       user: { login: issue.author },
       html_url: issue.url,
-      comments_url: `https://api.github.com/repos/${config.repository}/issues/${issue.number}/comments`,
+      comments_url: `${apiUrl}/repos/${config.repository}/issues/${issue.number}/comments`,
       comments: issue.comments.length,
+      ...(issue.closedAt && { closed_at: issue.closedAt.toISOString() }),
+      ...(issue.stateReason && { state_reason: issue.stateReason }),
+      ...(issue.pullRequest && {
+        pull_request: {
+          merged_at: issue.pullRequest.mergedAt?.toISOString() || null,
+          linked_issues: issue.pullRequest.linkedIssues,
+        },
+      }),
+      ...(issue.reactions && {
+        reactions: this.toRawReactions(issue.reactions),
+      }),
     }));
 
     onProgress?.({
       phase: "fetching",
       current: rawIssues.length,
       total: config.maxIssues,
-      message: `Fetched ${rawIssues.length} issues for LLM analysis`,
+      message: `Fetched ${rawIssues.length} ${this.describeKind(
+        config
+      )} for LLM analysis`,
     });
 
-    return rawIssues.slice(0, config.maxIssues);
+    const limitedIssues = rawIssues.slice(0, config.maxIssues);
+
+    // Comments fetched along with the issues don't need to be fetched again
+    if (useGraphQL) {
+      const commentsById = new Map(
+        issues.map((issue) => [issue.id, issue.comments])
+      );
+      for (const issue of limitedIssues) {
+        runState.comments[issue.id] = (commentsById.get(issue.id) || []).map(
+          (comment) => this.toRawComment(comment)
+        );
+      }
+    }
+
+    return limitedIssues;
+  }
+
+  /**
+   * Phase 1 (incremental): Fetch only issues updated since the last run and
+   * combine them with unchanged issues from the issue store
+   */
+  private async fetchIncrementalIssues(
+    config: Config,
+    storeData: IssueStoreData,
+    runState: RunState,
+    onProgress?: (progress: ScrapingProgress) => void
+  ): Promise<RawGitHubIssue[]> {
+    if (!storeData.lastRunAt) {
+      console.log(
+        "No previous run found in the issue store, fetching all issues"
+      );
+      return this.fetchAllIssues(config, runState, onProgress);
+    }
+
+    const updatedIssues = await this.fetchAllIssues(
+      config,
+      runState,
+      onProgress,
+      storeData.lastRunAt
+    );
+    const updatedIds = new Set(updatedIssues.map((issue) => issue.id));
+
+    // Forget issues that no longer match --state (e.g. closed since the last run)
+    const state = config.issueState || "open";
+    const matchesState = (issue: RawGitHubIssue) =>
+      state === "all" || issue.state === state;
+    for (const issue of updatedIssues) {
+      if (!matchesState(issue)) {
+        delete storeData.issues[issue.id];
+      }
+    }
+
+    // The store may hold items from runs with a different --kind or --state
+    const kind = config.itemKind || "issues";
+    const unchangedIssues = Object.values(storeData.issues)
+      .filter((stored) => !updatedIds.has(stored.issue.id))
+      .map((stored) => stored.issue)
+      .filter(matchesState)
+      .filter(
+        (issue) => kind === "both" || !!issue.pull_request === (kind === "prs")
+      );
+
+    const rawIssues = [
+      ...updatedIssues.filter(matchesState),
+      ...unchangedIssues,
+    ]
+      .sort(
+        (a, b) =>
+          new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
+      )
+      .slice(0, config.maxIssues);
+
+    // Unchanged issues keep their stored comments, so they are not fetched again
+    for (const issue of rawIssues) {
+      if (!updatedIds.has(issue.id)) {
+        runState.comments[issue.id] = storeData.issues[issue.id].comments;
+      }
+    }
+
+    console.log(
+      `Incremental update since ${storeData.lastRunAt}: ${updatedIssues.length} updated issues, ${unchangedIssues.length} unchanged issues in store`
+    );
+
+    return rawIssues;
   }
 
   /**
@@ -204,7 +503,11 @@ export class GitHubIssueScraper {
   private async prepareLLMAnalysis(
     rawIssues: RawGitHubIssue[],
     config: Config,
-    onProgress?: (progress: ScrapingProgress) => void
+    runState: RunState,
+    onProgress?: (progress: ScrapingProgress) => void,
+    storeData?: IssueStoreData,
+    analysisCache?: AnalysisCache,
+    condenseThreads: boolean = true
   ): Promise<GitHubIssue[]> {
     const context: ErrorContext = {
       operation: "LLM analysis of issues",
@@ -215,13 +518,25 @@ export class GitHubIssueScraper {
     return ErrorHandler.executeWithRetry(async () => {
       // Step 1: Fetch comments for all issues
       const commentsMap = new Map<number, RawComment[]>();
+      const pendingIssues: RawGitHubIssue[] = [];
+
+      for (const rawIssue of rawIssues) {
+        // Reuse comments fetched earlier in this run
+        const savedComments = runState.comments[rawIssue.id];
+        if (savedComments) {
+          commentsMap.set(rawIssue.id, savedComments);
+        } else {
+          pendingIssues.push(rawIssue);
+        }
+      }
 
-      for (let i = 0; i < rawIssues.length; i++) {
-        const rawIssue = rawIssues[i];
+      let fetchedCount = 0;
+      let checkpoint = Promise.resolve();
 
+      const fetchComments = async (rawIssue: RawGitHubIssue): Promise<void> => {
         onProgress?.({
           phase: "analyzing",
-          current: i,
+          current: commentsMap.size,
           total: rawIssues.length * 2, // Double the total to account for both fetching and analysis
           message: `Fetching comments for issue #${rawIssue.number}...`,
         });
@@ -233,16 +548,33 @@ export class GitHubIssueScraper {
             rawIssue.number
           );
 
+          // Review comments on the diff often explain what a PR fixes
+          if (rawIssue.pull_request) {
+            comments.push(
+              ...(await this.githubClient.getPullRequestReviewComments(
+                config.repository,
+                rawIssue.number
+              ))
+            );
+            comments.sort(
+              (a, b) => a.createdAt.getTime() - b.createdAt.getTime()
+            );
+          }
+
           // Convert to raw format for LLM processing
-          const rawComments: RawComment[] = comments.map((comment) => ({
-            id: comment.id,
-            user: { login: comment.author },
-            body: comment.body,
-            created_at: comment.createdAt.toISOString(),
-            author_association: comment.authorType.toUpperCase(),
-          }));
+          const rawComments: RawComment[] = comments.map((comment) =>
+            this.toRawComment(comment)
+          );
 
           commentsMap.set(rawIssue.id, rawComments);
+          runState.comments[rawIssue.id] = rawComments;
+
+          // Checkpoint periodically rather than after every request, one
+          // save at a time
+          if (++fetchedCount % 10 === 0) {
+            checkpoint = checkpoint.then(() => this.saveRunState(runState));
+            await checkpoint;
+          }
         } catch (error: any) {
           console.warn(
             `Failed to fetch comments for issue #${rawIssue.number}: ${error.message}`
@@ -250,13 +582,57 @@ export class GitHubIssueScraper {
           // Set empty comments array if fetching fails
           commentsMap.set(rawIssue.id, []);
         }
+      };
+
+      // Fetch as many issues at once as the GitHub client runs requests; its
+      // scheduler keeps them within the rate limits
+      let nextIssue = 0;
+      const workers = Math.min(
+        this.githubClient.concurrency,
+        pendingIssues.length
+      );
+      await Promise.all(
+        Array.from({ length: workers }, async () => {
+          while (nextIssue < pendingIssues.length) {
+            await fetchComments(pendingIssues[nextIssue++]);
+          }
+        })
+      );
+
+      // Reuse stored analyses for issues whose content hasn't changed
+      const promptVersion = this.promptManager.getPromptVersion();
+      if (storeData) {
+        this.reuseStoredAnalyses(
+          rawIssues,
+          commentsMap,
+          storeData,
+          runState,
+          config,
+          promptVersion
+        );
+      }
+
+      // Skip the LLM for issues analyzed before with the same inputs
+      if (analysisCache) {
+        await this.reuseCachedAnalyses(
+          rawIssues,
+          runState,
+          config,
+          analysisCache,
+          promptVersion
+        );
       }
 
+      await this.saveRunState(runState);
+
       // Step 2: Configure JAN client with settings from config
       if (config.janEndpoint) {
         this.janClient.updateOptions({
+          provider: config.llmProvider,
           endpoint: config.janEndpoint,
           model: config.janModel || "llama2",
+          contextWindow: config.contextWindows?.[config.janModel || "llama2"],
+          concurrency: config.llmConcurrency,
         });
       }
 
@@ -268,27 +644,107 @@ export class GitHubIssueScraper {
         message: "Analyzing issues with JAN LLM...",
       });
 
-      // Determine optimal batch size based on issue complexity
-      const avgIssueSize = this.calculateAverageIssueSize(
-        rawIssues,
-        commentsMap
-      );
-      const batchSize = this.determineBatchSize(avgIssueSize);
+      // Batches are packed to the model's context window by estimated tokens
+      const batchSize = MAX_BATCH_SIZE;
 
-      console.log(
-        `Average issue size: ${avgIssueSize} characters, batch size: ${batchSize} issues`
-      );
+      // Processing stats accumulate across resumed attempts of the same run
+      if (!runState.processingStats) {
+        runState.processingStats = {
+          batchCount: 0,
+          totalTokensUsed: 0,
+          analysisTime: 0,
+        };
+      }
+      const processingStats = runState.processingStats;
 
-      // Perform LLM analysis with batching
-      let llmAnalysis: LLMAnalysisResponse;
-      try {
-        llmAnalysis = await this.janClient.analyzeIssues(
-          rawIssues,
-          commentsMap,
+      let analysisComments: Map<number, RawComment[]> | undefined;
+
+      // Perform LLM analysis with batching, skipping batches finished earlier
+      // in this run and checkpointing each batch as it completes, one save at
+      // a time since concurrent batches share the state file
+      const analyzePendingIssues = async (
+        size: number
+      ): Promise<LLMAnalysisResponse> => {
+        const analyzedIds = this.runStateManager.getAnalyzedIssueIds(runState);
+        const pendingIssues = rawIssues.filter(
+          (issue) => !analyzedIds.has(issue.id)
+        );
+
+        if (analyzedIds.size > 0) {
+          console.log(
+            `Skipping ${
+              rawIssues.length - pendingIssues.length
+            } issues analyzed earlier in run ${runState.runId}`
+          );
+        }
+
+        if (pendingIssues.length === 0) {
+          return {
+            relevantIssues: [],
+            summary: {
+              totalAnalyzed: 0,
+              relevantFound: 0,
+              topCategories: [],
+              analysisModel: config.janModel,
+            },
+          };
+        }
+
+        // Condense threads too long for a batch, once per run; reports and
+        // cache keys keep every comment
+        if (!analysisComments) {
+          analysisComments = condenseThreads
+            ? await this.threadCondenser.condense(
+                pendingIssues,
+                commentsMap,
+                config.productArea
+              )
+            : commentsMap;
+        }
+
+        return this.janClient.analyzeIssues(
+          pendingIssues,
+          analysisComments,
           config.productArea,
           this.promptManager,
-          batchSize
+          size,
+          {
+            onBatchComplete: async (batchIssues, result) => {
+              processingStats.batchCount =
+                (processingStats.batchCount || 0) + 1;
+              if (result.summary.repairs?.length) {
+                processingStats.responseRepairs = [
+                  ...(processingStats.responseRepairs || []),
+                  ...result.summary.repairs,
+                ];
+              }
+              runState.completedBatches.push({
+                issueIds: batchIssues.map((issue) => issue.id),
+                result,
+                completedAt: new Date().toISOString(),
+              });
+              checkpoint = checkpoint.then(() => this.saveRunState(runState));
+              await checkpoint;
+
+              if (analysisCache) {
+                await this.cacheAnalyses(
+                  batchIssues,
+                  result,
+                  runState,
+                  config,
+                  analysisCache,
+                  promptVersion
+                );
+              }
+            },
+          }
         );
+      };
+
+      const analysisStart = Date.now();
+      let llmAnalysis: LLMAnalysisResponse;
+      try {
+        llmAnalysis = await analyzePendingIssues(batchSize);
       } catch (error: any) {
         // Handle LLM analysis errors with fallback
         console.error(`LLM analysis failed: ${error.message}`);
@@ -299,11 +755,7 @@ export class GitHubIssueScraper {
         ) {
           // Try with smaller batch size as fallback
           console.log("Retrying with smaller batch size...");
-          llmAnalysis = await this.janClient.analyzeIssues(
-            rawIssues,
-            commentsMap,
-            config.productArea,
-            this.promptManager,
+          llmAnalysis = await analyzePendingIssues(
             Math.max(1, Math.floor(batchSize / 2))
           );
         } else {
@@ -311,23 +763,40 @@ export class GitHubIssueScraper {
         }
       }
 
+      processingStats.batchCount =
+        (processingStats.batchCount || 0) +
+        (llmAnalysis.summary.processingErrors || 0);
+      processingStats.totalTokensUsed =
+        (processingStats.totalTokensUsed || 0) +
+        (llmAnalysis.summary.totalTokensUsed || 0);
+      processingStats.analysisTime =
+        (processingStats.analysisTime || 0) + (Date.now() - analysisStart);
+
       // Step 4: Convert LLM analysis results to GitHubIssue format
       const analyzedIssues: GitHubIssue[] = [];
 
-      // Create a map of analyzed issues by ID for quick lookup
+      // Create a map of analyzed issues by ID for quick lookup, including
+      // results of batches completed before the run was resumed
       const analyzedIssueMap = new Map(
-        llmAnalysis.relevantIssues.map((issue) => [issue.id, issue])
+        [
+          ...runState.completedBatches.flatMap(
+            (batch) => batch.result.relevantIssues
+          ),
+          ...llmAnalysis.relevantIssues,
+        ].map((issue) => [issue.id, issue])
       );
 
+      // Pull requests in this run that fix an issue, by issue number
+      const linkedPullRequests = this.collectLinkedPullRequests(rawIssues);
+
       // Process each raw issue
       for (const rawIssue of rawIssues) {
         // Get LLM analysis for this issue if available
         const llmAnalyzed = analyzedIssueMap.get(rawIssue.id);
 
-        // Get comments for this issue
-        const comments = await this.githubClient.getIssueComments(
-          config.repository,
-          rawIssue.number
+        // Reuse the comments fetched for analysis
+        const comments = (commentsMap.get(rawIssue.id) || []).map((comment) =>
+          this.toComment(comment)
         );
 
         // Create GitHubIssue with LLM analysis if available, otherwise use defaults
@@ -351,8 +820,36 @@ export class GitHubIssueScraper {
           workarounds: llmAnalyzed?.workarounds || [],
           tags: llmAnalyzed?.tags || [],
           sentiment: llmAnalyzed?.sentiment || "neutral",
+          ...(rawIssue.reactions && {
+            reactions: this.toReactions(rawIssue.reactions),
+          }),
         };
 
+        if (rawIssue.state === "closed") {
+          if (rawIssue.closed_at) {
+            analyzedIssue.closedAt = new Date(rawIssue.closed_at);
+          }
+          if (rawIssue.state_reason) {
+            analyzedIssue.stateReason = rawIssue.state_reason;
+          }
+          if (llmAnalyzed?.resolution) {
+            analyzedIssue.resolution = llmAnalyzed.resolution;
+          }
+        }
+
+        if (rawIssue.pull_request) {
+          analyzedIssue.pullRequest = {
+            mergedAt: rawIssue.pull_request.merged_at
+              ? new Date(rawIssue.pull_request.merged_at)
+              : undefined,
+            linkedIssues: rawIssue.pull_request.linked_issues || [],
+          };
+        } else if (linkedPullRequests.has(rawIssue.number)) {
+          analyzedIssue.linkedPullRequests = linkedPullRequests.get(
+            rawIssue.number
+          );
+        }
+
         // Only include issues that meet the minimum relevance score threshold
         if (analyzedIssue.relevanceScore >= config.minRelevanceScore) {
           analyzedIssues.push(analyzedIssue);
@@ -362,6 +859,16 @@ export class GitHubIssueScraper {
       // Sort by relevance score (highest first)
       analyzedIssues.sort((a, b) => b.relevanceScore - a.relevanceScore);
 
+      if (storeData) {
+        this.updateIssueStore(
+          rawIssues,
+          storeData,
+          runState,
+          analyzedIssueMap,
+          config
+        );
+      }
+
       onProgress?.({
         phase: "analyzing",
         current: rawIssues.length * 2,
@@ -374,74 +881,518 @@ export class GitHubIssueScraper {
   }
 
   /**
-   * Calculate average issue size in characters to determine optimal batch size
+   * Mark issues whose content, model and prompt version match the issue
+   * store as analyzed, so only new or changed issues are sent to the LLM
+   */
+  private reuseStoredAnalyses(
+    rawIssues: RawGitHubIssue[],
+    commentsMap: Map<number, RawComment[]>,
+    storeData: IssueStoreData,
+    runState: RunState,
+    config: Config,
+    promptVersion: string
+  ): void {
+    const analyzedIds = this.runStateManager.getAnalyzedIssueIds(runState);
+    const reusedIds: number[] = [];
+    const reusedAnalyses: AnalyzedIssue[] = [];
+
+    for (const rawIssue of rawIssues) {
+      const stored = storeData.issues[rawIssue.id];
+      if (
+        analyzedIds.has(rawIssue.id) ||
+        !stored?.analyzed ||
+        stored.analysisModel !== config.janModel ||
+        // A changed prompt or taxonomy can change the analysis
+        stored.promptVersion !== promptVersion
+      ) {
+        continue;
+      }
+
+      const contentHash = this.issueStore.computeContentHash(
+        rawIssue,
+        commentsMap.get(rawIssue.id) || []
+      );
+      if (contentHash !== stored.contentHash) {
+        continue;
+      }
+
+      reusedIds.push(rawIssue.id);
+      if (stored.analysis) {
+        reusedAnalyses.push(stored.analysis);
+      }
+    }
+
+    if (reusedIds.length === 0) {
+      return;
+    }
+
+    console.log(
+      `Reusing stored analysis for ${reusedIds.length} unchanged issues`
+    );
+
+    runState.completedBatches.push({
+      issueIds: reusedIds,
+      result: {
+        relevantIssues: reusedAnalyses,
+        summary: {
+          totalAnalyzed: reusedIds.length,
+          relevantFound: reusedAnalyses.length,
+          topCategories: [],
+          analysisModel: config.janModel,
+        },
+      },
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Mark issues with a cached analysis for the same content, product area,
+   * model and prompt version as analyzed
+   */
+  private async reuseCachedAnalyses(
+    rawIssues: RawGitHubIssue[],
+    runState: RunState,
+    config: Config,
+    analysisCache: AnalysisCache,
+    promptVersion: string
+  ): Promise<void> {
+    const analyzedIds = this.runStateManager.getAnalyzedIssueIds(runState);
+    const cachedIds: number[] = [];
+    const cachedAnalyses: AnalyzedIssue[] = [];
+
+    for (const rawIssue of rawIssues) {
+      // Issues without fetched comments are never cached, see cacheAnalyses
+      const comments = runState.comments[rawIssue.id];
+      if (analyzedIds.has(rawIssue.id) || !comments) {
+        continue;
+      }
+
+      const cached = await analysisCache.get(
+        AnalysisCache.computeKey(
+          rawIssue,
+          comments,
+          config.productArea,
+          config.janModel,
+          promptVersion
+        )
+      );
+      if (!cached) {
+        continue;
+      }
+
+      cachedIds.push(rawIssue.id);
+      if (cached.analysis) {
+        cachedAnalyses.push(cached.analysis);
+      }
+    }
+
+    if (cachedIds.length === 0) {
+      return;
+    }
+
+    console.log(`Using cached analysis for ${cachedIds.length} issues`);
+
+    runState.completedBatches.push({
+      issueIds: cachedIds,
+      result: {
+        relevantIssues: cachedAnalyses,
+        summary: {
+          totalAnalyzed: cachedIds.length,
+          relevantFound: cachedAnalyses.length,
+          topCategories: [],
+          analysisModel: config.janModel,
+        },
+      },
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Store the analysis of each issue in a completed batch in the analysis cache
+   */
+  private async cacheAnalyses(
+    batchIssues: RawGitHubIssue[],
+    result: LLMAnalysisResponse,
+    runState: RunState,
+    config: Config,
+    analysisCache: AnalysisCache,
+    promptVersion: string
+  ): Promise<void> {
+    const analyses = new Map(
+      result.relevantIssues.map((issue) => [issue.id, issue])
+    );
+
+    for (const rawIssue of batchIssues) {
+      // Don't cache analyses of issues whose comments couldn't be fetched
+      const comments = runState.comments[rawIssue.id];
+      if (!comments) {
+        continue;
+      }
+
+      await analysisCache.set(
+        AnalysisCache.computeKey(
+          rawIssue,
+          comments,
+          config.productArea,
+          config.janModel,
+          promptVersion
+        ),
+        {
+          issueId: rawIssue.id,
+          productArea: config.productArea,
+          model: config.janModel,
+          promptVersion,
+          analysis: analyses.get(rawIssue.id),
+          storedAt: new Date().toISOString(),
+        }
+      );
+    }
+  }
+
+  /**
+   * Record fetched comments and analysis results in the issue store
    */
-  private calculateAverageIssueSize(
-    issues: RawGitHubIssue[],
-    commentsMap: Map<number, RawComment[]>
-  ): number {
-    if (issues.length === 0) return 0;
-
-    let totalSize = 0;
-
-    for (const issue of issues) {
-      // Count issue title and body
-      let issueSize = (issue.title?.length || 0) + (issue.body?.length || 0);
-
-      // Add comment sizes
-      const comments = commentsMap.get(issue.id) || [];
-      for (const comment of comments) {
-        issueSize += comment.body?.length || 0;
+  private updateIssueStore(
+    rawIssues: RawGitHubIssue[],
+    storeData: IssueStoreData,
+    runState: RunState,
+    analyzedIssueMap: Map<number, AnalyzedIssue>,
+    config: Config
+  ): void {
+    const analyzedIds = this.runStateManager.getAnalyzedIssueIds(runState);
+    const promptVersion = this.promptManager.getPromptVersion();
+
+    for (const rawIssue of rawIssues) {
+      // Skip issues whose comments couldn't be fetched so they aren't
+      // remembered with an incomplete thread
+      const comments = runState.comments[rawIssue.id];
+      if (!comments) {
+        continue;
       }
 
-      totalSize += issueSize;
+      const analyzed = analyzedIds.has(rawIssue.id);
+      storeData.issues[rawIssue.id] = {
+        issue: rawIssue,
+        comments,
+        contentHash: this.issueStore.computeContentHash(rawIssue, comments),
+        analyzed,
+        analysis: analyzedIssueMap.get(rawIssue.id),
+        analysisModel: analyzed ? config.janModel : undefined,
+        promptVersion: analyzed ? promptVersion : undefined,
+      };
+    }
+  }
+
+  /**
+   * Load a saved run and make sure it matches the current configuration
+   */
+  private async loadRunForResume(
+    runId: string,
+    config: Config
+  ): Promise<RunState> {
+    const runState = await this.runStateManager.loadRun(runId);
+
+    if (
+      runState.repository !== config.repository ||
+      runState.productArea !== config.productArea
+    ) {
+      throw ErrorHandler.handleValidationError(
+        `Run ${runId} was started for ${runState.repository} ("${runState.productArea}"), not ${config.repository} ("${config.productArea}")`,
+        {
+          operation: "resuming scrape run",
+          repository: config.repository,
+          productArea: config.productArea,
+          additionalInfo: { runId },
+        },
+        [
+          {
+            action: "Use the original options",
+            description: `Resume with -r ${runState.repository} -p "${runState.productArea}"`,
+            priority: "high",
+          },
+        ]
+      );
     }
 
-    return Math.floor(totalSize / issues.length);
+    runState.status = "in_progress";
+    return runState;
   }
 
   /**
-   * Determine optimal batch size based on average issue size
+   * Persist run state without failing the run if checkpointing fails
    */
-  private determineBatchSize(avgIssueSize: number): number {
-    // These thresholds can be adjusted based on model capabilities
-    if (avgIssueSize > 20000) return 1;
-    if (avgIssueSize > 10000) return 2;
-    if (avgIssueSize > 5000) return 3;
-    if (avgIssueSize > 2000) return 5;
-    return 8; // Default for small issues
+  private async saveRunState(runState: RunState): Promise<void> {
+    try {
+      await this.runStateManager.saveRun(runState);
+    } catch (error: any) {
+      console.warn(
+        `Failed to save progress for run ${runState.runId}: ${error.message}`
+      );
+    }
   }
 
   /**
-   * Phase 4: Generate markdown report
+   * Map issue numbers to the pull requests that say they fix them
+   */
+  private collectLinkedPullRequests(
+    rawIssues: RawGitHubIssue[]
+  ): Map<number, LinkedPullRequest[]> {
+    const linked = new Map<number, LinkedPullRequest[]>();
+
+    for (const rawIssue of rawIssues) {
+      if (!rawIssue.pull_request) continue;
+
+      const pullRequest: LinkedPullRequest = {
+        number: rawIssue.number,
+        url: rawIssue.html_url,
+        state: rawIssue.pull_request.merged_at
+          ? "merged"
+          : rawIssue.state === "open"
+          ? "open"
+          : "closed",
+      };
+
+      for (const issueNumber of rawIssue.pull_request.linked_issues || []) {
+        linked.set(issueNumber, [
+          ...(linked.get(issueNumber) || []),
+          pullRequest,
+        ]);
+      }
+    }
+
+    return linked;
+  }
+
+  /**
+   * Describe the scraped item kind for progress messages
+   */
+  private describeKind(config: Config): string {
+    switch (config.itemKind) {
+      case "prs":
+        return "pull requests";
+      case "both":
+        return "issues and pull requests";
+      default:
+        return "issues";
+    }
+  }
+
+  /**
+   * Convert a comment to the raw format used for LLM processing
+   */
+  private toRawComment(comment: Comment): RawComment {
+    return {
+      id: comment.id,
+      user: { login: comment.author },
+      body: comment.body,
+      created_at: comment.createdAt.toISOString(),
+      author_association: comment.authorType.toUpperCase(),
+      ...(comment.path && { path: comment.path }),
+      ...(comment.reactions && {
+        reactions: this.toRawReactions(comment.reactions),
+      }),
+    };
+  }
+
+  /**
+   * Convert reaction counts to the raw REST rollup format
+   */
+  private toRawReactions(reactions: Reactions): RawReactions {
+    return { total_count: reactions.totalCount, "+1": reactions.thumbsUp };
+  }
+
+  /**
+   * Convert a raw REST reaction rollup back to the internal format
+   */
+  private toReactions(rawReactions: RawReactions): Reactions {
+    return {
+      totalCount: rawReactions.total_count,
+      thumbsUp: rawReactions["+1"],
+    };
+  }
+
+  /**
+   * Convert a raw comment back to the internal comment format
+   */
+  private toComment(rawComment: RawComment): Comment {
+    let authorType: Comment["authorType"];
+    switch (rawComment.author_association) {
+      case "MAINTAINER":
+      case "OWNER":
+      case "MEMBER":
+      case "COLLABORATOR":
+        authorType = "maintainer";
+        break;
+      case "CONTRIBUTOR":
+        authorType = "contributor";
+        break;
+      default:
+        authorType = "user";
+    }
+
+    return {
+      id: rawComment.id,
+      author: rawComment.user.login,
+      body: rawComment.body,
+      createdAt: new Date(rawComment.created_at),
+      authorType,
+      ...(rawComment.path && { path: rawComment.path }),
+      ...(rawComment.reactions && {
+        reactions: this.toReactions(rawComment.reactions),
+      }),
+    };
+  }
+
+  /**
+   * Rank fetched issues against the product area with BM25 or the configured
+   * embedding model and keep the configured top N or those above the minimum
+   * score
+   */
+  private async prefilterIssues(
+    rawIssues: RawGitHubIssue[],
+    config: Config,
+    onProgress?: (progress: ScrapingProgress) => void
+  ): Promise<PrefilterResult> {
+    onProgress?.({
+      phase: "prefiltering",
+      current: 0,
+      total: rawIssues.length,
+      message: `Ranking ${rawIssues.length} issues against "${config.productArea}"...`,
+    });
+
+    const result = await new IssuePrefilter({
+      method: config.prefilter!,
+      topN: config.prefilterTopN,
+      minScore: config.prefilterMinScore,
+      embedder: config.embeddingModel
+        ? new LLMEmbedder(this.janClient, config.embeddingModel)
+        : undefined,
+    }).filter(rawIssues, config.productArea);
+
+    onProgress?.({
+      phase: "prefiltering",
+      current: rawIssues.length,
+      total: rawIssues.length,
+      message: `Kept ${result.stats.kept} of ${
+        result.stats.candidates
+      } issues for LLM analysis (${result.stats.method}, cut-off score ${
+        result.stats.cutoffScore ?? "n/a"
+      })`,
+    });
+
+    return result;
+  }
+
+  /**
+   * Group near-duplicate issues with the configured embedding model, or the
+   * bundled vectorizer without one or if the model fails
+   */
+  private async clusterDuplicates(
+    issues: GitHubIssue[],
+    config: Config,
+    onProgress?: (progress: ScrapingProgress) => void
+  ): Promise<IssueCluster[]> {
+    onProgress?.({
+      phase: "clustering",
+      current: 0,
+      total: issues.length,
+      message: "Grouping near-duplicate issues...",
+    });
+
+    const vectorizer = new TfIdfEmbedder();
+    const clusterer = config.embeddingModel
+      ? new IssueClusterer(
+          new LLMEmbedder(this.janClient, config.embeddingModel),
+          vectorizer,
+          config.clusterThreshold
+        )
+      : new IssueClusterer(vectorizer, undefined, config.clusterThreshold);
+    const clusters = await clusterer.cluster(issues);
+
+    onProgress?.({
+      phase: "clustering",
+      current: issues.length,
+      total: issues.length,
+      message: `Found ${clusters.length} clusters of near-duplicate issues`,
+    });
+
+    return clusters;
+  }
+
+  /**
+   * Phase 4: Generate a report in each configured format
    */
   private async generateReport(
     issues: GitHubIssue[],
-    config: Config
-  ): Promise<string> {
+    config: Config,
+    totalAnalyzed: number,
+    processingStats?: ProcessingStats,
+    customTemplate?: string,
+    stages: Pick<ReportMetadata, "clusters" | "prefilter"> = {}
+  ): Promise<string[]> {
     const metadata = ReportGenerator.createMetadata(
       config,
       issues,
-      issues.length
+      totalAnalyzed,
+      undefined,
+      processingStats,
+      this.promptManager.getPromptVersionLabel()
     );
+    Object.assign(metadata, stages);
 
-    const report = await this.reportGenerator.generateReport(
-      issues,
-      metadata,
-      config,
-      {
-        includeTableOfContents: true,
-        sortByRelevance: true,
-        includeMetadata: true,
+    const formats: ReportFormat[] = config.outputFormats?.length
+      ? config.outputFormats
+      : ["markdown"];
+    const reportPaths: string[] = [];
+
+    for (const format of formats) {
+      if (format === "csv") {
+        const csv = this.reportGenerator.generateCsvReports(issues);
+        reportPaths.push(
+          await this.reportGenerator.saveReport(
+            csv.issues,
+            metadata,
+            config.outputPath,
+            "csv"
+          ),
+          await this.reportGenerator.saveReport(
+            csv.workarounds,
+            metadata,
+            config.outputPath,
+            "csv",
+            "workarounds"
+          )
+        );
+        continue;
       }
-    );
 
-    const reportPath = await this.reportGenerator.saveReport(
-      report,
-      metadata,
-      config.outputPath
-    );
+      const report =
+        format === "json"
+          ? this.reportGenerator.generateJsonReport(issues, metadata)
+          : format === "html"
+          ? this.reportGenerator.generateHtmlReport(issues, metadata)
+          : await this.reportGenerator.generateReport(
+              issues,
+              metadata,
+              config,
+              {
+                includeTableOfContents: true,
+                sortByRelevance: true,
+                includeMetadata: true,
+                customTemplate,
+              }
+            );
+
+      reportPaths.push(
+        await this.reportGenerator.saveReport(
+          report,
+          metadata,
+          config.outputPath,
+          format
+        )
+      );
+    }
 
-    return reportPath;
+    return reportPaths;
   }
 }
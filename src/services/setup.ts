@@ -1,6 +1,7 @@
 import * as readline from "readline";
 import { ConfigManager } from "./config";
 import { AuthenticationService } from "./auth";
+import { GitHubClient } from "./github-client";
 import { ErrorHandler, ScraperError, ErrorContext } from "./error-handler";
 
 export class SetupService {
@@ -35,6 +36,11 @@ export class SetupService {
       await this.configManager.loadConfig();
       this.configManager.setDefaults();
 
+      // Validate against the configured GitHub instance
+      this.authService = new AuthenticationService(
+        GitHubClient.resolveUrls(this.configManager.getConfig()).apiUrl
+      );
+
       // Setup GitHub token
       const tokenSetup = await this.setupGitHubToken();
       if (!tokenSetup) {
@@ -126,7 +132,11 @@ export class SetupService {
     console.log(
       "You need a GitHub Personal Access Token to access the GitHub API."
     );
-    console.log("Create one at: https://github.com/settings/tokens");
+    console.log(
+      `Create one at: ${
+        GitHubClient.resolveUrls(this.configManager.getConfig()).webUrl
+      }/settings/tokens`
+    );
     console.log(
       "Required scopes: public_repo (or repo for private repositories)\n"
     );
@@ -0,0 +1,241 @@
+import * as fs from "fs-extra";
+import { ErrorHandler, ErrorContext, ScraperError } from "./error-handler";
+
+// Category for issues that fit none of the taxonomy's categories, unless the
+// taxonomy names its own
+const DEFAULT_FALLBACK_CATEGORY = "other";
+
+// Share of a value's words that must match a category or tag to map to it
+const MATCH_THRESHOLD = 0.5;
+
+// Share of characters two longer words must have in common to count as the
+// same word misspelled
+const SPELLING_THRESHOLD = 0.8;
+
+// Words LLMs add to categories that don't tell them apart, e.g. "Speed Issues"
+const FILLER_WORDS = new Set([
+  "issue",
+  "issues",
+  "problem",
+  "problems",
+  "related",
+  "and",
+  "the",
+  "of",
+  "with",
+  "in",
+  "for",
+]);
+
+export interface TaxonomyCategory {
+  name: string;
+  description?: string; // Shown to the LLM
+  aliases?: string[]; // Other names that map to the category
+}
+
+// Contents of a taxonomy file
+export interface TaxonomyDefinition {
+  categories: TaxonomyCategory[];
+  tags?: string[]; // Controlled tag vocabulary; any tag is allowed without one
+  fallbackCategory?: string;
+}
+
+interface Candidate {
+  name: string;
+  terms: string[][]; // Words of the name and each alias
+}
+
+/**
+ * Taxonomy
+ *
+ * A project's allowed issue categories and, optionally, its tag vocabulary.
+ * The categories and tags are shown to the LLM, and values outside them are
+ * mapped to the closest category or tag by their words: exact names and
+ * aliases first, then words sharing a prefix or spelled slightly differently.
+ * Categories that match nothing become the fallback category; tags that
+ * match nothing are dropped.
+ */
+export class Taxonomy {
+  readonly categories: TaxonomyCategory[];
+  readonly tags?: string[];
+  readonly fallbackCategory: string;
+  private categoryCandidates: Candidate[];
+  private tagCandidates?: Candidate[];
+
+  constructor(definition: TaxonomyDefinition) {
+    this.fallbackCategory =
+      definition.fallbackCategory || DEFAULT_FALLBACK_CATEGORY;
+    this.categories = definition.categories.some(
+      (category) => category.name === this.fallbackCategory
+    )
+      ? definition.categories
+      : [
+          ...definition.categories,
+          {
+            name: this.fallbackCategory,
+            description: "Issues that fit none of the other categories",
+          },
+        ];
+    this.tags = definition.tags;
+
+    this.categoryCandidates = this.categories.map((category) => ({
+      name: category.name,
+      terms: [category.name, ...(category.aliases || [])].map(words),
+    }));
+    this.tagCandidates = this.tags?.map((tag) => ({
+      name: tag,
+      terms: [words(tag)],
+    }));
+  }
+
+  /**
+   * Load and check a taxonomy from a JSON file
+   *
+   * @throws ScraperError if the file can't be read or isn't a taxonomy
+   */
+  static async load(filePath: string): Promise<Taxonomy> {
+    const context: ErrorContext = {
+      operation: "loading taxonomy",
+      filePath,
+    };
+
+    let definition: TaxonomyDefinition;
+    try {
+      definition = await fs.readJson(filePath);
+    } catch (error: any) {
+      throw ErrorHandler.convertToScraperError(error, context);
+    }
+
+    const invalid = (message: string): ScraperError =>
+      ErrorHandler.handleValidationError(message, context, [
+        {
+          action: "Fix the taxonomy",
+          description:
+            "See docs/taxonomy/sample-taxonomy.json for the expected format",
+          priority: "high",
+        },
+      ]);
+
+    if (
+      !Array.isArray(definition?.categories) ||
+      definition.categories.length === 0
+    ) {
+      throw invalid("Taxonomy has no categories");
+    }
+    definition.categories.forEach((category, index) => {
+      if (typeof category?.name !== "string" || !category.name.trim()) {
+        throw invalid(`Category ${index + 1} of the taxonomy has no name`);
+      }
+      if (
+        category.aliases !== undefined &&
+        (!Array.isArray(category.aliases) ||
+          category.aliases.some((alias) => typeof alias !== "string"))
+      ) {
+        throw invalid(
+          `Aliases of category "${category.name}" must be a list of strings`
+        );
+      }
+    });
+    if (
+      definition.tags !== undefined &&
+      (!Array.isArray(definition.tags) ||
+        definition.tags.some((tag) => typeof tag !== "string"))
+    ) {
+      throw invalid("Taxonomy tags must be a list of strings");
+    }
+    if (
+      definition.fallbackCategory !== undefined &&
+      typeof definition.fallbackCategory !== "string"
+    ) {
+      throw invalid("Taxonomy fallbackCategory must be a string");
+    }
+
+    return new Taxonomy(definition);
+  }
+
+  /**
+   * Map a category to the taxonomy's closest category, or the fallback
+   * category if none is close
+   */
+  mapCategory(value: string): string {
+    return bestMatch(value, this.categoryCandidates) || this.fallbackCategory;
+  }
+
+  /**
+   * Map a tag to the closest tag of the vocabulary
+   *
+   * @returns The tag, undefined if it matches no tag of the vocabulary, or
+   *   the tag unchanged without a vocabulary
+   */
+  mapTag(value: string): string | undefined {
+    return this.tagCandidates ? bestMatch(value, this.tagCandidates) : value;
+  }
+}
+
+function bestMatch(value: string, candidates: Candidate[]): string | undefined {
+  const valueWords = words(value);
+  let best: string | undefined;
+  let bestScore = 0;
+
+  for (const candidate of candidates) {
+    for (const termWords of candidate.terms) {
+      const score = matchScore(valueWords, termWords);
+      // Earlier candidates win ties
+      if (score > bestScore) {
+        best = candidate.name;
+        bestScore = score;
+      }
+    }
+  }
+
+  return bestScore >= MATCH_THRESHOLD ? best : undefined;
+}
+
+function matchScore(valueWords: string[], termWords: string[]): number {
+  if (valueWords.length === 0 || termWords.length === 0) {
+    return 0;
+  }
+
+  const matched = valueWords.filter((word) =>
+    termWords.some((term) => sameWord(word, term))
+  ).length;
+  return matched / Math.max(valueWords.length, termWords.length);
+}
+
+function sameWord(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+  // Abbreviations and plurals, e.g. "perf" and "performance"
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= 3 && longer.startsWith(shorter)) {
+    return true;
+  }
+  return (
+    shorter.length >= 5 &&
+    1 - editDistance(a, b) / longer.length >= SPELLING_THRESHOLD
+  );
+}
+
+function words(value: string): string[] {
+  const all = value.toLowerCase().match(/[a-z0-9]+/g) || [];
+  const meaningful = all.filter((word) => !FILLER_WORDS.has(word));
+  // A value made of filler words only, e.g. "issues", is still a value
+  return meaningful.length > 0 ? meaningful : all;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,304 @@
+import { RawGitHubIssue, RawComment } from "../models";
+import { JANClient } from "./jan-client";
+import { PromptManager } from "./prompt-manager";
+import {
+  TokenBudget,
+  estimateTokens,
+  estimateMessageTokens,
+  usableTokens,
+} from "./token-budget";
+
+// Share of a batch's issue tokens one thread may take before it is condensed
+const THREAD_SHARE = 0.5;
+
+// Share of a condensed thread's comment tokens kept for verbatim comments
+const VERBATIM_SHARE = 0.6;
+
+// Threads are never condensed below this many tokens
+const MIN_THREAD_TOKENS = 512;
+
+// Response limit of one summary
+const SUMMARY_MAX_TOKENS = 300;
+
+// Author associations of comments kept verbatim, like the report's maintainers
+const MAINTAINER_ASSOCIATIONS = [
+  "MAINTAINER",
+  "OWNER",
+  "MEMBER",
+  "COLLABORATOR",
+];
+
+// Comments that suggest a workaround or carry code are kept verbatim
+const WORKAROUND_PATTERN =
+  /\bwork[- ]?around|\btemporary (fix|solution)|\bin the meantime\b|\bmonkey[- ]?patch|```/i;
+
+/**
+ * Thread Condenser
+ *
+ * Shrinks comment threads too long to analyze in one batch before the main
+ * analysis. Maintainer comments and comments with workarounds or code are
+ * kept verbatim; the rest of the thread is chunked chronologically and each
+ * chunk summarized by the LLM (map), and the summaries are summarized again
+ * while they are still too long (reduce).
+ */
+export class ThreadCondenser {
+  private janClient: JANClient;
+  private promptManager: PromptManager;
+
+  constructor(janClient: JANClient, promptManager: PromptManager) {
+    this.janClient = janClient;
+    this.promptManager = promptManager;
+  }
+
+  /**
+   * Condense the threads of issues that would crowd out other issues
+   *
+   * @param issues Issues about to be analyzed
+   * @param comments Map of issue ID to comments; left unchanged
+   * @param productArea Product area the analysis is for
+   * @returns Map of issue ID to comments, with long threads condensed
+   */
+  async condense(
+    issues: RawGitHubIssue[],
+    comments: Map<number, RawComment[]>,
+    productArea: string
+  ): Promise<Map<number, RawComment[]>> {
+    const budget = await this.janClient.getTokenBudget();
+    const threadLimit = this.threadTokenLimit(budget, productArea);
+    const condensed = new Map(comments);
+
+    for (const issue of issues) {
+      const thread = comments.get(issue.id) || [];
+      if (
+        thread.length < 2 ||
+        this.promptManager.estimateIssueTokens(issue, thread) <= threadLimit
+      ) {
+        continue;
+      }
+
+      console.log(
+        `Condensing ${thread.length} comments of issue #${issue.number}...`
+      );
+      condensed.set(
+        issue.id,
+        await this.condenseThread(
+          issue,
+          thread,
+          threadLimit,
+          budget,
+          productArea
+        )
+      );
+    }
+
+    return condensed;
+  }
+
+  /**
+   * Tokens one issue with its thread may add to a batch before its thread is
+   * condensed
+   */
+  threadTokenLimit(budget: TokenBudget, productArea: string): number {
+    const issueTokens =
+      usableTokens(budget) -
+      this.promptManager.estimatePromptOverheadTokens(productArea);
+    return Math.max(MIN_THREAD_TOKENS, Math.floor(issueTokens * THREAD_SHARE));
+  }
+
+  /**
+   * Whether a comment is kept verbatim in a condensed thread
+   */
+  isKeyComment(comment: RawComment): boolean {
+    return (
+      MAINTAINER_ASSOCIATIONS.includes(comment.author_association) ||
+      WORKAROUND_PATTERN.test(comment.body)
+    );
+  }
+
+  /**
+   * Condense one thread to about threadLimit tokens, issue included
+   */
+  private async condenseThread(
+    issue: RawGitHubIssue,
+    thread: RawComment[],
+    threadLimit: number,
+    budget: TokenBudget,
+    productArea: string
+  ): Promise<RawComment[]> {
+    const commentLimit = Math.max(
+      0,
+      threadLimit - this.promptManager.estimateIssueTokens(issue)
+    );
+
+    // Keep key comments verbatim, most reacted first, while they fit
+    const verbatim = new Set<RawComment>();
+    let verbatimTokens = 0;
+    const keyComments = thread
+      .filter((comment) => this.isKeyComment(comment))
+      .sort(
+        (a, b) =>
+          (b.reactions?.total_count || 0) - (a.reactions?.total_count || 0)
+      );
+    for (const comment of keyComments) {
+      const tokens = this.commentTokens(comment);
+      if (verbatimTokens + tokens <= commentLimit * VERBATIM_SHARE) {
+        verbatim.add(comment);
+        verbatimTokens += tokens;
+      }
+    }
+
+    // Map: summarize runs of the other comments between verbatim ones
+    const condensed: RawComment[] = [];
+    let run: RawComment[] = [];
+    const flushRun = async () => {
+      if (run.length > 0) {
+        condensed.push(
+          ...(await this.summarizeComments(issue, run, budget, productArea))
+        );
+        run = [];
+      }
+    };
+    for (const comment of thread) {
+      if (verbatim.has(comment)) {
+        await flushRun();
+        condensed.push(comment);
+      } else {
+        run.push(comment);
+      }
+    }
+    await flushRun();
+
+    // Reduce: summarize the summaries while they take too much room
+    let summaries = condensed.filter((comment) => comment.summaryOf);
+    const summaryLimit = commentLimit - verbatimTokens;
+    while (summaries.length > 1 && this.tokensOf(summaries) > summaryLimit) {
+      const reduced = await this.summarizeComments(
+        issue,
+        summaries,
+        budget,
+        productArea
+      );
+      if (reduced.length >= summaries.length) {
+        break; // Summaries too long to combine; keep them as they are
+      }
+      summaries = reduced;
+    }
+
+    return [...condensed.filter((comment) => !comment.summaryOf), ...summaries]
+      .map((comment, index) => ({ comment, index }))
+      .sort(
+        (a, b) =>
+          Date.parse(a.comment.created_at) - Date.parse(b.comment.created_at) ||
+          a.index - b.index
+      )
+      .map(({ comment }) => comment);
+  }
+
+  /**
+   * Summarize consecutive comments in chunks that fit one request
+   *
+   * @returns One summary per chunk; a chunk that can't be summarized is
+   *   replaced with a note on the left-out comments, or kept if it already
+   *   consists of summaries
+   */
+  private async summarizeComments(
+    issue: RawGitHubIssue,
+    comments: RawComment[],
+    budget: TokenBudget,
+    productArea: string
+  ): Promise<RawComment[]> {
+    const chunkLimit = Math.max(
+      MIN_THREAD_TOKENS,
+      usableTokens(budget) -
+        SUMMARY_MAX_TOKENS -
+        estimateMessageTokens(
+          this.promptManager.buildThreadSummaryPrompt(issue, [], productArea)
+        )
+    );
+
+    const chunks: RawComment[][] = [];
+    let chunk: RawComment[] = [];
+    let chunkTokens = 0;
+    for (const comment of comments) {
+      const fitted = this.truncateComment(comment, chunkLimit);
+      const tokens = this.commentTokens(fitted);
+      if (chunk.length > 0 && chunkTokens + tokens > chunkLimit) {
+        chunks.push(chunk);
+        chunk = [];
+        chunkTokens = 0;
+      }
+      chunk.push(fitted);
+      chunkTokens += tokens;
+    }
+    if (chunk.length > 0) {
+      chunks.push(chunk);
+    }
+
+    const summaries: RawComment[] = [];
+    for (const chunk of chunks) {
+      const summaryOf = chunk.reduce(
+        (count, comment) => count + (comment.summaryOf || 1),
+        0
+      );
+      const summary: RawComment = {
+        id: chunk[0].id,
+        user: { login: "summary" },
+        body: "",
+        created_at: chunk[0].created_at,
+        author_association: "NONE",
+        summaryOf,
+      };
+
+      try {
+        const response = await this.janClient.createCompletion(
+          this.promptManager.buildThreadSummaryPrompt(
+            issue,
+            chunk,
+            productArea
+          ),
+          { temperature: 0.2, maxTokens: SUMMARY_MAX_TOKENS }
+        );
+        summary.body = response.choices[0]?.message.content.trim() || "";
+      } catch (error: any) {
+        console.warn(
+          `Failed to summarize ${summaryOf} comments of issue #${issue.number}: ${error.message}`
+        );
+      }
+
+      if (summary.body) {
+        summaries.push(summary);
+      } else if (chunk.every((comment) => comment.summaryOf)) {
+        summaries.push(...chunk);
+      } else {
+        summary.body = `[${summaryOf} comments could not be summarized and were left out]`;
+        summaries.push(summary);
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Shorten a comment's body to fit maxTokens
+   */
+  private truncateComment(comment: RawComment, maxTokens: number): RawComment {
+    const tokens = this.commentTokens(comment);
+    if (tokens <= maxTokens) {
+      return comment;
+    }
+
+    const keep = Math.floor((comment.body.length * maxTokens) / tokens);
+    return { ...comment, body: `${comment.body.slice(0, keep)}\n[truncated]` };
+  }
+
+  private commentTokens(comment: RawComment): number {
+    return estimateTokens(this.promptManager.formatComment(comment));
+  }
+
+  private tokensOf(comments: RawComment[]): number {
+    return comments.reduce(
+      (total, comment) => total + this.commentTokens(comment),
+      0
+    );
+  }
+}
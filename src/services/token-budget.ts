@@ -0,0 +1,164 @@
+import { JANMessage } from "../models";
+
+// Used when the context window is neither configured, discovered nor known
+export const DEFAULT_CONTEXT_WINDOW = 4096;
+
+// Upper bound for the response of one batch
+export const MAX_RESPONSE_TOKENS = 4000;
+
+// Most issues per LLM batch; batches are packed to the model's context
+// window, and analyses get sloppier with more issues even if they fit
+export const MAX_BATCH_SIZE = 8;
+
+// Characters per token; English prose averages about 4, code and stack
+// traces fewer, so this errs towards overestimating
+const CHARS_PER_TOKEN = 3.5;
+
+// Chat template tokens added around each message
+const MESSAGE_OVERHEAD_TOKENS = 8;
+
+// Share of the context window kept free for estimation errors
+const SAFETY_MARGIN = 0.1;
+
+// Responses never get less room than this
+const MIN_RESPONSE_TOKENS = 256;
+
+// Context windows of common local models, most specific name first
+const KNOWN_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/codellama/i, 16384],
+  [/llama-?3\.[1-3]/i, 131072],
+  [/llama-?3/i, 8192],
+  [/llama-?2/i, 4096],
+  [/mistral-nemo/i, 131072],
+  [/mistral|mixtral/i, 32768],
+  [/phi-?3/i, 4096],
+  [/phi/i, 2048],
+  [/qwen-?2/i, 32768],
+  [/gemma/i, 8192],
+  [/deepseek/i, 16384],
+];
+
+/**
+ * Where a context window came from, from most to least reliable
+ */
+export type ContextWindowSource =
+  | "configured"
+  | "discovered"
+  | "known"
+  | "default";
+
+/**
+ * Token budget of one LLM request
+ */
+export interface TokenBudget {
+  contextWindow: number;
+  source: ContextWindowSource;
+}
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the prompt tokens of a chat request
+ */
+export function estimateMessageTokens(messages: JANMessage[]): number {
+  return messages.reduce(
+    (total, message) =>
+      total + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS,
+    0
+  );
+}
+
+/**
+ * Look up the context window of a model by its name
+ *
+ * @returns The context window, or undefined for unknown models
+ */
+export function lookupContextWindow(model: string): number | undefined {
+  const known = KNOWN_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  return known?.[1];
+}
+
+/**
+ * Tokens a request may use, prompt and response together
+ */
+export function usableTokens(budget: TokenBudget): number {
+  return Math.floor(budget.contextWindow * (1 - SAFETY_MARGIN));
+}
+
+/**
+ * Response limit for a prompt: whatever the context window leaves, capped
+ * at MAX_RESPONSE_TOKENS
+ */
+export function responseTokenLimit(
+  promptTokens: number,
+  budget: TokenBudget
+): number {
+  return Math.max(
+    MIN_RESPONSE_TOKENS,
+    Math.min(MAX_RESPONSE_TOKENS, usableTokens(budget) - promptTokens)
+  );
+}
+
+/**
+ * Pack items into batches of at most maxItems that fit the budget
+ *
+ * Items keep their order. An item too large for any batch gets a batch of
+ * its own, so every item is analyzed even if its request may fail.
+ *
+ * @param items Items to pack
+ * @param itemTokens Tokens an item adds to a batch, prompt and response
+ * @param fixedTokens Tokens every batch needs regardless of its items
+ * @param budget Token budget of one request
+ * @param maxItems Maximum number of items per batch
+ * @returns The batches
+ */
+export function packBatches<T>(
+  items: T[],
+  itemTokens: (item: T) => number,
+  fixedTokens: number,
+  budget: TokenBudget,
+  maxItems: number
+): T[][] {
+  const available = usableTokens(budget) - fixedTokens;
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let batchTokens = 0;
+
+  for (const item of items) {
+    const tokens = itemTokens(item);
+
+    if (
+      batch.length > 0 &&
+      (batch.length >= maxItems || batchTokens + tokens > available)
+    ) {
+      batches.push(batch);
+      batch = [];
+      batchTokens = 0;
+    }
+
+    batch.push(item);
+    batchTokens += tokens;
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+
+  return batches;
+}
+
+/**
+ * Read the context window from a context length error, e.g. "This model's
+ * maximum context length is 4096 tokens"
+ *
+ * @returns The context window, or undefined if the message doesn't state it
+ */
+export function parseContextWindowError(message: string): number | undefined {
+  const match = message.match(/maximum context length is (\d+) tokens/i);
+  return match ? parseInt(match[1], 10) : undefined;
+}
@@ -0,0 +1,189 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import * as crypto from "crypto";
+import {
+  ErrorHandler,
+  ErrorContext,
+  ScraperError,
+  ErrorType,
+} from "./error-handler";
+
+export type TrafficMode = "record" | "replay";
+export type TrafficKind = "github" | "llm";
+
+export interface RecordedError {
+  message: string;
+  code?: string;
+  status?: number; // OpenAI client errors
+  isAxiosError?: boolean;
+  response?: {
+    status: number;
+    headers?: Record<string, unknown>;
+    data?: unknown;
+  };
+}
+
+export interface RecordedExchange {
+  response?: unknown;
+  error?: RecordedError;
+}
+
+export interface TrafficFixture {
+  kind: TrafficKind;
+  request: unknown;
+  exchanges: RecordedExchange[]; // In order, e.g. a failed attempt and its retry
+}
+
+/**
+ * Traffic Recorder
+ *
+ * Records GitHub API responses and LLM completions to fixture files, one file
+ * per distinct request, and serves them back in replay mode without any
+ * network access. Repeated identical requests replay their exchanges in the
+ * recorded order, so retries after errors reproduce faithfully.
+ */
+export class TrafficRecorder {
+  readonly mode: TrafficMode;
+  private fixtureDir: string;
+  private recorded = new Map<string, TrafficFixture>();
+  private replayed = new Map<string, number>();
+
+  constructor(fixtureDir: string, mode: TrafficMode) {
+    this.fixtureDir = path.resolve(fixtureDir);
+    this.mode = mode;
+  }
+
+  /**
+   * Compute the fixture key of a request
+   */
+  static computeKey(kind: TrafficKind, request: unknown): string {
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify({ kind, request }))
+      .digest("hex");
+  }
+
+  /**
+   * Append an exchange to the fixture of a request
+   */
+  async record(
+    kind: TrafficKind,
+    request: unknown,
+    exchange: RecordedExchange
+  ): Promise<void> {
+    const key = TrafficRecorder.computeKey(kind, request);
+    const filePath = this.getFixturePath(kind, key);
+    const context: ErrorContext = {
+      operation: "recording traffic fixture",
+      filePath,
+    };
+
+    // Fixtures left over from an earlier recording are replaced, not extended
+    const fixture = this.recorded.get(key) || { kind, request, exchanges: [] };
+    fixture.exchanges.push(exchange);
+    this.recorded.set(key, fixture);
+
+    try {
+      await fs.ensureDir(path.dirname(filePath));
+
+      const tempPath = filePath + ".tmp";
+      await fs.writeJson(tempPath, fixture, { spaces: 2 });
+      await fs.move(tempPath, filePath, { overwrite: true });
+    } catch (error: any) {
+      throw ErrorHandler.convertToScraperError(error, context);
+    }
+  }
+
+  /**
+   * Record a failed request so replay fails the same way
+   */
+  async recordError(
+    kind: TrafficKind,
+    request: unknown,
+    error: any
+  ): Promise<void> {
+    const recordedError: RecordedError = {
+      message: error?.message || String(error),
+      code: error?.code,
+      status: typeof error?.status === "number" ? error.status : undefined,
+      isAxiosError: error?.isAxiosError,
+      response: error?.response && {
+        status: error.response.status,
+        headers: error.response.headers,
+        data: error.response.data,
+      },
+    };
+
+    await this.record(kind, request, { error: recordedError });
+  }
+
+  /**
+   * Serve the next recorded exchange of a request
+   *
+   * @returns The recorded response
+   * @throws The recorded error, or a ScraperError if nothing was recorded
+   */
+  async replay<T>(kind: TrafficKind, request: unknown): Promise<T> {
+    const key = TrafficRecorder.computeKey(kind, request);
+    const filePath = this.getFixturePath(kind, key);
+    const context: ErrorContext = {
+      operation: "replaying traffic fixture",
+      filePath,
+      additionalInfo: { request },
+    };
+
+    let fixture: TrafficFixture;
+    try {
+      fixture = (await fs.readJson(filePath)) as TrafficFixture;
+    } catch (error: any) {
+      throw new ScraperError(
+        ErrorType.VALIDATION,
+        `No recorded ${kind} traffic for this request in ${this.fixtureDir}`,
+        context,
+        [
+          {
+            action: "Record the run again",
+            description:
+              "Rerun with --record using the same options; replay only serves requests made during the recording",
+            priority: "high",
+          },
+        ],
+        false,
+        error
+      );
+    }
+
+    // Past the end, keep serving the last exchange
+    const index = this.replayed.get(key) || 0;
+    this.replayed.set(key, index + 1);
+    const exchange =
+      fixture.exchanges[Math.min(index, fixture.exchanges.length - 1)];
+
+    if (exchange?.error) {
+      throw this.toError(exchange.error);
+    }
+
+    return exchange?.response as T;
+  }
+
+  /**
+   * Get the fixture file path of a request
+   */
+  getFixturePath(kind: TrafficKind, key: string): string {
+    return path.join(this.fixtureDir, kind, `${key}.json`);
+  }
+
+  /**
+   * Rebuild an error shaped like the one thrown during recording
+   */
+  private toError(recordedError: RecordedError): Error {
+    const error: any = new Error(recordedError.message);
+
+    if (recordedError.code) error.code = recordedError.code;
+    if (recordedError.status) error.status = recordedError.status;
+    if (recordedError.isAxiosError) error.isAxiosError = true;
+    if (recordedError.response) error.response = recordedError.response;
+
+    return error;
+  }
+}